@@ -50,24 +50,35 @@ export class CloudTaskMQService implements OnModuleInit, OnModuleDestroy {
     return this.getInstance().getTask(taskId);
   }
 
-  // TODO: These methods are not available in current CloudTaskMQ version
-  // async getQueueStats(queueName: string) {
-  //   return this.getInstance().getQueueStats(queueName);
-  // }
+  async retryTask(taskId: string) {
+    return this.getInstance().retryTask(taskId);
+  }
+
+  async cancelTask(taskId: string) {
+    return this.getInstance().cancelTask(taskId);
+  }
+
+  async promoteTask(taskId: string) {
+    return this.getInstance().promoteTask(taskId);
+  }
 
-  // async retryTask(taskId: string) {
-  //   return this.getInstance().retryTask(taskId);
-  // }
+  async getQueueStats(queueName: string) {
+    return this.getInstance().getQueueStats(queueName);
+  }
+
+  async getAllQueueStats() {
+    return this.getInstance().getAllQueueStats();
+  }
 
   async cleanup(options?: any) {
     return this.getInstance().cleanup(options);
   }
 
-  // async pauseQueue(queueName: string) {
-  //   return this.getInstance().pauseQueue(queueName);
-  // }
+  async pauseQueue(queueName: string) {
+    return this.getInstance().pauseQueue(queueName);
+  }
 
-  // async resumeQueue(queueName: string) {
-  //   return this.getInstance().resumeQueue(queueName);
-  // }
+  async resumeQueue(queueName: string) {
+    return this.getInstance().resumeQueue(queueName);
+  }
 }
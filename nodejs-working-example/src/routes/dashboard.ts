@@ -26,15 +26,21 @@ router.get('/', async (req: Request, res: Response) => {
     const queueStats = await Promise.all(
       queueNames.map(async (queueName) => {
         try {
-          const tasks = await taskMQ.getTasks({ queueName });
+          const stats = await taskMQ.getQueueStats(queueName);
           return {
             queueName,
-            totalTasks: tasks.length,
-            idle: tasks.filter(t => t.status === 'idle').length,
-            active: tasks.filter(t => t.status === 'active').length,
-            completed: tasks.filter(t => t.status === 'completed').length,
-            failed: tasks.filter(t => t.status === 'failed').length,
-            lastUpdated: new Date().toISOString(),
+            totalTasks: stats.total,
+            idle: stats.counts.idle,
+            active: stats.counts.active,
+            completed: stats.counts.completed,
+            failed: stats.counts.failed,
+            paused: stats.paused,
+            oldestWaitingAge: stats.oldestWaitingAge,
+            averageDuration: stats.averageDuration,
+            p95Duration: stats.p95Duration,
+            completedPerMinute: stats.completedPerMinute,
+            failedPerMinute: stats.failedPerMinute,
+            lastUpdated: stats.timestamp.toISOString(),
           };
         } catch {
           return {
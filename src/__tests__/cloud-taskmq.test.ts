@@ -142,6 +142,32 @@ describe('CloudTaskMQ', () => {
     });
   });
 
+  describe('Queue Stats', () => {
+    it('should report stats for processed tasks', async () => {
+      const addResult = await taskMQ.addTask('test-queue', { message: 'Hello' });
+      await taskMQ.addTask('test-queue', { message: 'Waiting' });
+      await taskMQ.processTask({
+        taskId: addResult.taskId,
+        queueName: 'test-queue',
+        data: { message: 'Hello' },
+        attempts: 0,
+        maxAttempts: 3,
+      });
+
+      const stats = await taskMQ.getQueueStats('test-queue');
+      expect(stats.counts.completed).toBe(1);
+      expect(stats.counts.idle).toBe(1);
+      expect(stats.averageDuration).not.toBeNull();
+
+      const allStats = await taskMQ.getAllQueueStats();
+      expect(allStats.map(s => s.queueName)).toEqual(['test-queue']);
+    });
+
+    it('should reject unknown queues', async () => {
+      await expect(taskMQ.getQueueStats('missing-queue')).rejects.toThrow('not found in configuration');
+    });
+  });
+
   describe('Task Chains', () => {
     it('should create a task chain', async () => {
       const tasks = [
@@ -166,6 +192,48 @@ describe('CloudTaskMQ', () => {
         expect(storedTasks[index]?.chain?.index).toBe(index);
         expect(storedTasks[index]?.chain?.total).toBe(3);
       });
+
+      // Only the first step is dispatched; the rest wait for their predecessor
+      expect(storedTasks.map(task => task?.status)).toEqual(['idle', 'waiting', 'waiting']);
+    });
+
+    it('should dispatch every step at once when not waiting for previous steps', async () => {
+      const chainResults = await taskMQ.addChain(
+        'test-queue',
+        [{ data: { step: 1 } }, { data: { step: 2 } }],
+        { waitForPrevious: false },
+      );
+
+      const storedTasks = await Promise.all(
+        chainResults.map(result => taskMQ.getTask(result.taskId))
+      );
+      expect(storedTasks.map(task => task?.status)).toEqual(['idle', 'idle']);
+    });
+  });
+
+  describe('Repeatable Tasks', () => {
+    @Processor('test-queue')
+    class ScheduledProcessor {
+      @Process({ name: 'nightly', repeat: { cron: '0 2 * * *', timezone: 'Europe/Paris', data: { full: true } } })
+      async nightly() {
+        return 'done';
+      }
+    }
+
+    it('should register the schedules declared on @Process', async () => {
+      taskMQ.registerProcessor(new ScheduledProcessor());
+      await new Promise(resolve => setImmediate(resolve));
+
+      const repeatables = await taskMQ.getRepeatables('test-queue');
+      expect(repeatables).toHaveLength(1);
+      expect(repeatables[0]).toEqual(expect.objectContaining({
+        key: 'test-queue:nightly:0 2 * * *:Europe/Paris',
+        data: { full: true },
+        options: { taskName: 'nightly' },
+      }));
+
+      expect(await taskMQ.removeRepeatable(repeatables[0].key)).toBe(true);
+      expect(await taskMQ.getRepeatables()).toEqual([]);
     });
   });
 
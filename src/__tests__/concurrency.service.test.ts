@@ -0,0 +1,80 @@
+import { ConcurrencyService } from '../services/concurrency.service';
+import { MemoryStorageAdapter } from '../adapters/memory-storage.adapter';
+
+describe('ConcurrencyService', () => {
+  let storageAdapter: MemoryStorageAdapter;
+
+  beforeEach(async () => {
+    storageAdapter = new MemoryStorageAdapter();
+    await storageAdapter.initialize();
+  });
+
+  afterEach(async () => {
+    await storageAdapter.close();
+  });
+
+  describe('local limits', () => {
+    it('should allow up to the limit and free slots on release', async () => {
+      const service = new ConcurrencyService(storageAdapter);
+      const limits = [{ key: 'queue:test', limit: 2 }];
+
+      expect(await service.acquire(limits, 'task-1')).toBe(true);
+      expect(await service.acquire(limits, 'task-2')).toBe(true);
+      expect(await service.acquire(limits, 'task-3')).toBe(false);
+
+      await service.release(limits, 'task-1');
+      expect(await service.acquire(limits, 'task-3')).toBe(true);
+      expect(service.getRunning('queue:test')).toBe(2);
+    });
+
+    it('should take all slots or none', async () => {
+      const service = new ConcurrencyService(storageAdapter);
+      const queueLimit = { key: 'queue:test', limit: 5 };
+      const handlerLimit = { key: 'handler:test:work', limit: 1 };
+
+      expect(await service.acquire([queueLimit, handlerLimit], 'task-1')).toBe(true);
+      expect(await service.acquire([queueLimit, handlerLimit], 'task-2')).toBe(false);
+
+      expect(service.getRunning('queue:test')).toBe(1);
+    });
+  });
+
+  describe('distributed limits', () => {
+    it('should share limits between instances through the storage adapter', async () => {
+      const first = new ConcurrencyService(storageAdapter, { distributed: true });
+      const second = new ConcurrencyService(storageAdapter, { distributed: true });
+      const limits = [{ key: 'queue:test', limit: 1 }];
+
+      expect(await first.acquire(limits, 'task-1')).toBe(true);
+      expect(await second.acquire(limits, 'task-2')).toBe(false);
+      expect(second.getRunning('queue:test')).toBe(0);
+
+      await first.release(limits, 'task-1');
+      expect(await second.acquire(limits, 'task-2')).toBe(true);
+    });
+
+    it('should reclaim expired leases', async () => {
+      const first = new ConcurrencyService(storageAdapter, { distributed: true, leaseTtlMs: 10 });
+      const second = new ConcurrencyService(storageAdapter, { distributed: true, leaseTtlMs: 10 });
+      const limits = [{ key: 'queue:test', limit: 1 }];
+
+      expect(await first.acquire(limits, 'task-1')).toBe(true);
+      await new Promise(resolve => setTimeout(resolve, 20));
+
+      expect(await second.acquire(limits, 'task-2')).toBe(true);
+    });
+
+    it('should release partially acquired leases', async () => {
+      const first = new ConcurrencyService(storageAdapter, { distributed: true });
+      const second = new ConcurrencyService(storageAdapter, { distributed: true });
+
+      expect(await first.acquire([{ key: 'handler:test:work', limit: 1 }], 'task-1')).toBe(true);
+      expect(await second.acquire([
+        { key: 'queue:test', limit: 1 },
+        { key: 'handler:test:work', limit: 1 },
+      ], 'task-2')).toBe(false);
+
+      expect(await second.acquire([{ key: 'queue:test', limit: 1 }], 'task-3')).toBe(true);
+    });
+  });
+});
@@ -357,6 +357,549 @@ describe('ConsumerService', () => {
     });
   });
 
+  describe('concurrency limits', () => {
+    let release: () => void;
+    let blocker: Promise<void>;
+
+    @Processor('limited-queue', { concurrency: 2 })
+    class LimitedProcessor {
+      @Process({ name: 'slow', concurrency: 1 })
+      async slow(task: CloudTask) {
+        await blocker;
+        return { done: true };
+      }
+
+      @Process({ name: 'fast' })
+      async fast(task: CloudTask) {
+        await blocker;
+        return { done: true };
+      }
+    }
+
+    const saveLimitedTask = async (id: string, taskName: string) => {
+      await storageAdapter.saveTask({
+        id,
+        queueName: 'limited-queue',
+        data: {},
+        status: TaskStatus.IDLE,
+        attempts: 0,
+        maxAttempts: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        options: { taskName },
+      });
+      return {
+        taskId: id,
+        queueName: 'limited-queue',
+        data: {},
+        attempts: 0,
+        maxAttempts: 3,
+      };
+    };
+
+    beforeEach(() => {
+      blocker = new Promise(resolve => {
+        release = resolve;
+      });
+      consumerService.registerProcessor(new LimitedProcessor());
+    });
+
+    it('should reject deliveries over the handler limit without touching the task', async () => {
+      const running = consumerService.processTask(await saveLimitedTask('slow-1', 'slow'));
+
+      await expect(
+        consumerService.processTask(await saveLimitedTask('slow-2', 'slow'))
+      ).rejects.toThrow('Concurrency limit reached for queue "limited-queue"');
+
+      const rejected = await storageAdapter.getTask('slow-2');
+      expect(rejected?.status).toBe(TaskStatus.IDLE);
+      expect(rejected?.attempts).toBe(0);
+
+      release();
+      await running;
+      await expect(consumerService.processTask(await saveLimitedTask('slow-3', 'slow'))).resolves.toEqual({ done: true });
+    });
+
+    it('should reject deliveries over the queue limit', async () => {
+      const running = [
+        consumerService.processTask(await saveLimitedTask('fast-1', 'fast')),
+        consumerService.processTask(await saveLimitedTask('fast-2', 'fast')),
+      ];
+
+      await expect(
+        consumerService.processTask(await saveLimitedTask('fast-3', 'fast'))
+      ).rejects.toThrow('Concurrency limit reached');
+
+      release();
+      await Promise.all(running);
+    });
+
+    it('should store the concurrency keys of a run on the claimed task', async () => {
+      const running = consumerService.processTask(await saveLimitedTask('slow-4', 'slow'));
+      await new Promise(resolve => setImmediate(resolve));
+
+      expect((await storageAdapter.getTask('slow-4'))?.concurrencyKeys).toEqual([
+        'queue:limited-queue',
+        'handler:limited-queue:slow',
+      ]);
+
+      release();
+      await running;
+    });
+  });
+
+  describe('rate limits', () => {
+    const dispatch = jest.fn();
+    const handled: string[] = [];
+
+    @Processor('rate-limited-queue', { rateLimiter: { maxRequests: 3, windowMs: 60000 } })
+    class RateLimitedProcessor {
+      @Process({
+        name: 'per-customer',
+        rateLimiter: { maxRequests: 1, windowMs: 60000, groupKey: data => data.customerId },
+      })
+      async perCustomer(task: CloudTask) {
+        handled.push(task.id);
+        return { done: true };
+      }
+
+      @Process({ name: 'shared' })
+      async shared(task: CloudTask) {
+        handled.push(task.id);
+        return { done: true };
+      }
+    }
+
+    const deliverTask = async (id: string, taskName: string, data: any = {}) => {
+      await storageAdapter.saveTask({
+        id,
+        queueName: 'rate-limited-queue',
+        data,
+        status: TaskStatus.IDLE,
+        attempts: 0,
+        maxAttempts: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        options: { taskName },
+      });
+      return consumerService.processTask({
+        taskId: id,
+        queueName: 'rate-limited-queue',
+        data,
+        attempts: 0,
+        maxAttempts: 3,
+      });
+    };
+
+    beforeEach(() => {
+      handled.length = 0;
+      dispatch.mockReset().mockResolvedValue('cloud-task-name');
+      config.queues.push({
+        name: 'rate-limited-queue',
+        path: 'projects/test-project/locations/us-central1/queues/rate-limited-queue',
+      });
+      consumerService.setTransport({
+        initialize: jest.fn(),
+        dispatch,
+        close: jest.fn(),
+      });
+      consumerService.registerProcessor(new RateLimitedProcessor());
+    });
+
+    it('should reschedule tasks over the limit for when it resets instead of running them', async () => {
+      const rateLimitedEvents: any[] = [];
+      consumerService.on('taskRateLimited', (event) => rateLimitedEvents.push(event));
+
+      for (const id of ['shared-1', 'shared-2', 'shared-3']) {
+        await expect(deliverTask(id, 'shared')).resolves.toEqual({ done: true });
+      }
+
+      const before = Date.now();
+      await expect(deliverTask('shared-4', 'shared')).resolves.toBeUndefined();
+
+      expect(handled).toEqual(['shared-1', 'shared-2', 'shared-3']);
+      const deferred = await storageAdapter.getTask('shared-4');
+      expect(deferred?.status).toBe(TaskStatus.DELAYED);
+      expect(deferred?.attempts).toBe(0);
+      expect(deferred?.scheduledFor!.getTime()).toBeGreaterThan(before);
+      expect(deferred?.scheduledFor!.getTime()).toBeLessThanOrEqual(before + 60000);
+      expect(deferred?.cloudTaskName).toBe('cloud-task-name');
+      expect(dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'rate-limited-queue' }),
+        expect.objectContaining({ id: 'shared-4', scheduledFor: deferred?.scheduledFor }),
+      );
+      expect(rateLimitedEvents).toHaveLength(1);
+      expect(rateLimitedEvents[0]).toMatchObject({
+        taskId: 'shared-4',
+        rateLimitKey: 'processor:rate-limited-queue:RateLimitedProcessor',
+        scheduledFor: deferred?.scheduledFor,
+      });
+    });
+
+    it('should count the process limit separately for every group', async () => {
+      await expect(deliverTask('acme-1', 'per-customer', { customerId: 'acme' })).resolves.toEqual({ done: true });
+      await expect(deliverTask('globex-1', 'per-customer', { customerId: 'globex' })).resolves.toEqual({ done: true });
+      await expect(deliverTask('acme-2', 'per-customer', { customerId: 'acme' })).resolves.toBeUndefined();
+
+      expect(handled).toEqual(['acme-1', 'globex-1']);
+      expect((await storageAdapter.getTask('acme-2'))?.status).toBe(TaskStatus.DELAYED);
+    });
+
+    it('should give back the processor slot when the process limit defers the task', async () => {
+      await expect(deliverTask('acme-1', 'per-customer', { customerId: 'acme' })).resolves.toEqual({ done: true });
+      await expect(deliverTask('acme-2', 'per-customer', { customerId: 'acme' })).resolves.toBeUndefined();
+
+      // acme-2 doesn't count against the processor limit of 3
+      await expect(deliverTask('shared-1', 'shared')).resolves.toEqual({ done: true });
+      await expect(deliverTask('shared-2', 'shared')).resolves.toEqual({ done: true });
+      expect(handled).toEqual(['acme-1', 'shared-1', 'shared-2']);
+    });
+
+    it('should not count deliveries rejected by a concurrency limit', async () => {
+      jest.spyOn((consumerService as any).concurrencyService, 'acquire').mockResolvedValueOnce(false);
+      await expect(deliverTask('shared-0', 'shared')).rejects.toMatchObject({ name: 'ConcurrencyLimitError' });
+
+      for (const id of ['shared-1', 'shared-2', 'shared-3']) {
+        await expect(deliverTask(id, 'shared')).resolves.toEqual({ done: true });
+      }
+    });
+
+    it('should fail the delivery with a rate limit error without a transport', async () => {
+      const unlinkedConsumer = new ConsumerService(config, storageAdapter);
+      unlinkedConsumer.registerProcessor(new RateLimitedProcessor());
+      await deliverTask('acme-1', 'per-customer', { customerId: 'acme' });
+
+      await storageAdapter.saveTask({
+        id: 'acme-2',
+        queueName: 'rate-limited-queue',
+        data: { customerId: 'acme' },
+        status: TaskStatus.IDLE,
+        attempts: 0,
+        maxAttempts: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        options: { taskName: 'per-customer' },
+      });
+      await expect(unlinkedConsumer.processTask({
+        taskId: 'acme-2',
+        queueName: 'rate-limited-queue',
+        data: { customerId: 'acme' },
+        attempts: 0,
+        maxAttempts: 3,
+      })).rejects.toMatchObject({ name: 'RateLimitError' });
+
+      expect((await storageAdapter.getTask('acme-2'))?.status).toBe(TaskStatus.IDLE);
+      await unlinkedConsumer.close();
+    });
+  });
+
+  describe('timeouts', () => {
+    let signals: AbortSignal[];
+
+    @Processor('timeout-queue')
+    class TimeoutProcessor {
+      @Process({ name: 'hang', timeout: 20 })
+      async hang(task: CloudTask) {
+        signals.push(task.signal!);
+        await new Promise(resolve => task.signal!.addEventListener('abort', resolve));
+        return { stopped: true };
+      }
+
+      @Process({ name: 'quick', timeout: 1000 })
+      async quick(task: CloudTask) {
+        return { done: true };
+      }
+    }
+
+    const saveTimeoutTask = async (id: string, options: Record<string, any>, maxAttempts = 3) => {
+      await storageAdapter.saveTask({
+        id,
+        queueName: 'timeout-queue',
+        data: {},
+        status: TaskStatus.IDLE,
+        attempts: 0,
+        maxAttempts,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        options,
+      });
+      return { taskId: id, queueName: 'timeout-queue', data: {}, attempts: 0, maxAttempts };
+    };
+
+    beforeEach(() => {
+      signals = [];
+      consumerService.registerProcessor(new TimeoutProcessor());
+    });
+
+    it('should fail hung handlers with a timeout reason and abort their signal', async () => {
+      await expect(
+        consumerService.processTask(await saveTimeoutTask('timeout-1', { taskName: 'hang' }))
+      ).rejects.toThrow('Task timeout-1 timed out after 20ms');
+
+      expect(signals[0].aborted).toBe(true);
+      const task = await storageAdapter.getTask('timeout-1');
+      expect(task?.status).toBe(TaskStatus.IDLE);
+      expect(task?.attempts).toBe(1);
+      expect(task?.errorHistory?.[0].reason).toBe('timeout');
+    });
+
+    it('should record the timeout reason on the final failure', async () => {
+      const failedEvents: any[] = [];
+      consumerService.on('taskFailed', event => failedEvents.push(event));
+
+      await expect(
+        consumerService.processTask(await saveTimeoutTask('timeout-2', { taskName: 'hang' }, 1))
+      ).rejects.toThrow('timed out');
+
+      const task = await storageAdapter.getTask('timeout-2');
+      expect(task?.status).toBe(TaskStatus.FAILED);
+      expect(task?.error?.reason).toBe('timeout');
+      expect(failedEvents[0].error.reason).toBe('timeout');
+    });
+
+    it('should let the task timeout override the handler timeout', async () => {
+      await expect(
+        consumerService.processTask(await saveTimeoutTask('timeout-3', { taskName: 'quick', timeout: 1 }))
+      ).resolves.toEqual({ done: true });
+
+      await expect(
+        consumerService.processTask(await saveTimeoutTask('timeout-4', { taskName: 'hang', timeout: 5 }))
+      ).rejects.toThrow('timed out after 5ms');
+    });
+
+    it('should pass the timeout error to custom retry policies', async () => {
+      const calculate = jest.fn().mockReturnValue(10);
+      config.queues.push({
+        name: 'timeout-queue',
+        path: 'projects/test-project/locations/us-central1/queues/timeout-queue',
+      });
+      consumerService.setTransport({
+        initialize: jest.fn(),
+        dispatch: jest.fn().mockResolvedValue(undefined),
+        close: jest.fn(),
+      });
+
+      await consumerService.processTask(await saveTimeoutTask('timeout-5', {
+        taskName: 'hang',
+        retryPolicy: { type: 'custom', calculate },
+      }));
+
+      expect(calculate).toHaveBeenCalledWith(1, expect.objectContaining({ name: 'TimeoutError' }));
+    });
+  });
+
+  describe('task locks', () => {
+    let locks: Array<Date | undefined>;
+    let onStart: (taskId: string) => Promise<void>;
+
+    @Processor('lock-queue')
+    class LockProcessor {
+      @Process({ name: 'work' })
+      async work(task: CloudTask) {
+        await onStart(task.id);
+        locks.push((await storageAdapter.getTask(task.id))?.lockExpiresAt);
+        await new Promise(resolve => setTimeout(resolve, 50));
+        locks.push((await storageAdapter.getTask(task.id))?.lockExpiresAt);
+        return { done: true };
+      }
+    }
+
+    beforeEach(async () => {
+      locks = [];
+      onStart = async () => undefined;
+      consumerService.registerProcessor(new LockProcessor());
+      await storageAdapter.saveTask({
+        id: 'lock-task-1',
+        queueName: 'lock-queue',
+        data: {},
+        status: TaskStatus.IDLE,
+        attempts: 0,
+        maxAttempts: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+
+    const payload = { taskId: 'lock-task-1', queueName: 'lock-queue', data: {}, attempts: 0, maxAttempts: 3 };
+
+    it('should lock active tasks and renew the lock while the handler runs', async () => {
+      config.stalledTasks = { lockDurationMs: 1000, lockRenewIntervalMs: 10 };
+
+      await consumerService.processTask(payload);
+
+      expect(locks[0]).toBeInstanceOf(Date);
+      expect(locks[1]!.getTime()).toBeGreaterThan(locks[0]!.getTime());
+      expect((await storageAdapter.getTask('lock-task-1'))?.status).toBe(TaskStatus.COMPLETED);
+    });
+
+    it('should stop renewing a lock another run took over', async () => {
+      config.stalledTasks = { lockDurationMs: 1000, lockRenewIntervalMs: 10 };
+      const takenOverLock = new Date(Date.now() + 60000);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      onStart = async taskId => {
+        await storageAdapter.updateTask(taskId, { lockToken: 'other-run', lockExpiresAt: takenOverLock });
+      };
+
+      await consumerService.processTask(payload);
+
+      expect(locks).toEqual([takenOverLock, takenOverLock]);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('Lost the lock of task lock-task-1'));
+      warn.mockRestore();
+    });
+
+    it('should not lock tasks when stalled task detection is disabled', async () => {
+      config.stalledTasks = { enabled: false };
+
+      await consumerService.processTask(payload);
+
+      expect(locks).toEqual([undefined, undefined]);
+    });
+  });
+
+  describe('delivery guards', () => {
+    let deliveries: Array<CloudTask['delivery']>;
+
+    @Processor('paused-queue')
+    class PausedQueueProcessor {
+      @Process({ name: 'work' })
+      async work(task: CloudTask) {
+        deliveries.push(task.delivery);
+        await new Promise(resolve => setTimeout(resolve, 20));
+        return { done: true };
+      }
+    }
+
+    beforeEach(async () => {
+      deliveries = [];
+      consumerService.registerProcessor(new PausedQueueProcessor());
+      await storageAdapter.saveTask({
+        id: 'paused-task-1',
+        queueName: 'paused-queue',
+        data: {},
+        status: TaskStatus.IDLE,
+        attempts: 0,
+        maxAttempts: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+    });
+
+    it('should defer deliveries without touching the task', async () => {
+      await storageAdapter.setQueuePaused('paused-queue', true);
+
+      await expect(
+        consumerService.processTask({
+          taskId: 'paused-task-1',
+          queueName: 'paused-queue',
+          data: {},
+          attempts: 0,
+          maxAttempts: 3,
+        })
+      ).rejects.toThrow('Queue "paused-queue" is paused');
+
+      const task = await storageAdapter.getTask('paused-task-1');
+      expect(task?.status).toBe(TaskStatus.IDLE);
+      expect(task?.attempts).toBe(0);
+    });
+
+    it('should refuse deliveries of delayed tasks that are not due yet', async () => {
+      await storageAdapter.updateTaskStatus('paused-task-1', TaskStatus.DELAYED, {
+        scheduledFor: new Date(Date.now() + 60000),
+      });
+
+      await expect(
+        consumerService.processTask({
+          taskId: 'paused-task-1',
+          queueName: 'paused-queue',
+          data: {},
+          attempts: 0,
+          maxAttempts: 3,
+        })
+      ).rejects.toMatchObject({ name: 'TaskNotDueError' });
+
+      expect((await storageAdapter.getTask('paused-task-1'))?.status).toBe(TaskStatus.DELAYED);
+      expect(deliveries).toHaveLength(0);
+    });
+
+    it('should acknowledge cancelled tasks without running them', async () => {
+      await storageAdapter.updateTaskStatus('paused-task-1', TaskStatus.CANCELLED);
+
+      await expect(
+        consumerService.processTask({
+          taskId: 'paused-task-1',
+          queueName: 'paused-queue',
+          data: {},
+          attempts: 0,
+          maxAttempts: 3,
+        })
+      ).resolves.toBeUndefined();
+
+      expect((await storageAdapter.getTask('paused-task-1'))?.status).toBe(TaskStatus.CANCELLED);
+    });
+
+    it('should return the stored result of tasks delivered again after completing', async () => {
+      await storageAdapter.updateTaskStatus('paused-task-1', TaskStatus.COMPLETED, { result: { done: 'earlier' } });
+
+      const result = await consumerService.processTask(
+        { taskId: 'paused-task-1', queueName: 'paused-queue', data: {}, attempts: 0, maxAttempts: 3 },
+        { retryCount: 1, executionCount: 0 },
+      );
+
+      expect(result).toEqual({ done: 'earlier' });
+      expect(deliveries).toHaveLength(0);
+    });
+
+    it('should acknowledge tasks that failed for good without running them', async () => {
+      await storageAdapter.updateTaskStatus('paused-task-1', TaskStatus.FAILED);
+
+      await expect(
+        consumerService.processTask({ taskId: 'paused-task-1', queueName: 'paused-queue', data: {}, attempts: 3, maxAttempts: 3 })
+      ).resolves.toBeUndefined();
+      expect(deliveries).toHaveLength(0);
+    });
+
+    it('should run a task only once when instances receive it at the same time', async () => {
+      const otherConsumer = new ConsumerService(config, storageAdapter);
+      await otherConsumer.initialize();
+      otherConsumer.registerProcessor(new PausedQueueProcessor());
+      const payload = { taskId: 'paused-task-1', queueName: 'paused-queue', data: {}, attempts: 0, maxAttempts: 3 };
+
+      const results = await Promise.allSettled([
+        consumerService.processTask(payload),
+        otherConsumer.processTask(payload),
+      ]);
+      await otherConsumer.close();
+
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(deliveries).toHaveLength(1);
+    });
+
+    it('should pass the delivery details to handlers', async () => {
+      await consumerService.processTask(
+        { taskId: 'paused-task-1', queueName: 'paused-queue', data: {}, attempts: 0, maxAttempts: 3 },
+        { taskName: 'projects/p/locations/l/queues/q/tasks/t', retryCount: 2, executionCount: 1 },
+      );
+
+      expect(deliveries).toEqual([{ taskName: 'projects/p/locations/l/queues/q/tasks/t', retryCount: 2, executionCount: 1 }]);
+    });
+
+    it('should discard the outcome of a run whose task was requeued while it ran', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      const run = consumerService.processTask({ taskId: 'paused-task-1', queueName: 'paused-queue', data: {}, attempts: 0, maxAttempts: 3 });
+
+      // The stalled task service takes the task back from the slow run
+      await new Promise(resolve => setTimeout(resolve, 5));
+      await storageAdapter.transitionTask('paused-task-1', [TaskStatus.ACTIVE], TaskStatus.IDLE, { stalledCount: 1 });
+
+      await expect(run).resolves.toEqual({ done: true });
+      const task = await storageAdapter.getTask('paused-task-1');
+      expect(task?.status).toBe(TaskStatus.IDLE);
+      expect(task?.result).toBeUndefined();
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('is no longer active'));
+      warn.mockRestore();
+    });
+  });
+
   describe('event handling', () => {
     let completedEvents: any[] = [];
     let failedEvents: any[] = [];
@@ -485,6 +1028,25 @@ describe('ConsumerService', () => {
       expect(updatedTask?.status).toBe(TaskStatus.COMPLETED);
     });
 
+    it('should keep the status of a task that finished before its progress was written', async () => {
+      await storageAdapter.saveTask({
+        id: 'progress-task-2',
+        queueName: 'processing-queue-progress',
+        data: {},
+        status: TaskStatus.COMPLETED,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        attempts: 1,
+        maxAttempts: 3,
+      });
+
+      await consumerService.updateTaskProgress('progress-task-2', { percentage: 100 });
+
+      const task = await storageAdapter.getTask('progress-task-2');
+      expect(task?.status).toBe(TaskStatus.COMPLETED);
+      expect(task?.progress?.percentage).toBe(100);
+    });
+
     it('should throw error for non-existent task progress update', async () => {
       await expect(
         consumerService.updateTaskProgress('non-existent', { percentage: 50 })
@@ -550,5 +1112,248 @@ describe('ConsumerService', () => {
       const completedTask = await storageAdapter.getTask('chain-1-0');
       expect(completedTask?.status).toBe(TaskStatus.COMPLETED);
     });
+
+    const saveWaitingChain = async () => {
+      await storageAdapter.saveTask({
+        id: 'chain-2-0',
+        queueName: 'chain-queue',
+        data: { step: 0 },
+        status: TaskStatus.IDLE,
+        attempts: 0,
+        maxAttempts: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        chain: { id: 'chain-2', index: 0, total: 2 },
+      });
+      await storageAdapter.saveTask({
+        id: 'chain-2-1',
+        queueName: 'default',
+        data: { step: 1 },
+        status: TaskStatus.WAITING,
+        attempts: 0,
+        maxAttempts: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        chain: { id: 'chain-2', index: 1, total: 2 },
+      });
+    };
+
+    const processFirstStep = () => consumerService.processTask({
+      taskId: 'chain-2-0',
+      queueName: 'chain-queue',
+      data: { step: 0 },
+      attempts: 0,
+      maxAttempts: 3,
+      chain: { id: 'chain-2', index: 0, total: 2 },
+    });
+
+    it('should throw when the next step could not be dispatched', async () => {
+      consumerService.registerProcessor(new ChainProcessor());
+      consumerService.setTransport({
+        initialize: jest.fn(),
+        dispatch: jest.fn().mockRejectedValue(new Error('Transport unavailable')),
+        close: jest.fn(),
+      });
+      await saveWaitingChain();
+
+      await expect(processFirstStep()).rejects.toThrow('Transport unavailable');
+
+      expect((await storageAdapter.getTask('chain-2-0'))?.status).toBe(TaskStatus.COMPLETED);
+    });
+
+    it('should leave a next step that could not be dispatched to the outbox relay', async () => {
+      config.outbox = { enabled: true };
+      consumerService.registerProcessor(new ChainProcessor());
+      const dispatch = jest.fn().mockRejectedValueOnce(new Error('Transport unavailable'));
+      consumerService.setTransport({ initialize: jest.fn(), dispatch, close: jest.fn() });
+      await saveWaitingChain();
+
+      await processFirstStep();
+
+      const nextStep = await storageAdapter.getTask('chain-2-1');
+      expect(nextStep?.status).toBe(TaskStatus.IDLE);
+      expect(nextStep?.pendingDispatchAt).toBeInstanceOf(Date);
+    });
+
+    it('should clear the outbox marker of a next step once it is dispatched', async () => {
+      config.outbox = { enabled: true };
+      consumerService.registerProcessor(new ChainProcessor());
+      consumerService.setTransport({
+        initialize: jest.fn(),
+        dispatch: jest.fn().mockResolvedValue('cloud-task-name'),
+        close: jest.fn(),
+      });
+      await saveWaitingChain();
+
+      await processFirstStep();
+
+      const nextStep = await storageAdapter.getTask('chain-2-1');
+      expect(nextStep?.status).toBe(TaskStatus.IDLE);
+      expect(nextStep?.pendingDispatchAt).toBeUndefined();
+      expect(nextStep?.cloudTaskName).toBe('cloud-task-name');
+    });
+  });
+
+  describe('batch processing', () => {
+    @Processor('batch-queue')
+    class BatchMemberProcessor {
+      @Process({ name: 'member' })
+      async member(task: CloudTask) {
+        return task.data.value;
+      }
+    }
+
+    it('should throw when the batch could not be completed after its last member', async () => {
+      consumerService.registerProcessor(new BatchMemberProcessor());
+      await storageAdapter.createBatch('batch-1', 1);
+      await storageAdapter.saveTask({
+        id: 'member-1',
+        queueName: 'batch-queue',
+        data: { value: 1 },
+        status: TaskStatus.IDLE,
+        attempts: 0,
+        maxAttempts: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        batch: { id: 'batch-1', total: 1 },
+      });
+      jest.spyOn(storageAdapter, 'getTasks').mockRejectedValueOnce(new Error('Storage unavailable'));
+
+      await expect(consumerService.processTask({
+        taskId: 'member-1',
+        queueName: 'batch-queue',
+        data: { value: 1 },
+        attempts: 0,
+        maxAttempts: 3,
+      })).rejects.toThrow('Storage unavailable');
+
+      expect((await storageAdapter.getTask('member-1'))?.status).toBe(TaskStatus.COMPLETED);
+    });
+  });
+
+  describe('retry policy', () => {
+    const dispatch = jest.fn();
+
+    @Processor('retry-queue')
+    class RetryProcessor {
+      @Process({ name: 'retry-task' })
+      async processRetry() {
+        throw new Error('Retry me');
+      }
+    }
+
+    beforeEach(() => {
+      dispatch.mockReset().mockResolvedValue(undefined);
+      config.queues.push({
+        name: 'retry-queue',
+        path: 'projects/test-project/locations/us-central1/queues/retry-queue',
+        retryPolicy: { type: 'fixed', delay: 30 },
+      });
+      consumerService.setTransport({
+        initialize: jest.fn(),
+        dispatch,
+        close: jest.fn(),
+      });
+      consumerService.registerProcessor(new RetryProcessor());
+    });
+
+    const saveRetryTask = async (id: string, options?: any, attempts = 0) => {
+      await storageAdapter.saveTask({
+        id,
+        queueName: 'retry-queue',
+        data: {},
+        status: TaskStatus.IDLE,
+        attempts,
+        maxAttempts: 3,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        options,
+      });
+    };
+
+    it('should schedule the next attempt and re-enqueue the task', async () => {
+      const retryEvents: any[] = [];
+      consumerService.on('taskRetrying', (event) => retryEvents.push(event));
+      await saveRetryTask('retry-task-1');
+
+      const before = Date.now();
+      await expect(
+        consumerService.processTask({
+          taskId: 'retry-task-1',
+          queueName: 'retry-queue',
+          data: {},
+          attempts: 0,
+          maxAttempts: 3,
+        })
+      ).resolves.toBeUndefined();
+
+      const updatedTask = await storageAdapter.getTask('retry-task-1');
+      expect(updatedTask?.status).toBe(TaskStatus.DELAYED);
+      expect(updatedTask?.attempts).toBe(1);
+      expect(updatedTask?.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 30000);
+      expect(updatedTask?.scheduledFor).toEqual(updatedTask?.nextAttemptAt);
+
+      expect(dispatch).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'retry-queue' }),
+        expect.objectContaining({ id: 'retry-task-1', attempts: 1, scheduledFor: updatedTask?.nextAttemptAt }),
+      );
+      expect(retryEvents).toHaveLength(1);
+      expect(retryEvents[0].error.message).toBe('Retry me');
+    });
+
+    it('should prefer the task retry policy over the queue policy', async () => {
+      await saveRetryTask('retry-task-2', { retryPolicy: { type: 'fixed', delay: 120 } });
+
+      const before = Date.now();
+      await consumerService.processTask({
+        taskId: 'retry-task-2',
+        queueName: 'retry-queue',
+        data: {},
+        attempts: 0,
+        maxAttempts: 3,
+      });
+
+      const updatedTask = await storageAdapter.getTask('retry-task-2');
+      expect(updatedTask?.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 120000);
+    });
+
+    it('should fall back to rethrowing when re-enqueueing fails', async () => {
+      dispatch.mockRejectedValueOnce(new Error('Queue unavailable'));
+      const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      await saveRetryTask('retry-task-3');
+
+      await expect(
+        consumerService.processTask({
+          taskId: 'retry-task-3',
+          queueName: 'retry-queue',
+          data: {},
+          attempts: 0,
+          maxAttempts: 3,
+        })
+      ).rejects.toThrow('Retry me');
+
+      const updatedTask = await storageAdapter.getTask('retry-task-3');
+      expect(updatedTask?.status).toBe(TaskStatus.IDLE);
+      expect(updatedTask?.attempts).toBe(1);
+      warnSpy.mockRestore();
+    });
+
+    it('should not retry on the final attempt', async () => {
+      await saveRetryTask('retry-task-4', undefined, 2);
+
+      await expect(
+        consumerService.processTask({
+          taskId: 'retry-task-4',
+          queueName: 'retry-queue',
+          data: {},
+          attempts: 2,
+          maxAttempts: 3,
+        })
+      ).rejects.toThrow('Retry me');
+
+      const updatedTask = await storageAdapter.getTask('retry-task-4');
+      expect(updatedTask?.status).toBe(TaskStatus.FAILED);
+      expect(dispatch).not.toHaveBeenCalled();
+    });
   });
 });
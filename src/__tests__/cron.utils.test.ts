@@ -0,0 +1,48 @@
+import { getNextCronDate, isValidTimezone, parseCronExpression } from '../utils/cron.utils';
+
+describe('getNextCronDate', () => {
+  const from = new Date('2026-03-07T10:30:00Z'); // Saturday
+
+  it('should find the next match of steps, ranges and names', () => {
+    expect(getNextCronDate('*/15 * * * *', from)).toEqual(new Date('2026-03-07T10:45:00Z'));
+    expect(getNextCronDate('0 9 * * MON-FRI', from)).toEqual(new Date('2026-03-09T09:00:00Z'));
+    expect(getNextCronDate('0 0 1 jan,jul *', from)).toEqual(new Date('2026-07-01T00:00:00Z'));
+    expect(getNextCronDate('@monthly', from)).toEqual(new Date('2026-04-01T00:00:00Z'));
+  });
+
+  it('should match either day field when both are restricted', () => {
+    expect(getNextCronDate('0 0 13 * 5', from)).toEqual(new Date('2026-03-13T00:00:00Z'));
+    expect(getNextCronDate('0 0 20 * 0', from)).toEqual(new Date('2026-03-08T00:00:00Z'));
+  });
+
+  it('should evaluate the expression in the given timezone', () => {
+    expect(getNextCronDate('0 9 * * *', from, 'America/New_York')).toEqual(new Date('2026-03-07T14:00:00Z'));
+    // Clocks go forward on 8 March, so 02:30 doesn't exist and runs after the gap
+    expect(getNextCronDate('30 2 * * *', new Date('2026-03-08T00:00:00Z'), 'America/New_York'))
+      .toEqual(new Date('2026-03-08T07:30:00Z'));
+  });
+
+  it('should return null for expressions that never match', () => {
+    expect(getNextCronDate('0 0 30 2 *', from)).toBeNull();
+  });
+});
+
+describe('parseCronExpression', () => {
+  it('should treat 7 as Sunday', () => {
+    expect(parseCronExpression('0 0 * * 7').daysOfWeek).toEqual(new Set([0]));
+  });
+
+  it.each(['* * * *', '60 * * * *', '* * 0 * *', '*/0 * * * *', '5-1 * * * *', '* * * FOO *'])(
+    'should reject %s',
+    expression => {
+      expect(() => parseCronExpression(expression)).toThrow('Invalid cron expression');
+    },
+  );
+});
+
+describe('isValidTimezone', () => {
+  it('should accept IANA timezones only', () => {
+    expect(isValidTimezone('Europe/Paris')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus')).toBe(false);
+  });
+});
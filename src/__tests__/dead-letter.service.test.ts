@@ -0,0 +1,136 @@
+import { CloudTaskMQ } from '../cloud-taskmq';
+import { TaskStatus } from '../interfaces/storage-adapter.interface';
+import { Processor } from '../decorators/processor.decorator';
+import { Process } from '../decorators/process.decorator';
+import { CloudTask } from '../models/cloud-task.model';
+
+describe('Dead-letter queues', () => {
+  let taskMQ: CloudTaskMQ;
+  let shouldFail: boolean;
+
+  @Processor('dlq-source')
+  class FlakyProcessor {
+    @Process({ name: 'flaky' })
+    async flaky(task: CloudTask) {
+      if (shouldFail) {
+        throw new Error(`Failure on attempt ${task.attempts + 1}`);
+      }
+      return { ok: true };
+    }
+  }
+
+  const failTask = async (maxAttempts = 2): Promise<string> => {
+    const { taskId } = await taskMQ.addTask('dlq-source', { value: 1 }, { taskName: 'flaky', maxAttempts });
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      await taskMQ
+        .processTask({ taskId, queueName: 'dlq-source', data: { value: 1 }, attempts: attempt, maxAttempts })
+        .catch(() => undefined);
+    }
+    return taskId;
+  };
+
+  beforeEach(async () => {
+    shouldFail = true;
+    taskMQ = new CloudTaskMQ({
+      projectId: 'test-project',
+      location: 'us-central1',
+      storageAdapter: 'memory',
+      transport: 'local',
+      transportOptions: { local: { pollInterval: 60000 } },
+      queues: [{
+        name: 'dlq-source',
+        path: 'projects/test-project/locations/us-central1/queues/dlq-source',
+        deadLetterQueue: 'dlq-source-dead',
+      }],
+    });
+    await taskMQ.initialize();
+    taskMQ.registerProcessor(new FlakyProcessor());
+  });
+
+  afterEach(async () => {
+    await taskMQ.close();
+  });
+
+  it('should copy tasks that exhaust their attempts into the dead-letter queue', async () => {
+    const events: any[] = [];
+    taskMQ.on('taskDeadLettered', (event) => events.push(event));
+
+    const taskId = await failTask();
+
+    const entry = await taskMQ.getDeadLetter(taskId);
+    expect(entry).toBeTruthy();
+    expect(entry?.deadLetterQueue).toBe('dlq-source-dead');
+    expect(entry?.originalQueue).toBe('dlq-source');
+    expect(entry?.attempts).toBe(2);
+    expect(entry?.task.data).toEqual({ value: 1 });
+    expect(entry?.errorHistory.map(error => error.message)).toEqual([
+      'Failure on attempt 1',
+      'Failure on attempt 2',
+    ]);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toEqual(expect.objectContaining({ taskId, deadLetterQueue: 'dlq-source-dead' }));
+  });
+
+  it('should not dead-letter tasks that still have attempts left', async () => {
+    const { taskId } = await taskMQ.addTask('dlq-source', {}, { taskName: 'flaky', maxAttempts: 3 });
+    await taskMQ
+      .processTask({ taskId, queueName: 'dlq-source', data: {}, attempts: 0, maxAttempts: 3 })
+      .catch(() => undefined);
+
+    expect(await taskMQ.getDeadLetter(taskId)).toBeNull();
+  });
+
+  it('should list entries by dead-letter queue', async () => {
+    await failTask();
+    await failTask();
+
+    expect(await taskMQ.getDeadLetters({ deadLetterQueue: 'dlq-source-dead' })).toHaveLength(2);
+    expect(await taskMQ.getDeadLetters({ deadLetterQueue: 'other' })).toHaveLength(0);
+  });
+
+  it('should replay an entry on the original queue', async () => {
+    const taskId = await failTask();
+    shouldFail = false;
+
+    const result = await taskMQ.replayDeadLetter(taskId);
+
+    expect(result.success).toBe(true);
+    expect(result.taskId).not.toBe(taskId);
+    expect(await taskMQ.getDeadLetter(taskId)).toBeNull();
+
+    const replayed = await taskMQ.getTask(result.taskId);
+    expect(replayed?.status).toBe(TaskStatus.IDLE);
+    expect(replayed?.queueName).toBe('dlq-source');
+    expect(replayed?.data).toEqual({ value: 1 });
+    expect(replayed?.maxAttempts).toBe(2);
+  });
+
+  it('should report missing entries when replaying', async () => {
+    const result = await taskMQ.replayDeadLetter('missing');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('not found');
+  });
+
+  it('should replay entries in bulk', async () => {
+    await failTask();
+    await failTask();
+
+    const results = await taskMQ.replayDeadLetters({ deadLetterQueue: 'dlq-source-dead' });
+
+    expect(results).toHaveLength(2);
+    expect(results.every(result => result.success)).toBe(true);
+    expect(await taskMQ.getDeadLetters()).toHaveLength(0);
+  });
+
+  it('should purge entries', async () => {
+    await failTask();
+    await failTask();
+
+    const purged = await taskMQ.purgeDeadLetters({ deadLetterQueue: 'dlq-source-dead' });
+
+    expect(purged).toBe(2);
+    expect(await taskMQ.getDeadLetters()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,113 @@
+import { DelayedTaskService } from '../services/delayed-task.service';
+import { ProducerService } from '../services/producer.service';
+import { MemoryStorageAdapter } from '../adapters/memory-storage.adapter';
+import { CloudTaskMQConfig } from '../interfaces/config.interface';
+import { TaskStatus } from '../interfaces/storage-adapter.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+
+describe('DelayedTaskService', () => {
+  const maxScheduleDelayMs = 60 * 60 * 1000;
+  let storageAdapter: MemoryStorageAdapter;
+  let transport: jest.Mocked<ITaskTransport>;
+  let config: CloudTaskMQConfig;
+  let producerService: ProducerService;
+  let service: DelayedTaskService;
+
+  const addParkedTask = async (dueInMs: number) => {
+    const result = await producerService.addTask('delayed-queue', {}, { runAt: new Date(Date.now() + 2 * maxScheduleDelayMs) });
+    // Move the task closer, as if time passed
+    await storageAdapter.updateTask(result.taskId, { scheduledFor: new Date(Date.now() + dueInMs) });
+    return result.taskId;
+  };
+
+  beforeEach(async () => {
+    config = {
+      projectId: 'test-project',
+      location: 'us-central1',
+      storageAdapter: 'memory',
+      queues: [{
+        name: 'delayed-queue',
+        path: 'projects/test-project/locations/us-central1/queues/delayed-queue',
+      }],
+    };
+
+    storageAdapter = new MemoryStorageAdapter();
+    await storageAdapter.initialize();
+
+    transport = {
+      maxScheduleDelayMs,
+      initialize: jest.fn(),
+      dispatch: jest.fn().mockResolvedValue('cloud-task-name'),
+      close: jest.fn(),
+    };
+    producerService = new ProducerService(config, storageAdapter, transport);
+    service = new DelayedTaskService(config, storageAdapter, producerService);
+  });
+
+  afterEach(async () => {
+    service.stop();
+    await storageAdapter.close();
+  });
+
+  it('should park tasks due beyond the transport window', async () => {
+    const taskId = await addParkedTask(2 * maxScheduleDelayMs);
+
+    const task = await storageAdapter.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.DELAYED);
+    expect(task?.parkedAt).toBeInstanceOf(Date);
+    expect(transport.dispatch).not.toHaveBeenCalled();
+  });
+
+  it('should dispatch parked tasks once they come within the window', async () => {
+    const taskId = await addParkedTask(maxScheduleDelayMs / 2);
+
+    const promoted = await service.promoteParkedTasks();
+
+    expect(promoted.map(task => task.id)).toEqual([taskId]);
+    const task = await storageAdapter.getTask(taskId);
+    expect(task?.parkedAt).toBeUndefined();
+    expect(task?.cloudTaskName).toBe('cloud-task-name');
+    expect(transport.dispatch).toHaveBeenCalledWith(config.queues[0], expect.objectContaining({ id: taskId }));
+  });
+
+  it('should leave tasks that are still out of reach parked', async () => {
+    await addParkedTask(2 * maxScheduleDelayMs);
+
+    expect(await service.promoteParkedTasks()).toEqual([]);
+    expect(transport.dispatch).not.toHaveBeenCalled();
+  });
+
+  it('should hand each parked task over once across instances', async () => {
+    const otherInstance = new DelayedTaskService(config, storageAdapter, producerService);
+    await addParkedTask(maxScheduleDelayMs / 2);
+
+    const promoted = await Promise.all([service.promoteParkedTasks(), otherInstance.promoteParkedTasks()]);
+
+    expect(promoted.flat()).toHaveLength(1);
+    expect(transport.dispatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should release the hand-over lease of promoted tasks', async () => {
+    const taskId = await addParkedTask(maxScheduleDelayMs / 2);
+
+    await service.promoteParkedTasks();
+
+    expect(await storageAdapter.acquireConcurrencyLease(`promote:${taskId}`, 'other-instance', 1, 1000)).toBe(true);
+  });
+
+  it('should not promote a task that another instance already handed over', async () => {
+    const taskId = await addParkedTask(maxScheduleDelayMs / 2);
+    const otherInstance = new DelayedTaskService(config, storageAdapter, producerService);
+    await otherInstance.promoteParkedTasks();
+
+    // A check that read the task before the hand-over still finds it parked
+    const getTasks = storageAdapter.getTasks.bind(storageAdapter);
+    jest.spyOn(storageAdapter, 'getTasks').mockImplementationOnce(async () => [{
+      ...(await storageAdapter.getTask(taskId))!,
+      parkedAt: new Date(),
+    }]).mockImplementation(getTasks);
+
+    expect(await service.promoteParkedTasks()).toEqual([]);
+    expect(transport.dispatch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,124 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IStateStorageAdapter } from '../../interfaces/storage-adapter.interface';
+
+/**
+ * Conformance tests of the rate limit algorithms, run against every storage adapter.
+ * Time is moved by mocking Date.now, so the windows start on a round time.
+ * @param getAdapter Returns the initialized adapter under test
+ */
+export function describeRateLimitConformance(getAdapter: () => IStateStorageAdapter): void {
+  describe('rate limit algorithms', () => {
+    const start = 1_800_000_000_000;
+    let now: number;
+    let key: string;
+
+    const increment = (windowMs: number, maxRequests: number, options?: any) =>
+      getAdapter().incrementRateLimit(key, windowMs, maxRequests, options);
+
+    const countAllowed = async (attempts: number, windowMs: number, maxRequests: number, options?: any) => {
+      let allowed = 0;
+      for (let i = 0; i < attempts; i++) {
+        if ((await increment(windowMs, maxRequests, options)).allowed) {
+          allowed++;
+        }
+      }
+      return allowed;
+    };
+
+    beforeEach(() => {
+      now = start;
+      key = `conformance-${uuidv4()}`;
+      jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should count fixed windows from their first request', async () => {
+      now = start + 500;
+      expect(await countAllowed(4, 1000, 3)).toBe(3);
+
+      const denied = await increment(1000, 3);
+      expect(denied).toMatchObject({ allowed: false, count: 3 });
+      expect(denied.resetTime.getTime()).toBe(start + 1500);
+
+      now = start + 1500;
+      expect(await increment(1000, 3)).toMatchObject({ allowed: true, count: 1 });
+    });
+
+    it('should allow at most maxRequests within any window of the sliding log', async () => {
+      expect(await countAllowed(2, 1000, 3, { algorithm: 'sliding-log' })).toBe(2);
+      now = start + 500;
+      expect(await countAllowed(2, 1000, 3, { algorithm: 'sliding-log' })).toBe(1);
+
+      const denied = await increment(1000, 3, { algorithm: 'sliding-log' });
+      expect(denied).toMatchObject({ allowed: false, count: 3 });
+      expect(denied.resetTime.getTime()).toBe(start + 1000);
+
+      // The two first requests leave the window, the third one is still in it
+      now = start + 1000;
+      expect(await countAllowed(3, 1000, 3, { algorithm: 'sliding-log' })).toBe(2);
+    });
+
+    it('should weigh the previous window by its overlap in the sliding window', async () => {
+      expect(await countAllowed(11, 1000, 10, { algorithm: 'sliding-window' })).toBe(10);
+
+      // The previous window still counts in full at the start of the next one
+      now = start + 1000;
+      const denied = await increment(1000, 10, { algorithm: 'sliding-window' });
+      expect(denied).toMatchObject({ allowed: false, count: 10 });
+      expect(denied.resetTime.getTime()).toBe(start + 1100);
+
+      // Half of it counts halfway through
+      now = start + 1500;
+      expect(await countAllowed(6, 1000, 10, { algorithm: 'sliding-window' })).toBe(5);
+    });
+
+    it('should allow bursts up to the bucket size and refill the token bucket', async () => {
+      const options = { algorithm: 'token-bucket', burst: 5 };
+      expect(await countAllowed(6, 1000, 2, options)).toBe(5);
+
+      // Two tokens a second, so the next one comes after half a second
+      const denied = await increment(1000, 2, options);
+      expect(denied).toMatchObject({ allowed: false, count: 5 });
+      expect(denied.resetTime.getTime()).toBe(start + 500);
+
+      now = start + 500;
+      expect(await countAllowed(2, 1000, 2, options)).toBe(1);
+
+      // The bucket never holds more than its size
+      now = start + 60000;
+      expect(await countAllowed(6, 1000, 2, options)).toBe(5);
+    });
+
+    it('should default the bucket size to maxRequests', async () => {
+      expect(await countAllowed(4, 1000, 3, { algorithm: 'token-bucket' })).toBe(3);
+    });
+
+    it('should give back the last request counted with every algorithm', async () => {
+      for (const algorithm of ['fixed-window', 'sliding-log', 'sliding-window', 'token-bucket']) {
+        key = `conformance-${uuidv4()}`;
+        expect(await countAllowed(3, 1000, 2, { algorithm })).toBe(2);
+
+        await getAdapter().refundRateLimit(key);
+        expect(await countAllowed(2, 1000, 2, { algorithm })).toBe(1);
+      }
+    });
+
+    it('should start over when the algorithm of a key changes', async () => {
+      expect(await countAllowed(3, 1000, 2)).toBe(2);
+      expect(await countAllowed(3, 1000, 2, { algorithm: 'sliding-log' })).toBe(2);
+    });
+
+    it('should not let concurrent requests exceed the limit', async () => {
+      for (const algorithm of ['fixed-window', 'sliding-log', 'sliding-window', 'token-bucket']) {
+        key = `conformance-${uuidv4()}`;
+        const results = await Promise.all(
+          Array.from({ length: 10 }, () => increment(1000, 4, { algorithm })),
+        );
+        expect(results.filter(result => result.allowed)).toHaveLength(4);
+      }
+    });
+  });
+}
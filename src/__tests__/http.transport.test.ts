@@ -0,0 +1,153 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { CloudTaskMQ } from '../cloud-taskmq';
+import { TaskController } from '../controllers/task.controller';
+import { HttpTransport } from '../transports/http.transport';
+import { TaskStatus } from '../interfaces/storage-adapter.interface';
+import { Processor } from '../decorators/processor.decorator';
+import { Process } from '../decorators/process.decorator';
+import { CloudTask } from '../models/cloud-task.model';
+
+describe('HttpTransport', () => {
+  let server: Server;
+  let taskMQ: CloudTaskMQ;
+  let transport: HttpTransport;
+  let requests: Array<{ headers: Record<string, any>; body: any }>;
+  let failuresLeft: number;
+
+  @Processor('http-queue')
+  class HttpProcessor {
+    @Process({ name: 'work' })
+    async work(task: CloudTask) {
+      if (failuresLeft > 0) {
+        failuresLeft--;
+        throw new Error('Temporary failure');
+      }
+      return { echoed: task.data.value };
+    }
+  }
+
+  beforeEach(async () => {
+    requests = [];
+    failuresLeft = 0;
+
+    const app = express();
+    app.use(express.json());
+    server = await new Promise<Server>(resolve => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    const { port } = server.address() as AddressInfo;
+
+    taskMQ = new CloudTaskMQ({
+      projectId: 'test-project',
+      location: 'us-central1',
+      storageAdapter: 'memory',
+      transport: 'http',
+      transportOptions: {
+        http: {
+          minBackoffMs: 10,
+          maxBackoffMs: 50,
+          dispatchDeadlineMs: 2000,
+          headers: { Authorization: 'Bearer test-token' },
+        },
+      },
+      defaultProcessorUrl: `http://127.0.0.1:${port}/tasks/process`,
+      queues: [{
+        name: 'http-queue',
+        path: 'projects/test-project/locations/us-central1/queues/http-queue',
+      }],
+    });
+    await taskMQ.initialize();
+    taskMQ.registerProcessor(new HttpProcessor());
+    transport = taskMQ.getTransport() as HttpTransport;
+
+    const controller = new TaskController(taskMQ);
+    app.post('/tasks/process', (req, res) => {
+      requests.push({ headers: req.headers, body: req.body });
+      return controller.processTask(req, res);
+    });
+  });
+
+  afterEach(async () => {
+    await taskMQ.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should be created from configuration', () => {
+    expect(transport).toBeInstanceOf(HttpTransport);
+  });
+
+  it('should POST the task payload with Cloud Tasks headers', async () => {
+    const { taskId } = await taskMQ.addTask('http-queue', { value: 42 }, { taskName: 'work' });
+
+    await transport.drain();
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].body).toEqual(expect.objectContaining({
+      taskId,
+      queueName: 'http-queue',
+      data: { value: 42 },
+    }));
+    expect(requests[0].headers['x-cloudtasks-taskname']).toBe(taskId);
+    expect(requests[0].headers['x-cloudtasks-queuename']).toBe('http-queue');
+    expect(requests[0].headers['x-cloudtasks-taskretrycount']).toBe('0');
+    expect(requests[0].headers['user-agent']).toBe('Google-Cloud-Tasks');
+    expect(requests[0].headers.authorization).toBe('Bearer test-token');
+
+    const task = await taskMQ.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.COMPLETED);
+    expect(task?.result).toEqual({ echoed: 42 });
+  });
+
+  it('should retry non-2xx responses with backoff', async () => {
+    failuresLeft = 2;
+    const { taskId } = await taskMQ.addTask('http-queue', { value: 1 }, { taskName: 'work' });
+
+    await transport.drain();
+
+    expect(requests).toHaveLength(3);
+    expect(requests.map(r => r.headers['x-cloudtasks-taskretrycount'])).toEqual(['0', '1', '2']);
+    expect(requests.map(r => r.headers['x-cloudtasks-taskexecutioncount'])).toEqual(['0', '1', '2']);
+
+    const task = await taskMQ.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('should stop retrying after maxAttempts', async () => {
+    failuresLeft = 10;
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const { taskId } = await taskMQ.addTask(
+      'http-queue',
+      { value: 1 },
+      { taskName: 'work', maxAttempts: 2 },
+    );
+
+    await transport.drain();
+
+    expect(requests).toHaveLength(2);
+    const task = await taskMQ.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.FAILED);
+    warnSpy.mockRestore();
+  });
+
+  it('should give up on responses still trickling in after the dispatch deadline', async () => {
+    const { port } = server.address() as AddressInfo;
+    let trickle: NodeJS.Timeout | undefined;
+    server.removeAllListeners('request');
+    server.on('request', (_req, res) => {
+      res.writeHead(200);
+      // Bytes keep arriving, so the socket is never idle
+      trickle = setInterval(() => res.write('.'), 20);
+    });
+
+    const deadlineTransport = new HttpTransport(taskMQ.getConfig(), { dispatchDeadlineMs: 200 });
+    const started = Date.now();
+
+    await expect(
+      (deadlineTransport as any).post(`http://127.0.0.1:${port}/slow`, {}, '{}')
+    ).rejects.toThrow('Dispatch deadline exceeded');
+    expect(Date.now() - started).toBeLessThan(1000);
+    clearInterval(trickle);
+  });
+});
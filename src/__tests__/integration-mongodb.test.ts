@@ -6,6 +6,7 @@ import { Processor } from '../decorators/processor.decorator';
 import { Process } from '../decorators/process.decorator';
 import { OnTaskCompleted, OnTaskFailed } from '../decorators/events.decorator';
 import { DockerTestHelper } from './helpers/docker-setup';
+import { describeRateLimitConformance } from './helpers/rate-limit-conformance';
 
 // Mock Google Cloud Tasks
 jest.mock('@google-cloud/tasks', () => ({
@@ -271,6 +272,16 @@ describe('MongoDB Integration Tests', () => {
       expect(successful.length).toBeLessThanOrEqual(10); // Rate limit is 10
       expect(rateLimited.length).toBeGreaterThan(0);
     });
+
+    it('should drop the resetTime TTL index of earlier versions', async () => {
+      const adapter = (cloudTaskMQ as any).storageAdapter as MongoStorageAdapter;
+      const collection = adapter['RateLimitModel'].collection;
+      await collection.createIndex({ resetTime: 1 }, { expireAfterSeconds: 0 });
+
+      await adapter['dropLegacyRateLimitIndex']();
+
+      expect(await collection.indexExists('resetTime_1')).toBe(false);
+    });
   });
 
   describe('Event System with MongoDB', () => {
@@ -368,5 +379,32 @@ describe('MongoDB Integration Tests', () => {
       const count = await cloudTaskMQ.getTaskCount({ queueName: 'integration-queue' });
       expect(count).toBeGreaterThan(0);
     });
+
+    it('should aggregate completed durations on the server', async () => {
+      const adapter = cloudTaskMQ['storageAdapter'] as MongoStorageAdapter;
+      const now = Date.now();
+      for (let i = 1; i <= 20; i++) {
+        await adapter.saveTask({
+          id: `stats-${i}`,
+          queueName: 'integration-queue',
+          data: {},
+          status: TaskStatus.COMPLETED,
+          attempts: 1,
+          maxAttempts: 3,
+          createdAt: new Date(now - 60000),
+          updatedAt: new Date(now),
+          activeAt: new Date(now - i * 100),
+          completedAt: new Date(now),
+        });
+      }
+
+      const stats = await adapter.getQueueStats('integration-queue');
+
+      expect(stats.averageDuration).toBe(1050);
+      expect(stats.p95Duration).toBe(1900);
+      expect(stats.completedPerMinute).toBeCloseTo(20 / 15);
+    });
   });
+
+  describeRateLimitConformance(() => cloudTaskMQ['storageAdapter'] as MongoStorageAdapter);
 });
@@ -6,6 +6,7 @@ import { Processor } from '../decorators/processor.decorator';
 import { Process } from '../decorators/process.decorator';
 import { OnTaskCompleted, OnTaskFailed } from '../decorators/events.decorator';
 import { DockerTestHelper } from './helpers/docker-setup';
+import { describeRateLimitConformance } from './helpers/rate-limit-conformance';
 
 // Mock Google Cloud Tasks
 jest.mock('@google-cloud/tasks', () => ({
@@ -502,4 +503,6 @@ describe('Redis Integration Tests', () => {
       expect(count).toBe(3);
     });
   });
+
+  describeRateLimitConformance(() => cloudTaskMQ['storageAdapter'] as RedisStorageAdapter);
 });
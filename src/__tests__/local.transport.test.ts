@@ -0,0 +1,456 @@
+import { CloudTaskMQ } from '../cloud-taskmq';
+import { LocalTransport } from '../transports/local.transport';
+import { CloudTaskMQConfig } from '../interfaces/config.interface';
+import { TaskStatus } from '../interfaces/storage-adapter.interface';
+import { Processor } from '../decorators/processor.decorator';
+import { Process } from '../decorators/process.decorator';
+import { CloudTask } from '../models/cloud-task.model';
+
+describe('LocalTransport', () => {
+  let taskMQ: CloudTaskMQ;
+  let transport: LocalTransport;
+  let processed: any[];
+  let running: number;
+  let maxRunning: number;
+
+  @Processor('local-queue', { concurrency: 2 })
+  class LocalProcessor {
+    @Process({ name: 'work' })
+    async work(task: CloudTask) {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running--;
+
+      if (task.data.fail && task.attempts < task.data.fail) {
+        throw new Error('Temporary failure');
+      }
+
+      processed.push(task.data);
+      return { done: task.data.index };
+    }
+  }
+
+  beforeEach(async () => {
+    processed = [];
+    running = 0;
+    maxRunning = 0;
+
+    const config: CloudTaskMQConfig = {
+      projectId: 'test-project',
+      location: 'us-central1',
+      storageAdapter: 'memory',
+      transport: 'local',
+      transportOptions: {
+        local: { pollInterval: 60000 },
+      },
+      queues: [{
+        name: 'local-queue',
+        path: 'projects/test-project/locations/us-central1/queues/local-queue',
+      }, {
+        name: 'local-children',
+        path: 'projects/test-project/locations/us-central1/queues/local-children',
+      }],
+    };
+
+    taskMQ = new CloudTaskMQ(config);
+    await taskMQ.initialize();
+    taskMQ.registerProcessor(new LocalProcessor());
+    transport = taskMQ.getTransport() as LocalTransport;
+  });
+
+  afterEach(async () => {
+    await taskMQ.close();
+  });
+
+  it('should be created from configuration', () => {
+    expect(transport).toBeInstanceOf(LocalTransport);
+  });
+
+  it('should process idle tasks in-process', async () => {
+    const { taskId } = await taskMQ.addTask('local-queue', { index: 1 }, { taskName: 'work' });
+
+    await transport.drain();
+
+    const task = await taskMQ.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.COMPLETED);
+    expect(task?.result).toEqual({ done: 1 });
+  });
+
+  it('should honor processor concurrency', async () => {
+    for (let i = 0; i < 5; i++) {
+      await taskMQ.addTask('local-queue', { index: i }, { taskName: 'work' });
+    }
+
+    await transport.drain();
+
+    expect(processed).toHaveLength(5);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should run higher priority tasks first', async () => {
+    await taskMQ.addTask('local-queue', { index: 1 }, { taskName: 'work' });
+    await taskMQ.addTask('local-queue', { index: 2 }, { taskName: 'work', priority: 10 });
+    await taskMQ.addTask('local-queue', { index: 3 }, { taskName: 'work', priority: -5 });
+    await taskMQ.addTask('local-queue', { index: 4 }, { taskName: 'work', priority: 10 });
+
+    await transport.drain();
+
+    expect(processed.map(data => data.index)).toEqual([2, 4, 1, 3]);
+  });
+
+  it('should not run delayed tasks before they are due', async () => {
+    const { taskId } = await taskMQ.addTask('local-queue', { index: 1 }, { delay: 60 });
+
+    await transport.drain();
+
+    const task = await taskMQ.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.DELAYED);
+    expect(processed).toHaveLength(0);
+  });
+
+  it('should run due tasks behind more than a batch of higher priority future tasks', async () => {
+    await taskMQ.close();
+    taskMQ = new CloudTaskMQ({
+      projectId: 'test-project',
+      location: 'us-central1',
+      storageAdapter: 'memory',
+      transport: 'local',
+      transportOptions: {
+        local: { pollInterval: 60000, batchSize: 3 },
+      },
+      queues: [{
+        name: 'local-queue',
+        path: 'projects/test-project/locations/us-central1/queues/local-queue',
+      }],
+    });
+    await taskMQ.initialize();
+    taskMQ.registerProcessor(new LocalProcessor());
+    transport = taskMQ.getTransport() as LocalTransport;
+
+    for (let i = 0; i < 5; i++) {
+      await taskMQ.addTask('local-queue', { index: i }, { taskName: 'work', priority: 10, delay: 60 });
+    }
+    const { taskId } = await taskMQ.addTask('local-queue', { index: 5 }, { taskName: 'work' });
+
+    await transport.drain();
+
+    const task = await taskMQ.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.COMPLETED);
+    expect(processed.map(data => data.index)).toEqual([5]);
+  });
+
+  it('should not run tasks of paused queues until resumed', async () => {
+    await taskMQ.pauseQueue('local-queue');
+    const { taskId } = await taskMQ.addTask('local-queue', { index: 1 }, { taskName: 'work' });
+
+    await transport.drain();
+    expect((await taskMQ.getTask(taskId))?.status).toBe(TaskStatus.IDLE);
+
+    await taskMQ.resumeQueue('local-queue');
+    await transport.drain();
+    expect((await taskMQ.getTask(taskId))?.status).toBe(TaskStatus.COMPLETED);
+  });
+
+  it('should release uniqueness keys once tasks complete', async () => {
+    await taskMQ.addTask('local-queue', { index: 1 }, { taskName: 'work', uniquenessKey: 'release-key' });
+    await transport.drain();
+
+    const result = await taskMQ.addTask('local-queue', { index: 2 }, { taskName: 'work', uniquenessKey: 'release-key' });
+    expect(result.success).toBe(true);
+  });
+
+  it('should keep uniqueness keys deduplicating for their TTL after completion', async () => {
+    const options = { taskName: 'work', uniquenessKey: 'ttl-key', uniquenessMode: 'skip-for-ttl' as const };
+    await taskMQ.addTask('local-queue', { index: 1 }, options);
+    await transport.drain();
+
+    const result = await taskMQ.addTask('local-queue', { index: 2 }, options);
+    expect(result.skipped).toBe(true);
+  });
+
+  it('should retry failed tasks until they succeed', async () => {
+    const { taskId } = await taskMQ.addTask(
+      'local-queue',
+      { index: 1, fail: 2 },
+      { taskName: 'work', maxAttempts: 3 },
+    );
+
+    await transport.drain();
+
+    const task = await taskMQ.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.COMPLETED);
+    expect(task?.attempts).toBe(2);
+  });
+
+  describe('chains', () => {
+    let order: number[];
+
+    @Processor('local-queue')
+    class ChainProcessor {
+      @Process({ name: 'step' })
+      async step(task: CloudTask) {
+        order.push(task.chain!.index);
+        if (task.data.fail) {
+          throw new Error(`Step ${task.chain!.index} failed`);
+        }
+        return { total: (task.previousResult?.total ?? 0) + task.data.add };
+      }
+    }
+
+    const addSteps = (steps: any[], chainOptions?: any) =>
+      taskMQ.addChain(
+        'local-queue',
+        steps.map(data => ({ data, options: { taskName: 'step', maxAttempts: 1 } })),
+        chainOptions,
+      );
+
+    beforeEach(() => {
+      order = [];
+      taskMQ.registerProcessor(new ChainProcessor());
+    });
+
+    it('should run steps one after another, passing on the previous result', async () => {
+      const results = await addSteps([{ add: 1 }, { add: 2 }, { add: 3 }]);
+
+      await transport.drain();
+
+      expect(order).toEqual([0, 1, 2]);
+      const lastStep = await taskMQ.getTask(results[2].taskId);
+      expect(lastStep?.status).toBe(TaskStatus.COMPLETED);
+      expect(lastStep?.previousResult).toEqual({ total: 3 });
+      expect(lastStep?.result).toEqual({ total: 6 });
+    });
+
+    it('should halt the rest of the chain when a step fails', async () => {
+      const events: any[] = [];
+      taskMQ.on('chainFailed', event => events.push(event));
+      const results = await addSteps([{ add: 1 }, { fail: true }, { add: 3 }]);
+
+      await transport.drain();
+
+      expect(order).toEqual([0, 1]);
+      expect((await taskMQ.getTask(results[2].taskId))?.status).toBe(TaskStatus.WAITING);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toEqual(expect.objectContaining({
+        taskId: results[1].taskId,
+        index: 1,
+        total: 3,
+        action: 'halted',
+      }));
+    });
+
+    it('should skip failed steps when configured to', async () => {
+      const events: any[] = [];
+      taskMQ.on('chainFailed', event => events.push(event));
+      const results = await addSteps([{ fail: true }, { add: 2 }], { onFailure: 'skip' });
+
+      await transport.drain();
+
+      expect(order).toEqual([0, 1]);
+      expect((await taskMQ.getTask(results[1].taskId))?.result).toEqual({ total: 2 });
+      expect(events[0].action).toBe('skipped');
+    });
+  });
+
+  describe('flows', () => {
+    let parentRuns: number;
+
+    @Processor('local-queue')
+    class FlowParentProcessor {
+      @Process({ name: 'parent' })
+      async parent(task: CloudTask) {
+        parentRuns++;
+        const values = Object.values(task.childrenResults || {}).map((result: any) => result.value);
+        return { sum: values.reduce((sum, value) => sum + value, 0) };
+      }
+    }
+
+    @Processor('local-children')
+    class FlowChildProcessor {
+      @Process({ name: 'child' })
+      async child(task: CloudTask) {
+        if (task.data.fail) {
+          throw new Error('Child failed');
+        }
+        return { value: task.data.value };
+      }
+    }
+
+    const child = (data: any, onFailure?: any) => ({
+      queueName: 'local-children',
+      data,
+      options: { taskName: 'child', maxAttempts: 1 },
+      onFailure,
+    });
+
+    const addParent = (children: any[]) =>
+      taskMQ.addFlow({
+        queueName: 'local-queue',
+        data: {},
+        options: { taskName: 'parent' },
+        children,
+      });
+
+    beforeEach(() => {
+      parentRuns = 0;
+      taskMQ.registerProcessor(new FlowParentProcessor());
+      taskMQ.registerProcessor(new FlowChildProcessor());
+    });
+
+    it('should run the parent once all children completed, with their results', async () => {
+      const flow = await addParent([child({ value: 2 }), child({ value: 3 })]);
+
+      expect((await taskMQ.getTask(flow.taskId))?.status).toBe(TaskStatus.WAITING);
+      expect(flow.children?.map(result => result.queueName)).toEqual(['local-children', 'local-children']);
+
+      await transport.drain();
+
+      const parent = await taskMQ.getTask(flow.taskId);
+      expect(parent?.status).toBe(TaskStatus.COMPLETED);
+      expect(parent?.childIds).toEqual(flow.children?.map(result => result.taskId));
+      expect(parent?.result).toEqual({ sum: 5 });
+      expect(parentRuns).toBe(1);
+    });
+
+    it('should fail the parent when a child fails', async () => {
+      const flow = await addParent([child({ value: 2 }), child({ fail: true })]);
+
+      await transport.drain();
+
+      const parent = await taskMQ.getTask(flow.taskId);
+      expect(parent?.status).toBe(TaskStatus.FAILED);
+      expect(parent?.error?.reason).toBe('child-failed');
+      expect(parentRuns).toBe(0);
+    });
+
+    it('should ignore failed children when configured to', async () => {
+      const flow = await addParent([child({ value: 2 }), child({ fail: true }, 'ignore')]);
+
+      await transport.drain();
+
+      const parent = await taskMQ.getTask(flow.taskId);
+      expect(parent?.status).toBe(TaskStatus.COMPLETED);
+      expect(parent?.result).toEqual({ sum: 2 });
+    });
+
+    it('should run the parent right away when a continue child fails', async () => {
+      const flow = await addParent([child({ fail: true }, 'continue'), child({ value: 3 })]);
+
+      await transport.drain();
+
+      expect((await taskMQ.getTask(flow.taskId))?.status).toBe(TaskStatus.COMPLETED);
+      expect(parentRuns).toBe(1);
+    });
+  });
+
+  describe('batches', () => {
+    let callbackData: any[];
+
+    @Processor('local-children')
+    class BatchProcessor {
+      @Process({ name: 'member' })
+      async member(task: CloudTask) {
+        if (task.data.fail) {
+          throw new Error(`Member ${task.data.value} failed`);
+        }
+        return task.data.value * 2;
+      }
+
+      @Process({ name: 'summary' })
+      async summary(task: CloudTask) {
+        callbackData.push(task.data);
+      }
+    }
+
+    const member = (data: any) => ({ data, options: { taskName: 'member', maxAttempts: 1 } });
+
+    beforeEach(() => {
+      callbackData = [];
+      taskMQ.registerProcessor(new BatchProcessor());
+    });
+
+    it('should emit the aggregated results once every member finished', async () => {
+      const events: any[] = [];
+      taskMQ.on('batchCompleted', event => events.push(event));
+
+      const batch = await taskMQ.addBatch('local-children', [
+        member({ value: 1 }),
+        member({ value: 2 }),
+        member({ value: 3, fail: true }),
+      ]);
+
+      expect(await taskMQ.getBatchProgress(batch.batchId)).toEqual(
+        expect.objectContaining({ total: 3, completed: 0, failed: 0 }),
+      );
+
+      await transport.drain();
+
+      const [okOne, okTwo, failed] = batch.results.map(result => result.taskId);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toEqual(expect.objectContaining({
+        batchId: batch.batchId,
+        total: 3,
+        completed: 2,
+        failed: 1,
+        results: { [okOne]: 2, [okTwo]: 4 },
+        failures: { [failed]: expect.objectContaining({ message: 'Member 3 failed' }) },
+      }));
+    });
+
+    it('should run the callback task with the batch summary', async () => {
+      const batch = await taskMQ.addBatch(
+        'local-children',
+        [member({ value: 1 }), member({ value: 2 })],
+        { callback: { queueName: 'local-children', data: { report: true }, options: { taskName: 'summary' } } },
+      );
+
+      expect((await taskMQ.getTask(batch.callback!.taskId))?.status).toBe(TaskStatus.WAITING);
+
+      await transport.drain();
+
+      expect((await taskMQ.getTask(batch.callback!.taskId))?.status).toBe(TaskStatus.COMPLETED);
+      expect(callbackData).toHaveLength(1);
+      expect(callbackData[0].report).toBe(true);
+      expect(callbackData[0].batch).toEqual(expect.objectContaining({
+        batchId: batch.batchId,
+        completed: 2,
+        failed: 0,
+      }));
+    });
+
+    it('should count members that could not be added as failed', async () => {
+      const events: any[] = [];
+      taskMQ.on('batchCompleted', event => events.push(event));
+      await taskMQ.addTask('local-children', { value: 0 }, { taskName: 'summary', uniquenessKey: 'taken' });
+
+      const batch = await taskMQ.addBatch('local-children', [
+        member({ value: 1 }),
+        { data: { value: 2 }, options: { taskName: 'member', uniquenessKey: 'taken' } },
+      ]);
+      await transport.drain();
+
+      expect(batch.results[1].success).toBe(false);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toEqual(expect.objectContaining({ completed: 1, failed: 1 }));
+    });
+
+    it('should reject empty batches', async () => {
+      await expect(taskMQ.addBatch('local-children', [])).rejects.toThrow('at least one task');
+    });
+  });
+
+  it('should mark tasks as failed after exhausting attempts', async () => {
+    const { taskId } = await taskMQ.addTask(
+      'local-queue',
+      { index: 1, fail: 5 },
+      { taskName: 'work', maxAttempts: 2 },
+    );
+
+    await transport.drain();
+
+    const task = await taskMQ.getTask(taskId);
+    expect(task?.status).toBe(TaskStatus.FAILED);
+    expect(task?.attempts).toBe(2);
+  });
+});
@@ -1,5 +1,6 @@
 import { MemoryStorageAdapter } from '../adapters/memory-storage.adapter';
 import { TaskStatus } from '../interfaces/storage-adapter.interface';
+import { describeRateLimitConformance } from './helpers/rate-limit-conformance';
 
 describe('MemoryStorageAdapter', () => {
   let adapter: MemoryStorageAdapter;
@@ -65,6 +66,28 @@ describe('MemoryStorageAdapter', () => {
       expect(updated?.updatedAt).toEqual(now);
     });
 
+    it('should patch task fields', async () => {
+      await adapter.createTask(mockTask);
+
+      await adapter.updateTask(mockTask.id, { cloudTaskName: 'projects/p/tasks/t' });
+
+      const updated = await adapter.getTask(mockTask.id);
+      expect(updated?.cloudTaskName).toBe('projects/p/tasks/t');
+      expect(updated?.status).toBe(TaskStatus.IDLE);
+    });
+
+    it('should transition a task only from the given statuses', async () => {
+      await adapter.createTask(mockTask);
+
+      const claimed = await adapter.transitionTask(mockTask.id, [TaskStatus.IDLE], TaskStatus.ACTIVE, { attempts: 1 });
+      const claimedAgain = await adapter.transitionTask(mockTask.id, [TaskStatus.IDLE], TaskStatus.ACTIVE);
+
+      expect(claimed?.status).toBe(TaskStatus.ACTIVE);
+      expect(claimed?.attempts).toBe(1);
+      expect(claimedAgain).toBeNull();
+      expect(await adapter.transitionTask('non-existent', [TaskStatus.IDLE], TaskStatus.ACTIVE)).toBeNull();
+    });
+
     it('should delete a task', async () => {
       await adapter.createTask(mockTask);
       const deleted = await adapter.deleteTask(mockTask.id);
@@ -78,6 +101,18 @@ describe('MemoryStorageAdapter', () => {
       const deleted = await adapter.deleteTask('non-existent');
       expect(deleted).toBe(false);
     });
+
+    it('should save a batch of tasks whole', async () => {
+      const tasks = [mockTask, { ...mockTask, id: 'test-task-2' }];
+
+      // Other callers see all of the batch as soon as the save started
+      const saving = adapter.saveTasks(tasks);
+      expect(await adapter.getTaskCount({ queueName: 'test-queue' })).toBe(2);
+      await saving;
+
+      await expect(adapter.saveTasks([{ ...mockTask, id: 'test-task-3' }], { session: {} })).rejects.toThrow();
+      expect(await adapter.getTask('test-task-3')).toBeNull();
+    });
   });
 
   describe('task queries', () => {
@@ -143,6 +178,23 @@ describe('MemoryStorageAdapter', () => {
       expect(queue1Tasks).toHaveLength(2);
     });
 
+    it('should filter tasks by marker', async () => {
+      await adapter.updateTask('task-1', { heldAt: new Date() });
+      await adapter.updateTask('task-2', { heldAt: new Date() });
+      await adapter.updateTask('task-2', { heldAt: undefined });
+
+      const heldTasks = await adapter.getTasks({ queueName: 'queue-1', marker: 'heldAt' });
+      expect(heldTasks.map(task => task.id)).toEqual(['task-1']);
+    });
+
+    it('should filter tasks scheduled up to a time', async () => {
+      await adapter.updateTask('task-1', { scheduledFor: new Date(Date.now() + 1000) });
+      await adapter.updateTask('task-2', { scheduledFor: new Date(Date.now() + 60000) });
+
+      const dueTasks = await adapter.getTasks({ scheduledBefore: new Date(Date.now() + 5000) });
+      expect(dueTasks.map(task => task.id)).toEqual(['task-1']);
+    });
+
     it('should limit results', async () => {
       const limitedTasks = await adapter.getTasks({
         limit: 2,
@@ -167,6 +219,19 @@ describe('MemoryStorageAdapter', () => {
       expect(sortedTasks[2].id).toBe('task-1');
     });
 
+    it('should sort tasks by priority, treating a missing priority as 0', async () => {
+      await adapter.updateTask('task-2', { priority: -1 });
+      await adapter.updateTask('task-3', { priority: 5 });
+
+      const sortedTasks = await adapter.getTasks({
+        sort: [
+          { field: 'priority', order: 'desc' },
+          { field: 'createdAt', order: 'asc' },
+        ],
+      });
+      expect(sortedTasks.map(task => task.id)).toEqual(['task-3', 'task-1', 'task-2']);
+    });
+
     it('should count tasks', async () => {
       const count = await adapter.getTaskCount();
       expect(count).toBe(3);
@@ -216,6 +281,24 @@ describe('MemoryStorageAdapter', () => {
       expect(info?.taskId).toBe('task-123');
       expect(info?.expiresAt).toBeInstanceOf(Date);
     });
+
+    it('should acquire a uniqueness key for only one of several concurrent callers', async () => {
+      const holders = await Promise.all(
+        ['task-1', 'task-2', 'task-3'].map(taskId => adapter.acquireUniquenessKey('test-key', taskId, 60)),
+      );
+
+      expect(holders).toEqual([null, 'task-1', 'task-1']);
+    });
+
+    it('should only remove a uniqueness key held by the given task', async () => {
+      await adapter.acquireUniquenessKey('test-key', 'task-123', 60);
+
+      await adapter.removeUniquenessKey('test-key', 'task-456');
+      expect(await adapter.isUniquenessKeyActive('test-key')).toBe(true);
+
+      await adapter.removeUniquenessKey('test-key', 'task-123');
+      expect(await adapter.isUniquenessKeyActive('test-key')).toBe(false);
+    });
   });
 
   describe('rate limiting', () => {
@@ -259,6 +342,116 @@ describe('MemoryStorageAdapter', () => {
       const allowed = await adapter.incrementRateLimit('test-key', 60000, 1);
       expect(allowed.allowed).toBe(true);
     });
+
+    describeRateLimitConformance(() => adapter);
+  });
+
+  describe('queue stats', () => {
+    const createTask = (id: string, status: TaskStatus, overrides: Record<string, any> = {}) => ({
+      id,
+      queueName: 'stats-queue',
+      data: {},
+      status,
+      attempts: 0,
+      maxAttempts: 3,
+      createdAt: new Date(Date.now() - 60000),
+      updatedAt: new Date(),
+      ...overrides,
+    });
+
+    it('should count tasks by status and measure recent throughput', async () => {
+      const now = Date.now();
+      await adapter.saveTask(createTask('idle-1', TaskStatus.IDLE, { createdAt: new Date(now - 30000) }));
+      await adapter.saveTask(createTask('idle-2', TaskStatus.IDLE, { createdAt: new Date(now - 10000) }));
+      await adapter.saveTask(createTask('done-1', TaskStatus.COMPLETED, {
+        activeAt: new Date(now - 2000),
+        completedAt: new Date(now - 1000),
+      }));
+      await adapter.saveTask(createTask('done-old', TaskStatus.COMPLETED, {
+        activeAt: new Date(now - 3600000),
+        completedAt: new Date(now - 3500000),
+      }));
+      await adapter.saveTask(createTask('failed-1', TaskStatus.FAILED, { failedAt: new Date(now - 1000) }));
+      await adapter.saveTask({ ...createTask('other-1', TaskStatus.IDLE), queueName: 'other-queue' });
+
+      const stats = await adapter.getQueueStats('stats-queue', { windowMs: 60000 });
+
+      expect(stats.counts[TaskStatus.IDLE]).toBe(2);
+      expect(stats.counts[TaskStatus.COMPLETED]).toBe(2);
+      expect(stats.counts[TaskStatus.FAILED]).toBe(1);
+      expect(stats.counts[TaskStatus.ACTIVE]).toBe(0);
+      expect(stats.total).toBe(5);
+      expect(stats.oldestWaitingAge).toBeGreaterThanOrEqual(30000);
+      expect(stats.averageDuration).toBe(1000);
+      expect(stats.p95Duration).toBe(1000);
+      expect(stats.completedPerMinute).toBe(1);
+      expect(stats.failedPerMinute).toBe(1);
+      expect(stats.paused).toBe(false);
+    });
+  });
+
+  describe('concurrency leases', () => {
+    it('should grant leases up to the limit', async () => {
+      expect(await adapter.acquireConcurrencyLease('queue:test', 'task-1', 2, 60000)).toBe(true);
+      expect(await adapter.acquireConcurrencyLease('queue:test', 'task-2', 2, 60000)).toBe(true);
+      expect(await adapter.acquireConcurrencyLease('queue:test', 'task-3', 2, 60000)).toBe(false);
+
+      // Renewing a held lease always succeeds
+      expect(await adapter.acquireConcurrencyLease('queue:test', 'task-1', 2, 60000)).toBe(true);
+
+      await adapter.releaseConcurrencyLease('queue:test', 'task-1');
+      expect(await adapter.acquireConcurrencyLease('queue:test', 'task-3', 2, 60000)).toBe(true);
+    });
+  });
+
+  describe('flow dependencies', () => {
+    it('should count down pending children once each', async () => {
+      await adapter.setPendingChildren('parent-1', ['child-1', 'child-2']);
+
+      expect(await adapter.removePendingChild('parent-1', 'child-1')).toBe(1);
+      expect(await adapter.removePendingChild('parent-1', 'child-1')).toBeNull();
+      expect(await adapter.removePendingChild('parent-1', 'child-2')).toBe(0);
+    });
+
+    it('should forget cleared children', async () => {
+      await adapter.setPendingChildren('parent-1', ['child-1']);
+      await adapter.clearPendingChildren('parent-1');
+
+      expect(await adapter.removePendingChild('parent-1', 'child-1')).toBeNull();
+    });
+  });
+
+  describe('batch progress', () => {
+    it('should count each member outcome once', async () => {
+      await adapter.createBatch('batch-1', 2);
+
+      expect(await adapter.recordBatchOutcome('batch-1', 'task-1', 'completed')).toEqual({
+        batchId: 'batch-1', total: 2, completed: 1, failed: 0,
+      });
+      expect(await adapter.recordBatchOutcome('batch-1', 'task-1', 'failed')).toBeNull();
+      expect(await adapter.recordBatchOutcome('batch-1', 'task-2', 'failed')).toEqual({
+        batchId: 'batch-1', total: 2, completed: 1, failed: 1,
+      });
+      expect(await adapter.getBatchProgress('batch-1')).toEqual({
+        batchId: 'batch-1', total: 2, completed: 1, failed: 1,
+      });
+    });
+
+    it('should ignore outcomes of unknown batches', async () => {
+      expect(await adapter.recordBatchOutcome('missing', 'task-1', 'completed')).toBeNull();
+      expect(await adapter.getBatchProgress('missing')).toBeNull();
+    });
+  });
+
+  describe('queue pausing', () => {
+    it('should persist the paused flag per queue', async () => {
+      await adapter.setQueuePaused('test-queue', true);
+      expect(await adapter.isQueuePaused('test-queue')).toBe(true);
+      expect(await adapter.isQueuePaused('other-queue')).toBe(false);
+
+      await adapter.setQueuePaused('test-queue', false);
+      expect(await adapter.isQueuePaused('test-queue')).toBe(false);
+    });
   });
 
   describe('chain management', () => {
@@ -0,0 +1,167 @@
+import { OutboxRelayService } from '../services/outbox-relay.service';
+import { ProducerService } from '../services/producer.service';
+import { MemoryStorageAdapter } from '../adapters/memory-storage.adapter';
+import { CloudTaskMQConfig } from '../interfaces/config.interface';
+import { TaskStatus } from '../interfaces/storage-adapter.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+import { createTaskAlreadyExistsError } from '../utils/cloud-task-name.utils';
+
+describe('OutboxRelayService', () => {
+  let storageAdapter: MemoryStorageAdapter;
+  let transport: jest.Mocked<ITaskTransport>;
+  let config: CloudTaskMQConfig;
+  let producerService: ProducerService;
+  let service: OutboxRelayService;
+
+  beforeEach(async () => {
+    config = {
+      projectId: 'test-project',
+      location: 'us-central1',
+      storageAdapter: 'memory',
+      queues: [{
+        name: 'outbox-queue',
+        path: 'projects/test-project/locations/us-central1/queues/outbox-queue',
+      }],
+      outbox: { enabled: true },
+    };
+
+    storageAdapter = new MemoryStorageAdapter();
+    await storageAdapter.initialize();
+
+    transport = {
+      initialize: jest.fn(),
+      dispatch: jest.fn().mockResolvedValue('cloud-task-name'),
+      close: jest.fn(),
+    };
+    producerService = new ProducerService(config, storageAdapter, transport);
+    service = new OutboxRelayService(config, storageAdapter, producerService);
+  });
+
+  afterEach(async () => {
+    service.stop();
+    await storageAdapter.close();
+  });
+
+  it('should store new tasks as pending dispatch without dispatching them', async () => {
+    const result = await producerService.addTask('outbox-queue', { test: 'data' });
+
+    expect(result.success).toBe(true);
+    expect((await storageAdapter.getTask(result.taskId))?.pendingDispatchAt).toBeInstanceOf(Date);
+    expect(transport.dispatch).not.toHaveBeenCalled();
+  });
+
+  it('should dispatch pending tasks and clear their marker', async () => {
+    const result = await producerService.addTask('outbox-queue', { test: 'data' });
+
+    const relayed = await service.relayPendingTasks();
+
+    expect(relayed.map(task => task.id)).toEqual([result.taskId]);
+    const task = await storageAdapter.getTask(result.taskId);
+    expect(task?.pendingDispatchAt).toBeUndefined();
+    expect(task?.cloudTaskName).toBe('cloud-task-name');
+    expect(await service.relayPendingTasks()).toEqual([]);
+    expect(transport.dispatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep tasks pending until their dispatch succeeds', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    transport.dispatch.mockRejectedValueOnce(new Error('Cloud Tasks unavailable'));
+    const result = await producerService.addTask('outbox-queue', {});
+
+    expect(await service.relayPendingTasks()).toEqual([]);
+    expect((await storageAdapter.getTask(result.taskId))?.pendingDispatchAt).toBeInstanceOf(Date);
+
+    expect((await service.relayPendingTasks()).map(task => task.id)).toEqual([result.taskId]);
+    errorSpy.mockRestore();
+  });
+
+  it('should treat tasks the transport already has as dispatched', async () => {
+    transport.dispatch.mockRejectedValueOnce(createTaskAlreadyExistsError('projects/p/tasks/t'));
+    const result = await producerService.addTask('outbox-queue', {});
+
+    expect((await service.relayPendingTasks()).map(task => task.id)).toEqual([result.taskId]);
+    expect((await storageAdapter.getTask(result.taskId))?.pendingDispatchAt).toBeUndefined();
+  });
+
+  it('should dispatch again under the same name after failing to record a dispatch', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const result = await producerService.addTask('outbox-queue', {});
+    jest.spyOn(storageAdapter, 'updateTask').mockRejectedValueOnce(new Error('Storage unavailable'));
+
+    expect(await service.relayPendingTasks()).toEqual([]);
+    const task = await storageAdapter.getTask(result.taskId);
+    expect(task?.pendingDispatchAt).toBeInstanceOf(Date);
+    expect(task?.dispatchCount).toBeUndefined();
+
+    await service.relayPendingTasks();
+    expect(transport.dispatch).toHaveBeenCalledTimes(2);
+    expect(transport.dispatch.mock.calls[1][1].dispatchCount).toBeUndefined();
+    errorSpy.mockRestore();
+  });
+
+  it('should relay from one instance at a time', async () => {
+    const otherService = new OutboxRelayService(config, storageAdapter, producerService);
+    await producerService.addTask('outbox-queue', {});
+
+    expect(await otherService.relayPendingTasks()).toHaveLength(1);
+    await producerService.addTask('outbox-queue', {});
+    expect(await service.relayPendingTasks()).toEqual([]);
+
+    // The relay stepping down lets the other instance take over
+    otherService.start();
+    otherService.stop();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(await service.relayPendingTasks()).toHaveLength(1);
+  });
+
+  it('should relay at most a batch of tasks per queue in one run', async () => {
+    const batchService = new OutboxRelayService({ ...config, outbox: { enabled: true, batchSize: 2 } }, storageAdapter, producerService);
+    for (let i = 0; i < 3; i++) {
+      await producerService.addTask('outbox-queue', { index: i });
+    }
+
+    expect(await batchService.relayPendingTasks()).toHaveLength(2);
+    expect(await batchService.relayPendingTasks()).toHaveLength(1);
+  });
+
+  it('should stop relaying once the lease could not be renewed', async () => {
+    const renewingService = new OutboxRelayService(
+      { ...config, outbox: { enabled: true, relayIntervalMs: 0 } },
+      storageAdapter,
+      producerService,
+    );
+    for (let i = 0; i < 3; i++) {
+      await producerService.addTask('outbox-queue', { index: i });
+    }
+    jest.spyOn(storageAdapter, 'acquireConcurrencyLease')
+      .mockResolvedValueOnce(true)
+      .mockResolvedValueOnce(true)
+      .mockResolvedValue(false);
+
+    expect(await renewingService.relayPendingTasks()).toHaveLength(1);
+    expect(transport.dispatch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should acquire uniqueness keys in the storage session', async () => {
+    const session = {};
+    const acquire = jest.spyOn(storageAdapter, 'acquireUniquenessKey');
+
+    // The memory adapter has no transactions, so the key is not taken outside of one either
+    await expect(
+      producerService.addTask('outbox-queue', {}, { session, uniquenessKey: 'report' }),
+    ).rejects.toThrow('MemoryStorageAdapter does not support sessions');
+
+    expect(acquire).toHaveBeenCalledWith('report', expect.any(String), expect.any(Number), { session });
+    expect(await storageAdapter.isUniquenessKeyActive('report')).toBe(false);
+  });
+
+  it('should reject storage sessions without the outbox', async () => {
+    const directProducer = new ProducerService({ ...config, outbox: undefined }, storageAdapter, transport);
+
+    const result = await directProducer.addTask('outbox-queue', {}, { session: {} });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Saving tasks in a storage session requires the outbox to be enabled');
+    expect(await storageAdapter.getTasks({ status: TaskStatus.IDLE })).toHaveLength(0);
+  });
+});
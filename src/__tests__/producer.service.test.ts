@@ -2,11 +2,14 @@ import { ProducerService } from '../services/producer.service';
 import { MemoryStorageAdapter } from '../adapters/memory-storage.adapter';
 import { CloudTaskMQConfig } from '../interfaces/config.interface';
 import { TaskStatus } from '../interfaces/storage-adapter.interface';
+import { CloudTasksTransport } from '../transports/cloud-tasks.transport';
+import { isRateLimitError } from '../utils/rate-limit.utils';
 
 // Mock Google Cloud Tasks
 jest.mock('@google-cloud/tasks', () => ({
   CloudTasksClient: jest.fn().mockImplementation(() => ({
     createTask: jest.fn().mockResolvedValue([{ name: 'test-task' }]),
+    deleteTask: jest.fn().mockResolvedValue([{}]),
     getQueue: jest.fn().mockResolvedValue([{ name: 'test-queue' }]),
     createQueue: jest.fn().mockResolvedValue([{ name: 'test-queue' }]),
     queuePath: jest.fn().mockReturnValue('projects/test/locations/us-central1/queues/test-queue'),
@@ -23,6 +26,7 @@ describe('ProducerService', () => {
       projectId: 'test-project',
       location: 'us-central1',
       storageAdapter: 'memory',
+      defaultProcessorUrl: 'https://example.com/tasks/process',
       queues: [{
         name: 'default',
         path: 'projects/test-project/locations/us-central1/queues/default',
@@ -44,6 +48,24 @@ describe('ProducerService', () => {
           maxRequests: 2,
           windowMs: 60000,
         },
+      }, {
+        name: 'strict-queue',
+        path: 'projects/test-project/locations/us-central1/queues/strict-queue',
+        pauseBehavior: 'reject',
+      }, {
+        name: 'priority-queue',
+        path: 'projects/test-project/locations/us-central1/queues/priority-queue',
+        priorityQueues: [{
+          minPriority: 10,
+          path: 'projects/test-project/locations/us-central1/queues/priority-queue-urgent',
+        }, {
+          minPriority: 5,
+          path: 'projects/test-project/locations/us-central1/queues/priority-queue-high',
+        }],
+      }, {
+        name: 'named-queue',
+        path: 'projects/test-project/locations/us-central1/queues/named-queue',
+        taskNaming: 'uniqueness-key',
       }],
     };
 
@@ -114,6 +136,62 @@ describe('ProducerService', () => {
       expect(second.error).toContain('Task with uniqueness key');
     });
 
+    it('should add only one of several concurrent tasks with the same uniqueness key', async () => {
+      const results = await Promise.all(
+        [1, 2, 3].map(index => producerService.addTask('test-queue', { index }, { uniquenessKey: 'race-key' })),
+      );
+
+      expect(results.filter(result => result.success)).toHaveLength(1);
+      expect(await storageAdapter.getTaskCount({ uniquenessKey: 'race-key' })).toBe(1);
+    });
+
+    it('should hold the uniqueness key for uniquenessTtl seconds', async () => {
+      await producerService.addTask('test-queue', {}, { uniquenessKey: 'ttl-key', uniquenessTtl: 60 });
+
+      const info = await storageAdapter.getUniquenessKeyInfo('ttl-key');
+      expect(info!.expiresAt.getTime() - Date.now()).toBeGreaterThan(55 * 1000);
+      expect(info!.expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(60 * 1000);
+    });
+
+    it('should replace the pending task holding the uniqueness key', async () => {
+      const first = await producerService.addTask('test-queue', { version: 1 }, { uniquenessKey: 'replace-key' });
+      const second = await producerService.addTask(
+        'test-queue',
+        { version: 2 },
+        { uniquenessKey: 'replace-key', uniquenessMode: 'replace' },
+      );
+
+      expect(second.success).toBe(true);
+      expect(second.replacedTaskId).toBe(first.taskId);
+      expect((await storageAdapter.getTask(first.taskId))?.status).toBe(TaskStatus.CANCELLED);
+      expect((await storageAdapter.getUniquenessKeyInfo('replace-key'))?.taskId).toBe(second.taskId);
+    });
+
+    it('should skip instead of replacing a task that already started', async () => {
+      const first = await producerService.addTask('test-queue', {}, { uniquenessKey: 'started-key' });
+      await storageAdapter.updateTaskStatus(first.taskId, TaskStatus.ACTIVE);
+
+      const second = await producerService.addTask('test-queue', {}, { uniquenessKey: 'started-key', uniquenessMode: 'replace' });
+
+      expect(second.skipped).toBe(true);
+      expect((await storageAdapter.getTask(first.taskId))?.status).toBe(TaskStatus.ACTIVE);
+    });
+
+    it('should debounce by pushing back the pending task holding the uniqueness key', async () => {
+      const first = await producerService.addTask('test-queue', {}, { uniquenessKey: 'debounce-key', delay: 60 });
+      const second = await producerService.addTask(
+        'test-queue',
+        {},
+        { uniquenessKey: 'debounce-key', uniquenessMode: 'debounce', delay: 120 },
+      );
+
+      expect(second).toEqual({ taskId: first.taskId, success: true, debounced: true });
+      const storedTask = await storageAdapter.getTask(first.taskId);
+      expect(storedTask?.status).toBe(TaskStatus.DELAYED);
+      expect(storedTask!.scheduledFor!.getTime() - Date.now()).toBeGreaterThan(115 * 1000);
+      expect(await storageAdapter.getTaskCount({ uniquenessKey: 'debounce-key' })).toBe(1);
+    });
+
     it('should generate unique task IDs', async () => {
       const results = await Promise.all([
         producerService.addTask('test-queue', { index: 1 }),
@@ -281,6 +359,361 @@ describe('ProducerService', () => {
       
       await service.close();
     });
+
+    it('should delay tasks beyond the limit to the next window with a free slot', async () => {
+      const now = 1_700_000_010_000;
+      const windowStart = Math.floor(now / 60000) * 60000;
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+      config.queues = [{
+        name: 'smoothed-queue',
+        path: 'projects/test-project/locations/us-central1/queues/smoothed-queue',
+        rateLimiter: { maxRequests: 2, windowMs: 60000 },
+        rateLimitBehavior: 'delay',
+      }];
+      const service = new ProducerService(config, storageAdapter);
+
+      const results = await service.addTasks('smoothed-queue', Array.from({ length: 5 }, (_, index) => ({ data: { index } })), { concurrency: 1 });
+      const tasks = await Promise.all(results.map(result => storageAdapter.getTask(result.taskId)));
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(tasks.map(task => task?.scheduledFor?.getTime())).toEqual([
+        undefined,
+        undefined,
+        windowStart + 60000,
+        windowStart + 60000,
+        windowStart + 120000,
+      ]);
+      expect(tasks.map(task => task?.status)).toEqual([
+        TaskStatus.IDLE,
+        TaskStatus.IDLE,
+        TaskStatus.DELAYED,
+        TaskStatus.DELAYED,
+        TaskStatus.DELAYED,
+      ]);
+      jest.restoreAllMocks();
+    });
+
+    it('should give back the slot of a duplicate that was skipped', async () => {
+      // Uniqueness keys expire by the clock, so the time is frozen at the current time
+      const now = Date.now();
+      const windowStart = Math.floor(now / 60000) * 60000;
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+      config.queues = [{
+        name: 'smoothed-queue',
+        path: 'projects/test-project/locations/us-central1/queues/smoothed-queue',
+        rateLimiter: { maxRequests: 2, windowMs: 60000 },
+        rateLimitBehavior: 'delay',
+      }];
+      const service = new ProducerService(config, storageAdapter);
+
+      await service.addTask('smoothed-queue', {}, { uniquenessKey: 'report' });
+      const duplicate = await service.addTask('smoothed-queue', {}, { uniquenessKey: 'report' });
+      const next = await service.addTask('smoothed-queue', {});
+      const later = await service.addTask('smoothed-queue', {});
+
+      expect(duplicate.skipped).toBe(true);
+      expect((await storageAdapter.getTask(next.taskId))?.scheduledFor).toBeUndefined();
+      expect((await storageAdapter.getTask(later.taskId))?.scheduledFor?.getTime()).toBe(windowStart + 60000);
+      jest.restoreAllMocks();
+    });
+
+    it('should give back the request counted for a task that could not be stored', async () => {
+      config.queues = [{
+        name: 'limited-queue',
+        path: 'projects/test-project/locations/us-central1/queues/limited-queue',
+        rateLimiter: { maxRequests: 1, windowMs: 60000 },
+      }];
+      const service = new ProducerService(config, storageAdapter);
+      jest.spyOn(storageAdapter, 'saveTask').mockRejectedValueOnce(new Error('Storage unavailable'));
+
+      const failed = await service.addTask('limited-queue', {});
+      const next = await service.addTask('limited-queue', {});
+
+      expect(failed.success).toBe(false);
+      expect(next.success).toBe(true);
+      jest.restoreAllMocks();
+    });
+
+    it('should throw a rate limit error when configured to', async () => {
+      config.queues = [{
+        name: 'throwing-queue',
+        path: 'projects/test-project/locations/us-central1/queues/throwing-queue',
+        rateLimiter: { maxRequests: 1, windowMs: 60000 },
+        rateLimitBehavior: 'throw',
+      }];
+      const service = new ProducerService(config, storageAdapter);
+
+      await service.addTask('throwing-queue', {});
+      const error = await service.addTask('throwing-queue', {}).catch(caught => caught);
+
+      expect(isRateLimitError(error)).toBe(true);
+      expect(error.message).toContain('Rate limit exceeded for queue "throwing-queue"');
+      expect(error.retryAfterMs).toBeGreaterThan(0);
+    });
+  });
+
+  describe('task operations', () => {
+    it('should store delayed tasks as delayed with their Cloud Task name', async () => {
+      const result = await producerService.addTask('test-queue', { test: 'data' }, { delay: 60 });
+
+      const storedTask = await storageAdapter.getTask(result.taskId);
+      expect(storedTask?.status).toBe(TaskStatus.DELAYED);
+      expect(storedTask?.cloudTaskName).toBe('test-task');
+    });
+
+    it('should cancel a waiting task and release its uniqueness key', async () => {
+      const result = await producerService.addTask('test-queue', { test: 'data' }, { uniquenessKey: 'cancel-key' });
+
+      const cancelled = await producerService.cancelTask(result.taskId);
+
+      expect(cancelled.status).toBe(TaskStatus.CANCELLED);
+      expect(cancelled.cancelledAt).toBeInstanceOf(Date);
+      expect(await storageAdapter.isUniquenessKeyActive('cancel-key')).toBe(false);
+    });
+
+    it('should refuse to cancel a completed task', async () => {
+      const result = await producerService.addTask('test-queue', { test: 'data' });
+      await storageAdapter.updateTaskStatus(result.taskId, TaskStatus.COMPLETED);
+
+      await expect(producerService.cancelTask(result.taskId)).rejects.toThrow('cannot be cancelled');
+    });
+
+    it('should retry a failed task from scratch', async () => {
+      const result = await producerService.addTask('test-queue', { test: 'data' });
+      await storageAdapter.updateTaskStatus(result.taskId, TaskStatus.FAILED, {
+        attempts: 3,
+        error: { message: 'Boom', timestamp: new Date() },
+        failedAt: new Date(),
+      });
+
+      const retried = await producerService.retryTask(result.taskId);
+
+      expect(retried.status).toBe(TaskStatus.IDLE);
+      expect(retried.attempts).toBe(0);
+      expect(retried.error).toBeUndefined();
+      expect(retried.failedAt).toBeUndefined();
+    });
+
+    it('should refuse to retry a task that has not failed', async () => {
+      const result = await producerService.addTask('test-queue', { test: 'data' });
+
+      await expect(producerService.retryTask(result.taskId)).rejects.toThrow('cannot be retried');
+    });
+
+    it('should schedule tasks at an absolute runAt', async () => {
+      const runAt = new Date(Date.now() + 2 * 60 * 60 * 1000);
+      const result = await producerService.addTask('test-queue', { test: 'data' }, { runAt, delay: 10 });
+
+      const storedTask = await storageAdapter.getTask(result.taskId);
+      expect(storedTask?.status).toBe(TaskStatus.DELAYED);
+      expect(storedTask?.scheduledFor).toEqual(runAt);
+      expect(storedTask?.delay).toBeUndefined();
+      expect(storedTask?.cloudTaskName).toBe('test-task');
+    });
+
+    it('should park tasks due beyond the Cloud Tasks scheduling window', async () => {
+      const runAt = new Date(Date.now() + 90 * 24 * 60 * 60 * 1000);
+      const result = await producerService.addTask('test-queue', { test: 'data' }, { runAt });
+
+      const storedTask = await storageAdapter.getTask(result.taskId);
+      expect(storedTask?.status).toBe(TaskStatus.DELAYED);
+      expect(storedTask?.parkedAt).toBeInstanceOf(Date);
+      expect(storedTask?.cloudTaskName).toBeUndefined();
+    });
+
+    it('should reject invalid runAt dates', async () => {
+      const result = await producerService.addTask('test-queue', {}, { runAt: new Date('not a date') });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Invalid runAt');
+    });
+
+    it('should promote a delayed task', async () => {
+      const result = await producerService.addTask('test-queue', { test: 'data' }, { delay: 3600 });
+
+      const promoted = await producerService.promoteTask(result.taskId);
+
+      expect(promoted.status).toBe(TaskStatus.IDLE);
+      expect(promoted.scheduledFor).toBeUndefined();
+    });
+
+    it('should reject operations on unknown tasks', async () => {
+      await expect(producerService.cancelTask('missing')).rejects.toThrow('Task missing not found');
+    });
+  });
+
+  describe('pausing queues', () => {
+    it('should hold tasks added while paused and dispatch them on resume', async () => {
+      const dispatchSpy = jest.spyOn(producerService.getTransport(), 'dispatch');
+      await producerService.pauseQueue('test-queue');
+
+      const result = await producerService.addTask('test-queue', { test: 'data' });
+
+      expect(result.success).toBe(true);
+      expect(dispatchSpy).not.toHaveBeenCalled();
+      expect((await storageAdapter.getTask(result.taskId))?.heldAt).toBeInstanceOf(Date);
+
+      await producerService.resumeQueue('test-queue');
+
+      expect(dispatchSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'test-queue' }),
+        expect.objectContaining({ id: result.taskId }),
+      );
+      expect((await storageAdapter.getTask(result.taskId))?.heldAt).toBeUndefined();
+      expect(await producerService.isQueuePaused('test-queue')).toBe(false);
+    });
+
+    it('should reject tasks for paused queues configured to reject', async () => {
+      await producerService.pauseQueue('strict-queue');
+
+      const result = await producerService.addTask('strict-queue', { test: 'data' });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Queue "strict-queue" is paused');
+    });
+
+    it('should fail to pause unknown queues', async () => {
+      await expect(producerService.pauseQueue('missing-queue')).rejects.toThrow('not found in configuration');
+    });
+  });
+
+  describe('priority', () => {
+    it('should store the priority on the task', async () => {
+      const result = await producerService.addTask('test-queue', { test: 'data' }, { priority: 3 });
+      const defaultResult = await producerService.addTask('test-queue', { test: 'data' });
+
+      expect((await storageAdapter.getTask(result.taskId))?.priority).toBe(3);
+      expect((await storageAdapter.getTask(defaultResult.taskId))?.priority).toBe(0);
+    });
+
+    it('should route tasks to the priority queue matching their priority', async () => {
+      const dispatchSpy = jest.spyOn(producerService.getTransport(), 'dispatch');
+
+      await producerService.addTask('priority-queue', {}, { priority: 1 });
+      await producerService.addTask('priority-queue', {}, { priority: 5 });
+      await producerService.addTask('priority-queue', {}, { priority: 20 });
+
+      expect(dispatchSpy.mock.calls.map(([queueConfig]) => queueConfig.path.split('/').pop())).toEqual([
+        'priority-queue',
+        'priority-queue-high',
+        'priority-queue-urgent',
+      ]);
+      expect(dispatchSpy.mock.calls.every(([queueConfig]) => queueConfig.name === 'priority-queue')).toBe(true);
+    });
+  });
+
+  describe('bulk add', () => {
+    it('should store tasks with one bulk write and return their results in order', async () => {
+      const saveTasksSpy = jest.spyOn(storageAdapter, 'saveTasks');
+      const dispatchSpy = jest.spyOn(producerService.getTransport(), 'dispatch');
+
+      const results = await producerService.addTasks('test-queue', [{ data: { n: 1 } }, { data: { n: 2 } }, { data: { n: 3 } }]);
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(saveTasksSpy).toHaveBeenCalledTimes(1);
+      expect(saveTasksSpy.mock.calls[0][0]).toHaveLength(3);
+      expect(dispatchSpy).toHaveBeenCalledTimes(3);
+      const tasks = await Promise.all(results.map(result => storageAdapter.getTask(result.taskId)));
+      expect(tasks.map(task => task?.data)).toEqual([{ n: 1 }, { n: 2 }, { n: 3 }]);
+    });
+
+    it('should report the tasks that could not be added', async () => {
+      const results = await producerService.addTasks('test-queue', [
+        { data: {}, options: { uniquenessKey: 'bulk-key' } },
+        { data: {}, options: { uniquenessKey: 'bulk-key' } },
+        { data: {}, options: { runAt: new Date('invalid') } },
+        { data: {} },
+      ]);
+
+      expect(results.map(result => result.success)).toEqual([true, false, false, true]);
+      expect(results[1].skipped).toBe(true);
+      expect(results[2].error).toBe('Invalid runAt "Invalid Date"');
+    });
+
+    it('should fall back to single writes to find the tasks that cannot be stored', async () => {
+      jest.spyOn(storageAdapter, 'saveTasks').mockRejectedValueOnce(new Error('bulk write failed'));
+      const saveTask = storageAdapter.saveTask.bind(storageAdapter);
+      jest.spyOn(storageAdapter, 'saveTask').mockImplementation(async (task, options) => {
+        if (task.data.broken) throw new Error('document too large');
+        await saveTask(task, options);
+      });
+
+      const results = await producerService.addTasks('test-queue', [{ data: {} }, { data: { broken: true } }, { data: {} }]);
+
+      expect(results.map(result => result.success)).toEqual([true, false, true]);
+      expect(results[1].error).toBe('document too large');
+      expect(await storageAdapter.getTask(results[1].taskId)).toBeNull();
+    });
+
+    it('should dispatch at most the given number of tasks at once', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      jest.spyOn(producerService.getTransport(), 'dispatch').mockImplementation(async () => {
+        maxInFlight = Math.max(maxInFlight, ++inFlight);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        inFlight--;
+        return 'cloud-task-name';
+      });
+
+      const tasks = Array.from({ length: 6 }, (_, n) => ({ data: { n } }));
+      const results = await producerService.addTasks('test-queue', tasks, { concurrency: 2 });
+
+      expect(results.every(result => result.success)).toBe(true);
+      expect(maxInFlight).toBe(2);
+    });
+  });
+
+  describe('cloud task names', () => {
+    const getCreateTask = () => (producerService.getTransport() as CloudTasksTransport).getClient().createTask as unknown as jest.Mock;
+    const getCreatedNames = () => getCreateTask().mock.calls.map(([request]) => request.task.name);
+
+    it('should name cloud tasks after the task ID and store the name', async () => {
+      const result = await producerService.addTask('test-queue', { test: 'data' });
+
+      expect(getCreatedNames()).toEqual([`projects/test-project/locations/us-central1/queues/test-queue/tasks/${result.taskId}`]);
+      expect((await storageAdapter.getTask(result.taskId))?.cloudTaskName).toBe('test-task');
+    });
+
+    it('should give redispatched tasks a numbered name', async () => {
+      const result = await producerService.addTask('test-queue', { test: 'data' });
+      await storageAdapter.updateTaskStatus(result.taskId, TaskStatus.FAILED);
+
+      await producerService.retryTask(result.taskId);
+
+      expect(getCreatedNames()[1]).toBe(`projects/test-project/locations/us-central1/queues/test-queue/tasks/${result.taskId}-1`);
+    });
+
+    it('should name cloud tasks after a sanitized uniqueness key when configured', async () => {
+      await producerService.addTask('named-queue', {}, { uniquenessKey: 'user:42' });
+      await producerService.addTask('named-queue', {});
+
+      const [keyName, idName] = getCreatedNames();
+      expect(keyName).toMatch(/\/queues\/named-queue\/tasks\/user_42-[0-9a-f]{16}$/);
+      expect(idName).toMatch(/\/queues\/named-queue\/tasks\/[0-9a-f-]{36}$/);
+    });
+
+    it('should deduplicate tasks that already exist in Cloud Tasks', async () => {
+      getCreateTask().mockRejectedValueOnce(Object.assign(new Error('6 ALREADY_EXISTS'), { code: 6 }));
+
+      const result = await producerService.addTask('named-queue', {}, { uniquenessKey: 'report' });
+
+      expect(result.success).toBe(true);
+      expect(result.deduplicated).toBe(true);
+      expect(result.error).toBeUndefined();
+      expect(await storageAdapter.getTasks({ queueName: 'named-queue' })).toHaveLength(0);
+      expect(await storageAdapter.isUniquenessKeyActive('report')).toBe(false);
+    });
+
+    it('should count batch members that already exist in Cloud Tasks as completed', async () => {
+      getCreateTask().mockRejectedValueOnce(Object.assign(new Error('6 ALREADY_EXISTS'), { code: 6 }));
+
+      const batch = await producerService.addBatch('named-queue', [{ data: {}, options: { uniquenessKey: 'report' } }]);
+
+      expect(batch.results[0].deduplicated).toBe(true);
+      expect(await storageAdapter.getBatchProgress(batch.batchId)).toEqual(
+        expect.objectContaining({ total: 1, completed: 1, failed: 0 }),
+      );
+    });
   });
 
   describe('task serialization', () => {
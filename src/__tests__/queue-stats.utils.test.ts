@@ -0,0 +1,89 @@
+import {
+  buildQueueStats,
+  calculatePercentile,
+  createStatusCounts,
+  getPercentileRank,
+  getTaskDuration,
+} from '../utils/queue-stats.utils';
+import { TaskStatus } from '../interfaces/storage-adapter.interface';
+
+describe('queue stats utils', () => {
+  describe('calculatePercentile', () => {
+    it('should use the nearest-rank method', () => {
+      const values = Array.from({ length: 20 }, (_, i) => i + 1);
+
+      expect(calculatePercentile(values, 95)).toBe(19);
+      expect(calculatePercentile(values, 50)).toBe(10);
+      expect(calculatePercentile([42], 95)).toBe(42);
+    });
+
+    it('should return null without values', () => {
+      expect(calculatePercentile([], 95)).toBeNull();
+    });
+
+    it('should rank percentiles by the nearest-rank method', () => {
+      expect(getPercentileRank(20, 95)).toBe(19);
+      expect(getPercentileRank(1, 95)).toBe(1);
+      expect(getPercentileRank(3, 0)).toBe(1);
+    });
+  });
+
+  describe('getTaskDuration', () => {
+    it('should measure from activation when available', () => {
+      expect(getTaskDuration({
+        createdAt: new Date(1000),
+        activeAt: new Date(3000),
+        completedAt: new Date(4500),
+      })).toBe(1500);
+    });
+
+    it('should fall back to creation time and ignore unfinished tasks', () => {
+      expect(getTaskDuration({ createdAt: new Date(1000), completedAt: new Date(2000) })).toBe(1000);
+      expect(getTaskDuration({ createdAt: new Date(1000) })).toBeNull();
+    });
+  });
+
+  describe('buildQueueStats', () => {
+    it('should derive totals, durations and throughput', () => {
+      const counts = createStatusCounts();
+      counts[TaskStatus.IDLE] = 2;
+      counts[TaskStatus.COMPLETED] = 3;
+
+      const stats = buildQueueStats({
+        queueName: 'stats-queue',
+        counts,
+        paused: false,
+        oldestWaitingAt: new Date(40000),
+        durations: [100, 200, 300],
+        completed: 3,
+        failed: 1,
+        windowMs: 120000,
+        now: 100000,
+      });
+
+      expect(stats.total).toBe(5);
+      expect(stats.oldestWaitingAge).toBe(60000);
+      expect(stats.averageDuration).toBe(200);
+      expect(stats.p95Duration).toBe(300);
+      expect(stats.completedPerMinute).toBe(1.5);
+      expect(stats.failedPerMinute).toBe(0.5);
+    });
+
+    it('should keep durations aggregated by the adapter', () => {
+      const stats = buildQueueStats({
+        queueName: 'stats-queue',
+        counts: createStatusCounts(),
+        paused: false,
+        averageDuration: 250,
+        p95Duration: null,
+        completed: 0,
+        failed: 0,
+        windowMs: 60000,
+        now: 100000,
+      });
+
+      expect(stats.averageDuration).toBe(250);
+      expect(stats.p95Duration).toBeNull();
+    });
+  });
+});
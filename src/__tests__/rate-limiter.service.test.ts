@@ -1,4 +1,4 @@
-import { RateLimiterService } from '../services/rate-limiter.service';
+import { MAX_SLOT_SEARCH_WINDOWS, RateLimiterService } from '../services/rate-limiter.service';
 import { MemoryStorageAdapter } from '../adapters/memory-storage.adapter';
 
 describe('RateLimiterService', () => {
@@ -119,6 +119,27 @@ describe('RateLimiterService', () => {
     });
   });
 
+  describe('algorithms', () => {
+    it('should count requests with the configured algorithm', async () => {
+      const options = { maxRequests: 2, windowMs: 60000, algorithm: 'sliding-log' as const };
+
+      await rateLimiterService.checkRateLimit('log-key', options);
+      await rateLimiterService.checkRateLimit('log-key', options);
+      const result = await rateLimiterService.checkRateLimit('log-key', options);
+
+      expect(result.allowed).toBe(false);
+      expect(result.resetTime).toBeGreaterThan(59000);
+    });
+
+    it('should report the bucket size as the limit of a token bucket', async () => {
+      const options = { maxRequests: 1, windowMs: 60000, algorithm: 'token-bucket' as const, burst: 3 };
+
+      const result = await rateLimiterService.checkRateLimit('bucket-key', options);
+
+      expect(result).toMatchObject({ allowed: true, count: 1, limit: 3, remaining: 2 });
+    });
+  });
+
   describe('rate limit reset', () => {
     it('should reset rate limit', async () => {
       const options = {
@@ -306,6 +327,67 @@ describe('RateLimiterService', () => {
     });
   });
 
+  describe('slot reservation', () => {
+    const options = { maxRequests: 2, windowMs: 60000 };
+    // Well inside a window, so the test doesn't depend on when it runs
+    const now = 1_700_000_010_000;
+    const windowStart = Math.floor(now / options.windowMs) * options.windowMs;
+
+    beforeEach(() => {
+      jest.spyOn(Date, 'now').mockReturnValue(now);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should hand out the slots of each window before moving to the next', async () => {
+      const otherService = new RateLimiterService(storageAdapter);
+      const slots = [
+        await rateLimiterService.reserveSlot('slot-key', options),
+        await otherService.reserveSlot('slot-key', options),
+        await rateLimiterService.reserveSlot('slot-key', options),
+        await otherService.reserveSlot('slot-key', options),
+        await rateLimiterService.reserveSlot('slot-key', options),
+      ];
+
+      expect(slots).toEqual([
+        now,
+        now,
+        windowStart + options.windowMs,
+        windowStart + options.windowMs,
+        windowStart + 2 * options.windowMs,
+      ]);
+    });
+
+    it('should reserve from the given time onwards', async () => {
+      const later = now + 10 * options.windowMs;
+
+      expect(await rateLimiterService.reserveSlot('slot-key', options, later)).toBe(later);
+    });
+
+    it('should give up after a bounded number of full windows', async () => {
+      const increment = jest.spyOn(storageAdapter, 'incrementRateLimit')
+        .mockImplementation(async (_key, windowMs) => ({ allowed: false, count: 2, resetTime: new Date(now + windowMs) }));
+
+      await expect(rateLimiterService.reserveSlot('slot-key', options)).rejects.toMatchObject({ name: 'RateLimitError' });
+      expect(increment).toHaveBeenCalledTimes(MAX_SLOT_SEARCH_WINDOWS);
+    });
+
+    it('should skip to the window in which a full window resets', async () => {
+      jest.spyOn(storageAdapter, 'incrementRateLimit')
+        .mockResolvedValueOnce({ allowed: false, count: 2, resetTime: new Date(windowStart + 3 * options.windowMs) });
+
+      expect(await rateLimiterService.reserveSlot('slot-key', options)).toBe(windowStart + 3 * options.windowMs);
+    });
+
+    it('should pass storage errors on', async () => {
+      jest.spyOn(storageAdapter, 'incrementRateLimit').mockRejectedValueOnce(new Error('Storage unavailable'));
+
+      await expect(rateLimiterService.reserveSlot('slot-key', options)).rejects.toThrow('Storage unavailable');
+    });
+  });
+
   describe('storage adapter integration', () => {
     it('should work with different storage adapters', async () => {
       // This test verifies that the service works with the storage adapter interface
@@ -0,0 +1,131 @@
+import { RepeatableService } from '../services/repeatable.service';
+import { ProducerService } from '../services/producer.service';
+import { MemoryStorageAdapter } from '../adapters/memory-storage.adapter';
+import { CloudTaskMQConfig } from '../interfaces/config.interface';
+import { TaskStatus } from '../interfaces/storage-adapter.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+
+describe('RepeatableService', () => {
+  let storageAdapter: MemoryStorageAdapter;
+  let transport: jest.Mocked<ITaskTransport>;
+  let config: CloudTaskMQConfig;
+  let service: RepeatableService;
+
+  const makeDue = async (key: string) => {
+    const repeatable = await storageAdapter.getRepeatable(key);
+    await storageAdapter.saveRepeatable({ ...repeatable!, nextRunAt: new Date(Date.now() - 1000) });
+  };
+
+  beforeEach(async () => {
+    config = {
+      projectId: 'test-project',
+      location: 'us-central1',
+      storageAdapter: 'memory',
+      queues: [{
+        name: 'repeat-queue',
+        path: 'projects/test-project/locations/us-central1/queues/repeat-queue',
+      }],
+      repeatable: { checkIntervalMs: 1000 },
+    };
+
+    storageAdapter = new MemoryStorageAdapter();
+    await storageAdapter.initialize();
+
+    transport = {
+      initialize: jest.fn(),
+      dispatch: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn(),
+    };
+    const producerService = new ProducerService(config, storageAdapter, transport);
+    service = new RepeatableService(config, storageAdapter, producerService);
+  });
+
+  afterEach(async () => {
+    service.stop();
+    await storageAdapter.close();
+  });
+
+  it('should schedule the first occurrence of a cron expression', async () => {
+    const repeatable = await service.addRepeatable('repeat-queue', { report: true }, { cron: '0 * * * *' }, { taskName: 'report' });
+
+    expect(repeatable.key).toBe('repeat-queue:report:0 * * * *');
+    expect(repeatable.count).toBe(0);
+    expect(repeatable.nextRunAt!.getUTCMinutes()).toBe(0);
+    expect(repeatable.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(await service.getRepeatables('repeat-queue')).toHaveLength(1);
+  });
+
+  it('should add a task for a due occurrence and advance the schedule', async () => {
+    const repeatable = await service.addRepeatable('repeat-queue', { n: 1 }, { every: 60 });
+    await makeDue(repeatable.key);
+
+    const results = await service.processDueRepeatables();
+
+    expect(results).toHaveLength(1);
+    const task = await storageAdapter.getTask(results[0].taskId);
+    expect(task?.status).toBe(TaskStatus.IDLE);
+    expect(task?.data).toEqual({ n: 1 });
+    expect(task?.options?.repeatKey).toBe(repeatable.key);
+
+    const advanced = await storageAdapter.getRepeatable(repeatable.key);
+    expect(advanced?.count).toBe(1);
+    expect(advanced?.nextRunAt!.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should add each occurrence once across instances', async () => {
+    const producerService = new ProducerService(config, storageAdapter, transport);
+    const otherInstance = new RepeatableService(config, storageAdapter, producerService);
+    const repeatable = await service.addRepeatable('repeat-queue', {}, { every: 60 });
+    await makeDue(repeatable.key);
+
+    const results = await Promise.all([service.processDueRepeatables(), otherInstance.processDueRepeatables()]);
+
+    expect(results.flat()).toHaveLength(1);
+  });
+
+  it('should stop scheduling once the limit is reached', async () => {
+    const repeatable = await service.addRepeatable('repeat-queue', {}, { every: 60, limit: 1 });
+    await makeDue(repeatable.key);
+
+    await service.processDueRepeatables();
+
+    const finished = await storageAdapter.getRepeatable(repeatable.key);
+    expect(finished?.count).toBe(1);
+    expect(finished?.nextRunAt).toBeUndefined();
+    expect(await service.processDueRepeatables()).toEqual([]);
+  });
+
+  it('should keep progress when an unchanged schedule is registered again', async () => {
+    const repeatable = await service.addRepeatable('repeat-queue', { v: 1 }, { every: 60, key: 'sync' });
+    await makeDue(repeatable.key);
+    await service.processDueRepeatables();
+
+    const registered = await service.addRepeatable('repeat-queue', { v: 2 }, { every: 60, key: 'sync' });
+
+    expect(registered.count).toBe(1);
+    expect(registered.data).toEqual({ v: 2 });
+  });
+
+  it('should not schedule occurrences after the end date', async () => {
+    const repeatable = await service.addRepeatable('repeat-queue', {}, {
+      every: 60,
+      endDate: new Date(Date.now() + 30 * 1000),
+    });
+
+    expect(repeatable.nextRunAt).toBeUndefined();
+  });
+
+  it('should reject invalid schedules', async () => {
+    await expect(service.addRepeatable('repeat-queue', {}, {})).rejects.toThrow('either a cron expression or an interval');
+    await expect(service.addRepeatable('repeat-queue', {}, { cron: '* *' })).rejects.toThrow('Invalid cron expression');
+    await expect(service.addRepeatable('repeat-queue', {}, { every: 60, timezone: 'Nowhere' })).rejects.toThrow('Invalid timezone');
+    await expect(service.addRepeatable('missing-queue', {}, { every: 60 })).rejects.toThrow('not found');
+  });
+
+  it('should remove repeatable tasks', async () => {
+    const repeatable = await service.addRepeatable('repeat-queue', {}, { every: 60 });
+
+    expect(await service.removeRepeatable(repeatable.key)).toBe(true);
+    expect(await service.getRepeatables()).toEqual([]);
+  });
+});
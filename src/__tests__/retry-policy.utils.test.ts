@@ -0,0 +1,55 @@
+import { calculateRetryDelay } from '../utils/retry-policy.utils';
+
+describe('calculateRetryDelay', () => {
+  it('should return a constant delay for fixed policies', () => {
+    const policy = { type: 'fixed' as const, delay: 5 };
+
+    expect(calculateRetryDelay(policy, 1)).toBe(5000);
+    expect(calculateRetryDelay(policy, 4)).toBe(5000);
+  });
+
+  it('should grow linearly and respect maxDelay', () => {
+    const policy = { type: 'linear' as const, delay: 2, maxDelay: 5 };
+
+    expect(calculateRetryDelay(policy, 1)).toBe(2000);
+    expect(calculateRetryDelay(policy, 2)).toBe(4000);
+    expect(calculateRetryDelay(policy, 3)).toBe(5000);
+  });
+
+  it('should grow exponentially and respect maxDelay', () => {
+    const policy = { type: 'exponential' as const, delay: 1, maxDelay: 10 };
+
+    expect(calculateRetryDelay(policy, 1)).toBe(1000);
+    expect(calculateRetryDelay(policy, 2)).toBe(2000);
+    expect(calculateRetryDelay(policy, 3)).toBe(4000);
+    expect(calculateRetryDelay(policy, 5)).toBe(10000);
+  });
+
+  it('should support a custom growth factor', () => {
+    const policy = { type: 'exponential' as const, delay: 1, factor: 3 };
+
+    expect(calculateRetryDelay(policy, 3)).toBe(9000);
+  });
+
+  it('should apply jitter within bounds', () => {
+    const policy = { type: 'exponential' as const, delay: 10, jitter: 0.5 };
+
+    for (let i = 0; i < 20; i++) {
+      const delay = calculateRetryDelay(policy, 1);
+      expect(delay).toBeGreaterThanOrEqual(5000);
+      expect(delay).toBeLessThanOrEqual(10000);
+    }
+  });
+
+  it('should delegate to custom policies', () => {
+    const calculate = jest.fn().mockReturnValue(7);
+    const error = new Error('boom');
+
+    expect(calculateRetryDelay({ type: 'custom', calculate }, 2, error)).toBe(7000);
+    expect(calculate).toHaveBeenCalledWith(2, error);
+  });
+
+  it('should never return a negative delay', () => {
+    expect(calculateRetryDelay({ type: 'custom', calculate: () => -5 }, 1)).toBe(0);
+  });
+});
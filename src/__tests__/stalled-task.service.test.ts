@@ -0,0 +1,149 @@
+import { StalledTaskService } from '../services/stalled-task.service';
+import { ProducerService } from '../services/producer.service';
+import { MemoryStorageAdapter } from '../adapters/memory-storage.adapter';
+import { CloudTaskMQConfig } from '../interfaces/config.interface';
+import { ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+
+describe('StalledTaskService', () => {
+  let storageAdapter: MemoryStorageAdapter;
+  let transport: jest.Mocked<ITaskTransport>;
+  let config: CloudTaskMQConfig;
+  let service: StalledTaskService;
+
+  const saveActiveTask = async (id: string, overrides: Partial<ITask> = {}) => {
+    await storageAdapter.saveTask({
+      id,
+      queueName: 'stall-queue',
+      data: { id },
+      status: TaskStatus.ACTIVE,
+      attempts: 0,
+      maxAttempts: 3,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      activeAt: new Date(),
+      lockExpiresAt: new Date(Date.now() - 1000),
+      ...overrides,
+    });
+  };
+
+  beforeEach(async () => {
+    config = {
+      projectId: 'test-project',
+      location: 'us-central1',
+      storageAdapter: 'memory',
+      queues: [{
+        name: 'stall-queue',
+        path: 'projects/test-project/locations/us-central1/queues/stall-queue',
+      }],
+      stalledTasks: { maxStalledCount: 1 },
+    };
+
+    storageAdapter = new MemoryStorageAdapter();
+    await storageAdapter.initialize();
+
+    transport = {
+      initialize: jest.fn(),
+      dispatch: jest.fn().mockResolvedValue(undefined),
+      close: jest.fn(),
+    };
+    const producerService = new ProducerService(config, storageAdapter, transport);
+    service = new StalledTaskService(config, storageAdapter, producerService);
+  });
+
+  afterEach(async () => {
+    service.stop();
+    await storageAdapter.close();
+  });
+
+  it('should look for stalled tasks queue by queue through the status index', async () => {
+    const getTasks = jest.spyOn(storageAdapter, 'getTasks');
+    await saveActiveTask('stalled-1');
+
+    await service.checkStalledTasks();
+
+    expect(getTasks).toHaveBeenCalledTimes(1);
+    expect(getTasks).toHaveBeenCalledWith({ queueName: 'stall-queue', status: TaskStatus.ACTIVE });
+  });
+
+  it('should re-queue active tasks whose lock expired', async () => {
+    const events: any[] = [];
+    service.on('taskStalled', event => events.push(event));
+    await saveActiveTask('stalled-1');
+
+    const stalled = await service.checkStalledTasks();
+
+    expect(stalled.map(task => task.id)).toEqual(['stalled-1']);
+    const task = await storageAdapter.getTask('stalled-1');
+    expect(task?.status).toBe(TaskStatus.IDLE);
+    expect(task?.stalledCount).toBe(1);
+    expect(task?.lockExpiresAt).toBeUndefined();
+    expect(transport.dispatch).toHaveBeenCalledWith(
+      config.queues[0],
+      expect.objectContaining({ id: 'stalled-1', status: TaskStatus.IDLE }),
+    );
+    expect(events[0]).toEqual(expect.objectContaining({
+      taskId: 'stalled-1',
+      stalledCount: 1,
+      action: 'requeued',
+    }));
+  });
+
+  it('should fail tasks that stalled more than maxStalledCount times', async () => {
+    const events: any[] = [];
+    service.on('taskStalled', event => events.push(event));
+    await saveActiveTask('stalled-2', { stalledCount: 1 });
+
+    await service.checkStalledTasks();
+
+    const task = await storageAdapter.getTask('stalled-2');
+    expect(task?.status).toBe(TaskStatus.FAILED);
+    expect(task?.stalledCount).toBe(2);
+    expect(task?.error?.reason).toBe('stalled');
+    expect(task?.errorHistory?.[0].reason).toBe('stalled');
+    expect(transport.dispatch).not.toHaveBeenCalled();
+    expect(events[0].action).toBe('failed');
+  });
+
+  it('should leave tasks with a live lock or without a lock alone', async () => {
+    await saveActiveTask('running-1', { lockExpiresAt: new Date(Date.now() + 60000) });
+    await saveActiveTask('legacy-1', { lockExpiresAt: undefined });
+
+    expect(await service.checkStalledTasks()).toEqual([]);
+    expect((await storageAdapter.getTask('running-1'))?.status).toBe(TaskStatus.ACTIVE);
+    expect((await storageAdapter.getTask('legacy-1'))?.status).toBe(TaskStatus.ACTIVE);
+  });
+
+  it('should release the concurrency leases held by the stalled run', async () => {
+    await storageAdapter.acquireConcurrencyLease('queue:stall-queue', 'stalled-3', 1, 60000);
+    await saveActiveTask('stalled-3');
+
+    await service.checkStalledTasks();
+
+    expect(await storageAdapter.acquireConcurrencyLease('queue:stall-queue', 'other', 1, 60000)).toBe(true);
+  });
+
+  it('should release handler leases under the keys stored when the run was claimed', async () => {
+    // A task without a handler of its name runs on the default handler, whose lease key differs
+    const handlerKey = 'handler:stall-queue:default';
+    await storageAdapter.acquireConcurrencyLease(handlerKey, 'stalled-4', 1, 60000);
+    await saveActiveTask('stalled-4', { options: { taskName: 'unknown' }, concurrencyKeys: [handlerKey] });
+
+    await service.checkStalledTasks();
+
+    expect(await storageAdapter.acquireConcurrencyLease(handlerKey, 'other', 1, 60000)).toBe(true);
+    expect((await storageAdapter.getTask('stalled-4'))?.concurrencyKeys).toBeUndefined();
+  });
+
+  it('should hold re-queued tasks of paused queues', async () => {
+    await storageAdapter.setQueuePaused('stall-queue', true);
+    await saveActiveTask('stalled-4');
+
+    await service.checkStalledTasks();
+
+    const task = await storageAdapter.getTask('stalled-4');
+    expect(task?.status).toBe(TaskStatus.IDLE);
+    expect(task?.heldAt).toBeInstanceOf(Date);
+    expect(transport.dispatch).not.toHaveBeenCalled();
+  });
+});
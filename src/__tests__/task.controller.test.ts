@@ -0,0 +1,52 @@
+import { TaskController } from '../controllers/task.controller';
+import { CloudTaskMQ } from '../cloud-taskmq';
+import {
+  createConcurrencyLimitError,
+  createQueuePausedError,
+  createTaskNotDueError,
+} from '../utils/delivery-errors.utils';
+import { createRateLimitError } from '../utils/rate-limit.utils';
+
+describe('TaskController', () => {
+  let processTask: jest.Mock;
+  let controller: TaskController;
+
+  const deliver = async () => {
+    const res: any = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    await controller.processTask({ body: { taskId: 'task-1', queueName: 'queue' }, headers: {} } as any, res);
+    return res.status.mock.calls[0][0];
+  };
+
+  beforeEach(() => {
+    processTask = jest.fn();
+    controller = new TaskController({ processTask } as unknown as CloudTaskMQ);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should map delivery errors to retryable status codes', async () => {
+    processTask.mockRejectedValueOnce(createConcurrencyLimitError('queue'));
+    expect(await deliver()).toBe(429);
+
+    processTask.mockRejectedValueOnce(createRateLimitError('Rate limit "api" exceeded', 1000));
+    expect(await deliver()).toBe(429);
+
+    processTask.mockRejectedValueOnce(createQueuePausedError('queue'));
+    expect(await deliver()).toBe(503);
+
+    processTask.mockRejectedValueOnce(createTaskNotDueError('task-1', new Date()));
+    expect(await deliver()).toBe(409);
+  });
+
+  it('should not judge handler errors by their message', async () => {
+    processTask.mockRejectedValueOnce(new Error('Upstream said: Concurrency limit reached'));
+
+    expect(await deliver()).toBe(500);
+  });
+});
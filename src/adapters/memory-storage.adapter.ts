@@ -1,4 +1,26 @@
-import { IStateStorageAdapter, ITask, TaskStatus, TaskQueryOptions } from '../interfaces/storage-adapter.interface';
+import {
+  IStateStorageAdapter,
+  ITask,
+  TaskStatus,
+  TaskQueryOptions,
+  IDeadLetterEntry,
+  DeadLetterQueryOptions,
+  QueueStats,
+  QueueStatsOptions,
+  BatchProgress,
+  IRepeatableTask,
+  StorageWriteOptions,
+} from '../interfaces/storage-adapter.interface';
+import { RateLimiterOptions } from '../interfaces/config.interface';
+import {
+  buildQueueStats,
+  createStatusCounts,
+  DEFAULT_QUEUE_STATS_WINDOW_MS,
+  getTaskDuration,
+} from '../utils/queue-stats.utils';
+import { compareTasks, toTaskSorts } from '../utils/task-sort.utils';
+import { DEFAULT_UNIQUENESS_TTL_SECONDS } from '../utils/uniqueness.utils';
+import { countRateLimitRequest, refundRateLimitRequest, RateLimitState } from '../utils/rate-limit.utils';
 
 /**
  * In-memory storage adapter for development and testing
@@ -6,17 +28,37 @@ import { IStateStorageAdapter, ITask, TaskStatus, TaskQueryOptions } from '../in
 export class MemoryStorageAdapter implements IStateStorageAdapter {
   private tasks: Map<string, ITask> = new Map();
   private uniquenessKeys: Map<string, { taskId: string; expiresAt: Date }> = new Map();
-  private rateLimit: Map<string, { count: number; resetTime: Date }> = new Map();
+  private rateLimit: Map<string, RateLimitState> = new Map();
   private rateLimitLocks: Map<string, Promise<{ allowed: boolean; count: number; resetTime: Date }>> = new Map();
+  private deadLetters: Map<string, IDeadLetterEntry> = new Map();
+  private pausedQueues: Set<string> = new Set();
+  private concurrencyLeases: Map<string, Map<string, number>> = new Map(); // key -> leaseId -> expiresAt
+  private pendingChildren: Map<string, Set<string>> = new Map(); // parentId -> pending child IDs
+  private batches: Map<string, { total: number; completed: Set<string>; failed: Set<string> }> = new Map();
+  private repeatables: Map<string, IRepeatableTask> = new Map();
 
   async initialize(): Promise<void> {
     // Memory storage doesn't need initialization
   }
 
-  async saveTask(task: ITask): Promise<void> {
+  async saveTask(task: ITask, options?: StorageWriteOptions): Promise<void> {
+    if (options?.session) {
+      throw new Error('MemoryStorageAdapter does not support sessions');
+    }
     this.tasks.set(task.id, { ...task });
   }
 
+  async saveTasks(tasks: ITask[], options?: StorageWriteOptions): Promise<void> {
+    if (options?.session) {
+      throw new Error('MemoryStorageAdapter does not support sessions');
+    }
+
+    // Written without yielding, so no other caller ever sees part of the batch
+    for (const task of tasks) {
+      this.tasks.set(task.id, { ...task });
+    }
+  }
+
   async getTask(taskId: string): Promise<ITask | null> {
     const task = this.tasks.get(taskId);
     return task ? { ...task } : null;
@@ -35,6 +77,49 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
     }
   }
 
+  async updateTask(taskId: string, updateData: Partial<ITask>): Promise<void> {
+    const task = this.tasks.get(taskId);
+    if (task) {
+      this.tasks.set(taskId, {
+        ...task,
+        updatedAt: new Date(),
+        ...updateData,
+      });
+    }
+  }
+
+  async transitionTask(
+    taskId: string,
+    fromStatuses: TaskStatus[],
+    toStatus: TaskStatus,
+    updateData?: Partial<ITask>,
+  ): Promise<ITask | null> {
+    // Checked and set without yielding, so concurrent callers can't both make the transition
+    const task = this.tasks.get(taskId);
+    if (!task || !fromStatuses.includes(task.status)) {
+      return null;
+    }
+
+    const updatedTask = {
+      ...task,
+      status: toStatus,
+      updatedAt: new Date(),
+      ...updateData,
+    };
+    this.tasks.set(taskId, updatedTask);
+    return { ...updatedTask };
+  }
+
+  async renewTaskLock(taskId: string, lockToken: string, lockExpiresAt: Date): Promise<boolean> {
+    const task = this.tasks.get(taskId);
+    if (!task || task.status !== TaskStatus.ACTIVE || task.lockToken !== lockToken) {
+      return false;
+    }
+
+    this.tasks.set(taskId, { ...task, lockExpiresAt });
+    return true;
+  }
+
   async deleteTask(taskId: string): Promise<boolean> {
     const existed = this.tasks.has(taskId);
     this.tasks.delete(taskId);
@@ -58,10 +143,29 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
       tasks = tasks.filter(task => task.chain?.id === options.chainId);
     }
 
+    if (options?.batchId) {
+      tasks = tasks.filter(task => task.batch?.id === options.batchId);
+    }
+
     if (options?.uniquenessKey) {
       tasks = tasks.filter(task => task.uniquenessKey === options.uniquenessKey);
     }
 
+    if (options?.marker) {
+      const marker = options.marker;
+      tasks = tasks.filter(task => task[marker] !== undefined);
+    }
+
+    if (options?.scheduledBefore) {
+      const scheduledBefore = options.scheduledBefore;
+      tasks = tasks.filter(task => task.scheduledFor && task.scheduledFor <= scheduledBefore);
+    }
+
+    if (options?.dueBefore) {
+      const dueBefore = options.dueBefore;
+      tasks = tasks.filter(task => !task.scheduledFor || task.scheduledFor <= dueBefore);
+    }
+
     if (options?.dateRange) {
       if (options.dateRange.from) {
         tasks = tasks.filter(task => task.createdAt >= options.dateRange!.from!);
@@ -73,14 +177,8 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
 
     // Apply sorting
     if (options?.sort) {
-      tasks.sort((a, b) => {
-        const aValue = (a as any)[options.sort!.field];
-        const bValue = (b as any)[options.sort!.field];
-        
-        if (aValue < bValue) return options.sort!.order === 'asc' ? -1 : 1;
-        if (aValue > bValue) return options.sort!.order === 'asc' ? 1 : -1;
-        return 0;
-      });
+      const sorts = toTaskSorts(options.sort);
+      tasks.sort((a, b) => compareTasks(a, b, sorts));
     }
 
     // Apply pagination
@@ -99,6 +197,52 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
     return tasks.length;
   }
 
+  async getQueueStats(queueName: string, options?: QueueStatsOptions): Promise<QueueStats> {
+    const windowMs = options?.windowMs ?? DEFAULT_QUEUE_STATS_WINDOW_MS;
+    const now = Date.now();
+    const since = now - windowMs;
+
+    const counts = createStatusCounts();
+    const durations: number[] = [];
+    let oldestWaitingAt: Date | undefined;
+    let completed = 0;
+    let failed = 0;
+
+    for (const task of this.tasks.values()) {
+      if (task.queueName !== queueName) continue;
+
+      counts[task.status]++;
+
+      if (task.status === TaskStatus.IDLE && (!oldestWaitingAt || task.createdAt < oldestWaitingAt)) {
+        oldestWaitingAt = task.createdAt;
+      }
+
+      if (task.status === TaskStatus.COMPLETED && task.completedAt && task.completedAt.getTime() >= since) {
+        completed++;
+        const duration = getTaskDuration(task);
+        if (duration !== null) {
+          durations.push(duration);
+        }
+      }
+
+      if (task.status === TaskStatus.FAILED && task.failedAt && task.failedAt.getTime() >= since) {
+        failed++;
+      }
+    }
+
+    return buildQueueStats({
+      queueName,
+      counts,
+      paused: this.pausedQueues.has(queueName),
+      oldestWaitingAt,
+      durations,
+      completed,
+      failed,
+      windowMs,
+      now,
+    });
+  }
+
   async hasUniquenessKey(key: string): Promise<boolean> {
     const entry = this.uniquenessKeys.get(key);
     if (!entry) return false;
@@ -111,14 +255,8 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
     return true;
   }
 
-  async addUniquenessKey(key: string, taskId: string, ttlSeconds: number = 86400): Promise<boolean> {
-    if (await this.hasUniquenessKey(key)) {
-      return false;
-    }
-    
-    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
-    this.uniquenessKeys.set(key, { taskId, expiresAt });
-    return true;
+  async addUniquenessKey(key: string, taskId: string, ttlSeconds: number = DEFAULT_UNIQUENESS_TTL_SECONDS): Promise<boolean> {
+    return (await this.acquireUniquenessKey(key, taskId, ttlSeconds)) === null;
   }
 
   async getUniquenessKeyInfo(key: string): Promise<{ taskId: string; expiresAt: Date } | null> {
@@ -133,7 +271,10 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
     return entry;
   }
 
-  async removeUniquenessKey(key: string): Promise<void> {
+  async removeUniquenessKey(key: string, taskId?: string): Promise<void> {
+    if (taskId && this.uniquenessKeys.get(key)?.taskId !== taskId) {
+      return;
+    }
     this.uniquenessKeys.delete(key);
   }
 
@@ -141,18 +282,39 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
     return this.hasUniquenessKey(key);
   }
 
-  async setUniquenessKeyActive(key: string, taskId: string, ttlSeconds: number = 86400): Promise<void> {
-    await this.addUniquenessKey(key, taskId, ttlSeconds);
+  async setUniquenessKeyActive(key: string, taskId: string, ttlSeconds: number = DEFAULT_UNIQUENESS_TTL_SECONDS): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    this.uniquenessKeys.set(key, { taskId, expiresAt });
   }
 
-  async incrementRateLimit(key: string, windowMs: number, maxRequests: number): Promise<{ allowed: boolean; count: number; resetTime: Date }> {
+  async acquireUniquenessKey(key: string, taskId: string, ttlSeconds: number, options?: StorageWriteOptions): Promise<string | null> {
+    if (options?.session) {
+      throw new Error('MemoryStorageAdapter does not support sessions');
+    }
+    // Checked and set without yielding, so concurrent callers can't both acquire the key
+    const entry = this.uniquenessKeys.get(key);
+    if (entry && entry.expiresAt >= new Date()) {
+      return entry.taskId;
+    }
+
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+    this.uniquenessKeys.set(key, { taskId, expiresAt });
+    return null;
+  }
+
+  async incrementRateLimit(
+    key: string,
+    windowMs: number,
+    maxRequests: number,
+    options?: Pick<RateLimiterOptions, 'algorithm' | 'burst'>,
+  ): Promise<{ allowed: boolean; count: number; resetTime: Date }> {
     // Wait for any existing operation to complete
     while (this.rateLimitLocks.has(key)) {
       await this.rateLimitLocks.get(key);
     }
 
     // Create and execute the operation
-    const operationPromise = this._doIncrementRateLimit(key, windowMs, maxRequests);
+    const operationPromise = this._doIncrementRateLimit(key, windowMs, maxRequests, options);
     this.rateLimitLocks.set(key, operationPromise);
 
     try {
@@ -163,15 +325,13 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
     }
   }
 
-  private async _doIncrementRateLimit(key: string, windowMs: number, maxRequests: number): Promise<{ allowed: boolean; count: number; resetTime: Date }> {
+  private async _doIncrementRateLimit(
+    key: string,
+    windowMs: number,
+    maxRequests: number,
+    options?: Pick<RateLimiterOptions, 'algorithm' | 'burst'>,
+  ): Promise<{ allowed: boolean; count: number; resetTime: Date }> {
     const now = Date.now();
-    let entry = this.rateLimit.get(key);
-
-    // Clean up expired entries
-    if (entry && entry.resetTime.getTime() <= now) {
-      this.rateLimit.delete(key);
-      entry = undefined;
-    }
 
     // Handle zero max requests case
     if (maxRequests <= 0) {
@@ -179,23 +339,16 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
       return { allowed: false, count: 0, resetTime };
     }
 
-    if (!entry) {
-      // Create new rate limit window
-      const resetTime = new Date(now + windowMs);
-      this.rateLimit.set(key, {
-        count: 1,
-        resetTime,
-      });
-      return { allowed: true, count: 1, resetTime };
-    }
-
-    // Check if we can increment
-    if (entry.count >= maxRequests) {
-      return { allowed: false, count: entry.count, resetTime: entry.resetTime };
+    // Drop expired keys, e.g. of slot reservation windows that ended, so they don't pile up
+    for (const [otherKey, entry] of this.rateLimit) {
+      if (entry.expiresAt <= now) {
+        this.rateLimit.delete(otherKey);
+      }
     }
 
-    entry.count++;
-    return { allowed: true, count: entry.count, resetTime: entry.resetTime };
+    const { allowed, state } = countRateLimitRequest(this.rateLimit.get(key), now, windowMs, maxRequests, options);
+    this.rateLimit.set(key, state);
+    return { allowed, count: state.count, resetTime: new Date(state.resetTime) };
   }
 
   async getRateLimit(key: string): Promise<{ count: number; resetTime: Date } | null> {
@@ -203,18 +356,188 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
     if (!entry) return null;
 
     // Check if expired
-    if (entry.resetTime < new Date()) {
+    if (entry.expiresAt <= Date.now()) {
       this.rateLimit.delete(key);
       return null;
     }
 
-    return { ...entry };
+    return { count: entry.count, resetTime: new Date(entry.resetTime) };
+  }
+
+  async refundRateLimit(key: string): Promise<void> {
+    const state = this.rateLimit.get(key);
+    if (state && state.expiresAt > Date.now()) {
+      this.rateLimit.set(key, refundRateLimitRequest(state));
+    }
   }
 
   async deleteRateLimit(key: string): Promise<void> {
     this.rateLimit.delete(key);
   }
 
+  async setQueuePaused(queueName: string, paused: boolean): Promise<void> {
+    if (paused) {
+      this.pausedQueues.add(queueName);
+    } else {
+      this.pausedQueues.delete(queueName);
+    }
+  }
+
+  async isQueuePaused(queueName: string): Promise<boolean> {
+    return this.pausedQueues.has(queueName);
+  }
+
+  async saveDeadLetter(entry: IDeadLetterEntry): Promise<void> {
+    this.deadLetters.set(entry.id, { ...entry });
+  }
+
+  async getDeadLetter(id: string): Promise<IDeadLetterEntry | null> {
+    const entry = this.deadLetters.get(id);
+    return entry ? { ...entry } : null;
+  }
+
+  async getDeadLetters(options?: DeadLetterQueryOptions): Promise<IDeadLetterEntry[]> {
+    let entries = Array.from(this.deadLetters.values())
+      .filter(entry => !options?.deadLetterQueue || entry.deadLetterQueue === options.deadLetterQueue)
+      .filter(entry => !options?.originalQueue || entry.originalQueue === options.originalQueue)
+      .filter(entry => !options?.olderThan || entry.failedAt < options.olderThan)
+      .sort((a, b) => a.failedAt.getTime() - b.failedAt.getTime());
+
+    if (options?.offset) {
+      entries = entries.slice(options.offset);
+    }
+    if (options?.limit) {
+      entries = entries.slice(0, options.limit);
+    }
+
+    return entries.map(entry => ({ ...entry }));
+  }
+
+  async deleteDeadLetter(id: string): Promise<boolean> {
+    return this.deadLetters.delete(id);
+  }
+
+  async purgeDeadLetters(options?: DeadLetterQueryOptions): Promise<number> {
+    const entries = await this.getDeadLetters({ ...options, limit: undefined, offset: undefined });
+    for (const entry of entries) {
+      this.deadLetters.delete(entry.id);
+    }
+    return entries.length;
+  }
+
+  async saveRepeatable(repeatable: IRepeatableTask): Promise<void> {
+    this.repeatables.set(repeatable.key, { ...repeatable });
+  }
+
+  async getRepeatable(key: string): Promise<IRepeatableTask | null> {
+    const repeatable = this.repeatables.get(key);
+    return repeatable ? { ...repeatable } : null;
+  }
+
+  async getRepeatables(queueName?: string): Promise<IRepeatableTask[]> {
+    return Array.from(this.repeatables.values())
+      .filter(repeatable => !queueName || repeatable.queueName === queueName)
+      .map(repeatable => ({ ...repeatable }));
+  }
+
+  async deleteRepeatable(key: string): Promise<boolean> {
+    return this.repeatables.delete(key);
+  }
+
+  async claimRepeatableRun(key: string, runAt: Date, updateData: Partial<IRepeatableTask>): Promise<boolean> {
+    const repeatable = this.repeatables.get(key);
+    if (!repeatable?.nextRunAt || repeatable.nextRunAt.getTime() !== runAt.getTime()) {
+      return false;
+    }
+
+    this.repeatables.set(key, { ...repeatable, ...updateData });
+    return true;
+  }
+
+  async acquireConcurrencyLease(key: string, leaseId: string, limit: number, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+    let leases = this.concurrencyLeases.get(key);
+    if (!leases) {
+      leases = new Map();
+      this.concurrencyLeases.set(key, leases);
+    }
+
+    for (const [id, expiresAt] of leases) {
+      if (expiresAt <= now) {
+        leases.delete(id);
+      }
+    }
+
+    if (!leases.has(leaseId) && leases.size >= limit) {
+      return false;
+    }
+
+    leases.set(leaseId, now + ttlMs);
+    return true;
+  }
+
+  async releaseConcurrencyLease(key: string, leaseId: string): Promise<void> {
+    const leases = this.concurrencyLeases.get(key);
+    if (!leases) return;
+
+    leases.delete(leaseId);
+    if (leases.size === 0) {
+      this.concurrencyLeases.delete(key);
+    }
+  }
+
+  async setPendingChildren(parentId: string, childIds: string[]): Promise<void> {
+    this.pendingChildren.set(parentId, new Set(childIds));
+  }
+
+  async removePendingChild(parentId: string, childId: string): Promise<number | null> {
+    const pending = this.pendingChildren.get(parentId);
+    if (!pending || !pending.delete(childId)) {
+      return null;
+    }
+
+    if (pending.size === 0) {
+      this.pendingChildren.delete(parentId);
+    }
+    return pending.size;
+  }
+
+  async clearPendingChildren(parentId: string): Promise<void> {
+    this.pendingChildren.delete(parentId);
+  }
+
+  async createBatch(batchId: string, total: number): Promise<void> {
+    this.batches.set(batchId, { total, completed: new Set(), failed: new Set() });
+  }
+
+  async recordBatchOutcome(
+    batchId: string,
+    taskId: string,
+    outcome: 'completed' | 'failed',
+  ): Promise<BatchProgress | null> {
+    const batch = this.batches.get(batchId);
+    if (!batch || batch.completed.has(taskId) || batch.failed.has(taskId)) {
+      return null;
+    }
+
+    batch[outcome].add(taskId);
+    return this.getBatchProgress(batchId);
+  }
+
+  async getBatchProgress(batchId: string): Promise<BatchProgress | null> {
+    const batch = this.batches.get(batchId);
+    if (!batch) {
+      return null;
+    }
+
+    return {
+      batchId,
+      total: batch.total,
+      completed: batch.completed.size,
+      failed: batch.failed.size,
+    };
+  }
+
   /**
    * Check if there are active tasks in chain
    */
@@ -303,7 +626,7 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
 
     // Clean up expired rate limits
     for (const [key, entry] of this.rateLimit.entries()) {
-      if (entry.resetTime < now) {
+      if (entry.expiresAt <= now.getTime()) {
         this.rateLimit.delete(key);
       }
     }
@@ -315,6 +638,12 @@ export class MemoryStorageAdapter implements IStateStorageAdapter {
     this.tasks.clear();
     this.uniquenessKeys.clear();
     this.rateLimit.clear();
+    this.deadLetters.clear();
+    this.pausedQueues.clear();
+    this.concurrencyLeases.clear();
+    this.pendingChildren.clear();
+    this.batches.clear();
+    this.repeatables.clear();
   }
 
   /**
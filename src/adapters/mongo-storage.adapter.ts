@@ -1,4 +1,27 @@
-import { IStateStorageAdapter, ITask, TaskStatus, TaskQueryOptions } from '../interfaces/storage-adapter.interface';
+import {
+  IStateStorageAdapter,
+  ITask,
+  TaskStatus,
+  TaskQueryOptions,
+  IDeadLetterEntry,
+  DeadLetterQueryOptions,
+  QueueStats,
+  QueueStatsOptions,
+  BatchProgress,
+  IRepeatableTask,
+  StorageWriteOptions,
+  TASK_MARKERS,
+} from '../interfaces/storage-adapter.interface';
+import { RateLimiterOptions } from '../interfaces/config.interface';
+import {
+  buildQueueStats,
+  createStatusCounts,
+  DEFAULT_QUEUE_STATS_WINDOW_MS,
+  getPercentileRank,
+} from '../utils/queue-stats.utils';
+import { toTaskSorts } from '../utils/task-sort.utils';
+import { DEFAULT_UNIQUENESS_TTL_SECONDS } from '../utils/uniqueness.utils';
+import { countRateLimitRequest, refundRateLimitRequest } from '../utils/rate-limit.utils';
 
 // Optional dependency - only imported if available
 let mongoose: any;
@@ -25,6 +48,12 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
   private TaskModel: any;
   private UniquenessModel: any;
   private RateLimitModel: any;
+  private DeadLetterModel: any;
+  private QueueStateModel: any;
+  private ConcurrencyModel: any;
+  private FlowModel: any;
+  private BatchModel: any;
+  private RepeatableModel: any;
   private collectionName: string;
 
   constructor(private options: MongoStorageOptions) {
@@ -46,15 +75,19 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
       status: { type: String, enum: Object.values(TaskStatus), required: true, index: true },
       createdAt: { type: Date, required: true, index: true },
       updatedAt: { type: Date, required: true },
+      activeAt: { type: Date },
       completedAt: { type: Date },
       failedAt: { type: Date },
+      cancelledAt: { type: Date },
       attempts: { type: Number, default: 0 },
       maxAttempts: { type: Number, default: 3 },
       error: {
         message: String,
         stack: String,
         timestamp: Date,
+        reason: String,
       },
+      errorHistory: [mongoose.Schema.Types.Mixed],
       progress: {
         percentage: Number,
         data: mongoose.Schema.Types.Mixed,
@@ -62,12 +95,36 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
       result: mongoose.Schema.Types.Mixed,
       delay: Number,
       scheduledFor: Date,
+      nextAttemptAt: Date,
+      cloudTaskName: String,
+      dispatchCount: Number,
+      heldAt: Date,
+      parkedAt: Date,
+      pendingDispatchAt: Date,
+      lockExpiresAt: Date,
+      lockToken: String,
+      concurrencyKeys: [String],
+      stalledCount: Number,
       chain: {
         id: { type: String, index: true },
         index: Number,
         total: Number,
+        onFailure: String,
+      },
+      previousResult: mongoose.Schema.Types.Mixed,
+      parent: {
+        id: { type: String, index: true },
+        queueName: String,
+        onFailure: String,
+      },
+      childIds: [String],
+      batch: {
+        id: { type: String, index: true },
+        total: Number,
+        callbackTaskId: String,
       },
       uniquenessKey: { type: String, index: true },
+      priority: { type: Number, default: 0 },
       options: mongoose.Schema.Types.Mixed,
     }, {
       _id: false,
@@ -86,7 +143,85 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
     const rateLimitSchema = new mongoose.Schema({
       _id: { type: String, required: true },
       count: { type: Number, required: true },
-      resetTime: { type: Date, required: true, index: { expireAfterSeconds: 0 } },
+      resetTime: { type: Date, required: true },
+      expiresAt: { type: Date, index: { expireAfterSeconds: 0 } },
+      state: { type: mongoose.Schema.Types.Mixed },
+      version: { type: Number },
+    }, {
+      _id: false,
+      timestamps: false,
+    });
+
+    const deadLetterSchema = new mongoose.Schema({
+      _id: { type: String, required: true },
+      deadLetterQueue: { type: String, required: true, index: true },
+      originalQueue: { type: String, required: true, index: true },
+      task: { type: mongoose.Schema.Types.Mixed, required: true },
+      errorHistory: [mongoose.Schema.Types.Mixed],
+      attempts: { type: Number, default: 0 },
+      failedAt: { type: Date, required: true, index: true },
+    }, {
+      _id: false,
+      timestamps: false,
+    });
+
+    const queueStateSchema = new mongoose.Schema({
+      _id: { type: String, required: true },
+      paused: { type: Boolean, default: false },
+      pausedAt: Date,
+    }, {
+      _id: false,
+      timestamps: false,
+    });
+
+    const concurrencySchema = new mongoose.Schema({
+      _id: { type: String, required: true },
+      leases: [{
+        _id: false,
+        id: String,
+        expiresAt: Date,
+      }],
+    }, {
+      _id: false,
+      timestamps: false,
+    });
+
+    const flowSchema = new mongoose.Schema({
+      _id: { type: String, required: true },
+      pending: [String],
+    }, {
+      _id: false,
+      timestamps: false,
+    });
+
+    const repeatableSchema = new mongoose.Schema({
+      _id: { type: String, required: true },
+      queueName: { type: String, required: true, index: true },
+      data: mongoose.Schema.Types.Mixed,
+      options: mongoose.Schema.Types.Mixed,
+      repeat: {
+        cron: String,
+        every: Number,
+        timezone: String,
+        startDate: Date,
+        endDate: Date,
+        limit: Number,
+      },
+      count: { type: Number, default: 0 },
+      nextRunAt: { type: Date, index: true },
+      lastRunAt: Date,
+      createdAt: { type: Date, required: true },
+      updatedAt: { type: Date, required: true },
+    }, {
+      _id: false,
+      timestamps: false,
+    });
+
+    const batchSchema = new mongoose.Schema({
+      _id: { type: String, required: true },
+      total: { type: Number, required: true },
+      completed: [String],
+      failed: [String],
     }, {
       _id: false,
       timestamps: false,
@@ -94,20 +229,62 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
 
     // Create indexes
     taskSchema.index({ queueName: 1, status: 1 });
+    taskSchema.index({ queueName: 1, status: 1, priority: -1, createdAt: 1 });
     taskSchema.index({ 'chain.id': 1, 'chain.index': 1 });
     taskSchema.index({ createdAt: 1 });
+    // Marked tasks are few, so each marker gets a partial index of just those
+    for (const marker of TASK_MARKERS) {
+      taskSchema.index({ queueName: 1, [marker]: 1 }, { partialFilterExpression: { [marker]: { $exists: true } } });
+    }
 
     this.TaskModel = this.connection.model('Task', taskSchema, this.collectionName);
     this.UniquenessModel = this.connection.model('Uniqueness', uniquenessSchema, `${this.collectionName}_uniqueness`);
     this.RateLimitModel = this.connection.model('RateLimit', rateLimitSchema, `${this.collectionName}_ratelimit`);
+    this.DeadLetterModel = this.connection.model('DeadLetter', deadLetterSchema, `${this.collectionName}_dead_letters`);
+    this.QueueStateModel = this.connection.model('QueueState', queueStateSchema, `${this.collectionName}_queues`);
+    this.ConcurrencyModel = this.connection.model('Concurrency', concurrencySchema, `${this.collectionName}_concurrency`);
+    this.FlowModel = this.connection.model('Flow', flowSchema, `${this.collectionName}_flows`);
+    this.BatchModel = this.connection.model('Batch', batchSchema, `${this.collectionName}_batches`);
+    this.RepeatableModel = this.connection.model('Repeatable', repeatableSchema, `${this.collectionName}_repeatables`);
+
+    await this.dropLegacyRateLimitIndex();
+  }
+
+  /**
+   * Drop the TTL index on resetTime created by earlier versions. Rate limit states now expire
+   * at expiresAt, and the old index would delete states that outlive their window too early.
+   */
+  private async dropLegacyRateLimitIndex(): Promise<void> {
+    try {
+      await this.RateLimitModel.collection.dropIndex('resetTime_1');
+    } catch (error: any) {
+      // 26 and 27: the collection or the index doesn't exist
+      if (error.code !== 26 && error.code !== 27) {
+        throw error;
+      }
+    }
   }
 
-  async saveTask(task: ITask): Promise<void> {
+  async saveTask(task: ITask, options?: StorageWriteOptions): Promise<void> {
     const doc = {
       _id: task.id,
       ...task,
     };
-    await this.TaskModel.findByIdAndUpdate(task.id, doc, { upsert: true });
+    // A session enlists the write in the caller's transaction
+    await this.TaskModel.findByIdAndUpdate(task.id, doc, {
+      upsert: true,
+      session: options?.session,
+    });
+  }
+
+  async saveTasks(tasks: ITask[], options?: StorageWriteOptions): Promise<void> {
+    if (tasks.length === 0) return;
+
+    // Unordered, so one failing document doesn't stop the others from being inserted
+    await this.TaskModel.insertMany(
+      tasks.map(task => ({ _id: task.id, ...task })),
+      { ordered: false, session: options?.session },
+    );
   }
 
   async getTask(taskId: string): Promise<ITask | null> {
@@ -122,12 +299,69 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
   }
 
   async updateTaskStatus(taskId: string, status: TaskStatus, updateData?: Partial<ITask>): Promise<void> {
-    const updateDoc = {
+    await this.TaskModel.findByIdAndUpdate(taskId, this.buildUpdate({
       status,
       updatedAt: new Date(),
       ...updateData,
+    }));
+  }
+
+  async updateTask(taskId: string, updateData: Partial<ITask>): Promise<void> {
+    await this.TaskModel.findByIdAndUpdate(taskId, this.buildUpdate({
+      updatedAt: new Date(),
+      ...updateData,
+    }));
+  }
+
+  async transitionTask(
+    taskId: string,
+    fromStatuses: TaskStatus[],
+    toStatus: TaskStatus,
+    updateData?: Partial<ITask>,
+  ): Promise<ITask | null> {
+    // The status filter makes the update fail for every caller but one
+    const doc = await this.TaskModel.findOneAndUpdate(
+      { _id: taskId, status: { $in: fromStatuses } },
+      this.buildUpdate({
+        status: toStatus,
+        updatedAt: new Date(),
+        ...updateData,
+      }),
+      { new: true, projection: { __v: 0 } },
+    ).lean();
+    if (!doc) return null;
+
+    const { _id, ...task } = doc;
+    return {
+      ...task,
+      id: _id,
     };
-    await this.TaskModel.findByIdAndUpdate(taskId, updateDoc);
+  }
+
+  async renewTaskLock(taskId: string, lockToken: string, lockExpiresAt: Date): Promise<boolean> {
+    const result = await this.TaskModel.updateOne(
+      { _id: taskId, status: TaskStatus.ACTIVE, lockToken },
+      { $set: { lockExpiresAt } },
+    );
+    return result.matchedCount > 0;
+  }
+
+  /**
+   * Build an update document, unsetting fields that are explicitly undefined
+   */
+  private buildUpdate(fields: Record<string, any>): any {
+    const $set: Record<string, any> = {};
+    const $unset: Record<string, ''> = {};
+
+    for (const [key, value] of Object.entries(fields)) {
+      if (value === undefined) {
+        $unset[key] = '';
+      } else {
+        $set[key] = value;
+      }
+    }
+
+    return Object.keys($unset).length > 0 ? { $set, $unset } : { $set };
   }
 
   /**
@@ -158,10 +392,26 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
       query['chain.id'] = options.chainId;
     }
 
+    if (options?.batchId) {
+      query['batch.id'] = options.batchId;
+    }
+
     if (options?.uniquenessKey) {
       query.uniquenessKey = options.uniquenessKey;
     }
 
+    if (options?.marker) {
+      query[options.marker] = { $exists: true };
+    }
+
+    if (options?.scheduledBefore) {
+      query.scheduledFor = { $lte: options.scheduledBefore };
+    }
+
+    if (options?.dueBefore) {
+      query.$or = [{ scheduledFor: null }, { scheduledFor: { $lte: options.dueBefore } }];
+    }
+
     if (options?.dateRange) {
       const dateFilter: any = {};
       if (options.dateRange.from) {
@@ -179,8 +429,11 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
 
     // Apply sorting
     if (options?.sort) {
-      const sortOrder = options.sort.order === 'desc' ? -1 : 1;
-      mongoQuery = mongoQuery.sort({ [options.sort.field]: sortOrder });
+      const sortSpec: Record<string, 1 | -1> = {};
+      for (const sort of toTaskSorts(options.sort)) {
+        sortSpec[sort.field] = sort.order === 'desc' ? -1 : 1;
+      }
+      mongoQuery = mongoQuery.sort(sortSpec);
     }
 
     // Apply pagination
@@ -221,10 +474,26 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
       query['chain.id'] = options.chainId;
     }
 
+    if (options?.batchId) {
+      query['batch.id'] = options.batchId;
+    }
+
     if (options?.uniquenessKey) {
       query.uniquenessKey = options.uniquenessKey;
     }
 
+    if (options?.marker) {
+      query[options.marker] = { $exists: true };
+    }
+
+    if (options?.scheduledBefore) {
+      query.scheduledFor = { $lte: options.scheduledBefore };
+    }
+
+    if (options?.dueBefore) {
+      query.$or = [{ scheduledFor: null }, { scheduledFor: { $lte: options.dueBefore } }];
+    }
+
     if (options?.dateRange) {
       const dateFilter: any = {};
       if (options.dateRange.from) {
@@ -241,12 +510,83 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
     return await this.TaskModel.countDocuments(query);
   }
 
+  async getQueueStats(queueName: string, options?: QueueStatsOptions): Promise<QueueStats> {
+    const windowMs = options?.windowMs ?? DEFAULT_QUEUE_STATS_WINDOW_MS;
+    const now = Date.now();
+    const since = new Date(now - windowMs);
+    const completedDurations = [
+      { $match: { queueName, status: TaskStatus.COMPLETED, completedAt: { $gte: since } } },
+      {
+        $project: {
+          _id: 0,
+          duration: { $subtract: ['$completedAt', { $ifNull: ['$activeAt', '$createdAt'] }] },
+        },
+      },
+    ];
+
+    const [[result], paused] = await Promise.all([
+      this.TaskModel.aggregate([
+        { $match: { queueName } },
+        {
+          $facet: {
+            counts: [{ $group: { _id: '$status', count: { $sum: 1 } } }],
+            oldestWaiting: [
+              { $match: { status: TaskStatus.IDLE } },
+              { $group: { _id: null, createdAt: { $min: '$createdAt' } } },
+            ],
+            completed: [
+              ...completedDurations,
+              { $group: { _id: null, count: { $sum: 1 }, averageDuration: { $avg: '$duration' } } },
+            ],
+            failed: [
+              { $match: { status: TaskStatus.FAILED, failedAt: { $gte: since } } },
+              { $count: 'count' },
+            ],
+          },
+        },
+      ]),
+      this.isQueuePaused(queueName),
+    ]);
+
+    const counts = createStatusCounts();
+    for (const entry of result.counts) {
+      counts[entry._id as TaskStatus] = entry.count;
+    }
+
+    // The p95 is picked by its rank from the slowest end, so the server only keeps the slowest 5% sorted
+    const completed: number = result.completed[0]?.count ?? 0;
+    let p95Duration: number | null = null;
+    if (completed > 0) {
+      const [p95] = await this.TaskModel.aggregate([
+        ...completedDurations,
+        { $sort: { duration: -1 } },
+        { $skip: completed - getPercentileRank(completed, 95) },
+        { $limit: 1 },
+      ]).allowDiskUse(true);
+      p95Duration = p95?.duration ?? null;
+    }
+
+    return buildQueueStats({
+      queueName,
+      counts,
+      paused,
+      oldestWaitingAt: result.oldestWaiting[0]?.createdAt ?? null,
+      averageDuration: result.completed[0]?.averageDuration ?? null,
+      p95Duration,
+      completed,
+      failed: result.failed[0]?.count ?? 0,
+      windowMs,
+      now,
+    });
+  }
+
   async isUniquenessKeyActive(key: string): Promise<boolean> {
-    const doc = await this.UniquenessModel.findById(key).lean();
+    // Expired keys linger until MongoDB's TTL monitor removes them
+    const doc = await this.UniquenessModel.findOne({ _id: key, expiresAt: { $gt: new Date() } }).lean();
     return !!doc;
   }
 
-  async setUniquenessKeyActive(key: string, taskId: string, ttlSeconds: number = 86400): Promise<void> {
+  async setUniquenessKeyActive(key: string, taskId: string, ttlSeconds: number = DEFAULT_UNIQUENESS_TTL_SECONDS): Promise<void> {
     const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
     await this.UniquenessModel.findByIdAndUpdate(
       key,
@@ -255,13 +595,70 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
     );
   }
 
-  async removeUniquenessKey(key: string): Promise<void> {
-    await this.UniquenessModel.findByIdAndDelete(key);
+  async acquireUniquenessKey(key: string, taskId: string, ttlSeconds: number, options?: StorageWriteOptions): Promise<string | null> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlSeconds * 1000);
+
+    if (options?.session) {
+      return await this.acquireUniquenessKeyInSession(key, taskId, now, expiresAt, options.session);
+    }
+
+    // The unique _id makes the insert fail for every producer but one
+    try {
+      await this.UniquenessModel.create({ _id: key, taskId, expiresAt });
+      return null;
+    } catch (error: any) {
+      if (error.code !== 11000) {
+        throw error;
+      }
+    }
+
+    // Take over a key that expired but wasn't removed by the TTL monitor yet
+    const takenOver = await this.UniquenessModel.findOneAndUpdate(
+      { _id: key, expiresAt: { $lte: now } },
+      { $set: { taskId, expiresAt } },
+    ).lean();
+    if (takenOver) {
+      return null;
+    }
+
+    const holder = await this.UniquenessModel.findById(key).lean();
+    // Removed in the meantime, so try again
+    return holder ? holder.taskId : await this.acquireUniquenessKey(key, taskId, ttlSeconds);
+  }
+
+  /**
+   * Acquire a uniqueness key in the caller's transaction, so it is released if the transaction aborts.
+   * A failed insert would abort the transaction, so the holder is read first; concurrent writers
+   * of the key get a write conflict and their transaction is retried.
+   */
+  private async acquireUniquenessKeyInSession(
+    key: string,
+    taskId: string,
+    now: Date,
+    expiresAt: Date,
+    session: unknown,
+  ): Promise<string | null> {
+    const holder = await this.UniquenessModel.findById(key).session(session).lean();
+    if (holder && holder.expiresAt > now && holder.taskId !== taskId) {
+      return holder.taskId;
+    }
+
+    await this.UniquenessModel.updateOne(
+      { _id: key },
+      { $set: { taskId, expiresAt } },
+      { upsert: true, session },
+    );
+    return null;
+  }
+
+  async removeUniquenessKey(key: string, taskId?: string): Promise<void> {
+    await this.UniquenessModel.deleteOne(taskId ? { _id: key, taskId } : { _id: key });
   }
 
   async getRateLimit(key: string): Promise<{ count: number; resetTime: Date } | null> {
     const doc = await this.RateLimitModel.findById(key).lean();
-    if (!doc) return null;
+    if (!doc || (doc.expiresAt ?? doc.resetTime) <= new Date()) return null;
 
     return {
       count: doc.count,
@@ -269,60 +666,65 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
     };
   }
 
-  async incrementRateLimit(key: string, windowMs: number, maxRequests: number): Promise<{ allowed: boolean; count: number; resetTime: Date }> {
-    const now = new Date();
-    const resetTime = new Date(now.getTime() + windowMs);
+  async incrementRateLimit(
+    key: string,
+    windowMs: number,
+    maxRequests: number,
+    options?: Pick<RateLimiterOptions, 'algorithm' | 'burst'>,
+  ): Promise<{ allowed: boolean; count: number; resetTime: Date }> {
+    const now = Date.now();
 
     // Handle zero max requests case
     if (maxRequests <= 0) {
       return {
         allowed: false,
         count: 0,
-        resetTime,
+        resetTime: new Date(now + windowMs),
       };
     }
 
-    try {
-      // First, try to reset any expired windows
-      await this.RateLimitModel.updateMany(
-        { 
-          resetTime: { $lt: now }  // Window has expired
-        },
-        { 
-          count: 0,  // Reset count to 0
-          resetTime   // Update reset time
-        }
-      );
+    // Optimistic loop: the state is only written if no other request counted in the meantime.
+    // Storage errors are passed on, since a denial would look like a full window to the caller.
+    for (;;) {
+      const doc = await this.RateLimitModel.findById(key).lean();
+      const { allowed, state } = countRateLimitRequest(doc?.state, now, windowMs, maxRequests, options);
 
-      // Now try to atomically increment the counter
-      const result = await this.RateLimitModel.findOneAndUpdate(
-        { _id: key },
-        { 
-          $inc: { count: 1 },
-          $setOnInsert: { resetTime }
-        },
-        { 
-          upsert: true,
-          new: true,
-          setDefaultsOnInsert: true
+      try {
+        // Without a matching version the upsert inserts a duplicate _id, which fails
+        await this.RateLimitModel.findOneAndUpdate(
+          { _id: key, version: doc?.version ?? { $exists: false } },
+          {
+            $set: {
+              count: state.count,
+              resetTime: new Date(state.resetTime),
+              expiresAt: new Date(state.expiresAt),
+              state,
+              version: (doc?.version ?? 0) + 1,
+            },
+          },
+          { upsert: true },
+        );
+        return { allowed, count: state.count, resetTime: new Date(state.resetTime) };
+      } catch (error: any) {
+        if (error.code !== 11000) {
+          throw error;
         }
-      );
+      }
+    }
+  }
 
-      const allowed = result.count <= maxRequests;
+  async refundRateLimit(key: string): Promise<void> {
+    // Optimistic loop like incrementRateLimit, so no request counted in the meantime is lost
+    for (;;) {
+      const doc = await this.RateLimitModel.findById(key).lean();
+      if (!doc?.state || doc.state.expiresAt <= Date.now()) return;
 
-      return {
-        allowed,
-        count: result.count,
-        resetTime: result.resetTime,
-      };
-    } catch (error) {
-      console.error('Error in incrementRateLimit:', error);
-      // Fallback: deny the request on error
-      return {
-        allowed: false,
-        count: 0,
-        resetTime,
-      };
+      const state = refundRateLimitRequest(doc.state);
+      const result = await this.RateLimitModel.updateOne(
+        { _id: key, version: doc.version },
+        { $set: { count: state.count, state, version: doc.version + 1 } },
+      );
+      if (result.matchedCount > 0) return;
     }
   }
 
@@ -334,6 +736,226 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
     }
   }
 
+  async setQueuePaused(queueName: string, paused: boolean): Promise<void> {
+    await this.QueueStateModel.findByIdAndUpdate(
+      queueName,
+      paused ? { paused: true, pausedAt: new Date() } : { paused: false, $unset: { pausedAt: 1 } },
+      { upsert: true },
+    );
+  }
+
+  async isQueuePaused(queueName: string): Promise<boolean> {
+    const doc = await this.QueueStateModel.findById(queueName).lean();
+    return !!doc?.paused;
+  }
+
+  async acquireConcurrencyLease(key: string, leaseId: string, limit: number, ttlMs: number): Promise<boolean> {
+    if (limit <= 0) {
+      return false;
+    }
+
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + ttlMs);
+
+    // Drop expired leases and any previous lease with this ID
+    await this.ConcurrencyModel.updateOne(
+      { _id: key },
+      { $pull: { leases: { $or: [{ expiresAt: { $lte: now } }, { id: leaseId }] } } },
+    );
+
+    try {
+      // Only matches while fewer than `limit` leases are held; a full document makes the
+      // upsert collide on _id, which means the limit is reached
+      await this.ConcurrencyModel.findOneAndUpdate(
+        { _id: key, [`leases.${limit - 1}`]: { $exists: false } },
+        { $push: { leases: { id: leaseId, expiresAt } } },
+        { upsert: true },
+      );
+      return true;
+    } catch (error: any) {
+      if (error.code === 11000) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async releaseConcurrencyLease(key: string, leaseId: string): Promise<void> {
+    await this.ConcurrencyModel.updateOne({ _id: key }, { $pull: { leases: { id: leaseId } } });
+  }
+
+  async setPendingChildren(parentId: string, childIds: string[]): Promise<void> {
+    await this.FlowModel.findByIdAndUpdate(
+      parentId,
+      { _id: parentId, pending: childIds },
+      { upsert: true },
+    );
+  }
+
+  async removePendingChild(parentId: string, childId: string): Promise<number | null> {
+    // Only matches while the child is pending, so exactly one caller sees it settle
+    const doc = await this.FlowModel.findOneAndUpdate(
+      { _id: parentId, pending: childId },
+      { $pull: { pending: childId } },
+      { new: true },
+    ).lean();
+
+    return doc ? doc.pending.length : null;
+  }
+
+  async clearPendingChildren(parentId: string): Promise<void> {
+    await this.FlowModel.deleteOne({ _id: parentId });
+  }
+
+  async createBatch(batchId: string, total: number): Promise<void> {
+    await this.BatchModel.findByIdAndUpdate(
+      batchId,
+      { _id: batchId, total, completed: [], failed: [] },
+      { upsert: true },
+    );
+  }
+
+  async recordBatchOutcome(
+    batchId: string,
+    taskId: string,
+    outcome: 'completed' | 'failed',
+  ): Promise<BatchProgress | null> {
+    // Only matches while the member is uncounted, so exactly one caller counts it
+    const doc = await this.BatchModel.findOneAndUpdate(
+      { _id: batchId, completed: { $ne: taskId }, failed: { $ne: taskId } },
+      { $addToSet: { [outcome]: taskId } },
+      { new: true },
+    ).lean();
+
+    return doc ? this.toBatchProgress(doc) : null;
+  }
+
+  async getBatchProgress(batchId: string): Promise<BatchProgress | null> {
+    const doc = await this.BatchModel.findById(batchId).lean();
+    return doc ? this.toBatchProgress(doc) : null;
+  }
+
+  private toBatchProgress(doc: any): BatchProgress {
+    return {
+      batchId: doc._id,
+      total: doc.total,
+      completed: doc.completed.length,
+      failed: doc.failed.length,
+    };
+  }
+
+  async saveRepeatable(repeatable: IRepeatableTask): Promise<void> {
+    const { key, ...fields } = repeatable;
+    await this.RepeatableModel.findByIdAndUpdate(
+      key,
+      { _id: key, ...fields },
+      { upsert: true, overwrite: true },
+    );
+  }
+
+  async getRepeatable(key: string): Promise<IRepeatableTask | null> {
+    const doc = await this.RepeatableModel.findById(key).select('-__v').lean();
+    return doc ? this.toRepeatable(doc) : null;
+  }
+
+  async getRepeatables(queueName?: string): Promise<IRepeatableTask[]> {
+    const docs = await this.RepeatableModel.find(queueName ? { queueName } : {}).select('-__v').lean();
+    return docs.map((doc: any) => this.toRepeatable(doc));
+  }
+
+  async deleteRepeatable(key: string): Promise<boolean> {
+    const result = await this.RepeatableModel.deleteOne({ _id: key });
+    return result.deletedCount > 0;
+  }
+
+  async claimRepeatableRun(key: string, runAt: Date, updateData: Partial<IRepeatableTask>): Promise<boolean> {
+    // Only matches while the occurrence is unclaimed, so exactly one caller advances it
+    const result = await this.RepeatableModel.updateOne(
+      { _id: key, nextRunAt: runAt },
+      this.buildUpdate(updateData),
+    );
+    return result.matchedCount > 0;
+  }
+
+  private toRepeatable(doc: any): IRepeatableTask {
+    const { _id, ...repeatable } = doc;
+    return {
+      ...repeatable,
+      key: _id,
+    };
+  }
+
+  async saveDeadLetter(entry: IDeadLetterEntry): Promise<void> {
+    await this.DeadLetterModel.findByIdAndUpdate(
+      entry.id,
+      { _id: entry.id, ...entry },
+      { upsert: true }
+    );
+  }
+
+  async getDeadLetter(id: string): Promise<IDeadLetterEntry | null> {
+    const doc = await this.DeadLetterModel.findById(id).select('-__v').lean();
+    if (!doc) return null;
+
+    const { _id, ...entry } = doc;
+    return {
+      ...entry,
+      id: _id,
+    };
+  }
+
+  async getDeadLetters(options?: DeadLetterQueryOptions): Promise<IDeadLetterEntry[]> {
+    let mongoQuery = this.DeadLetterModel
+      .find(this.buildDeadLetterQuery(options))
+      .select('-__v')
+      .sort({ failedAt: 1 })
+      .lean();
+
+    if (options?.offset) {
+      mongoQuery = mongoQuery.skip(options.offset);
+    }
+    if (options?.limit) {
+      mongoQuery = mongoQuery.limit(options.limit);
+    }
+
+    const docs = await mongoQuery.exec();
+    return docs.map((doc: any) => {
+      const { _id, ...entry } = doc;
+      return {
+        ...entry,
+        id: _id,
+      };
+    });
+  }
+
+  async deleteDeadLetter(id: string): Promise<boolean> {
+    const result = await this.DeadLetterModel.deleteOne({ _id: id });
+    return result.deletedCount > 0;
+  }
+
+  async purgeDeadLetters(options?: DeadLetterQueryOptions): Promise<number> {
+    const result = await this.DeadLetterModel.deleteMany(this.buildDeadLetterQuery(options));
+    return result.deletedCount || 0;
+  }
+
+  private buildDeadLetterQuery(options?: DeadLetterQueryOptions): any {
+    const query: any = {};
+
+    if (options?.deadLetterQueue) {
+      query.deadLetterQueue = options.deadLetterQueue;
+    }
+
+    if (options?.originalQueue) {
+      query.originalQueue = options.originalQueue;
+    }
+
+    if (options?.olderThan) {
+      query.failedAt = { $lt: options.olderThan };
+    }
+
+    return query;
+  }
+
   async hasActiveTaskInChain(chainId: string): Promise<boolean> {
     const count = await this.TaskModel.countDocuments({
       'chain.id': chainId,
@@ -411,6 +1033,24 @@ export class MongoStorageAdapter implements IStateStorageAdapter {
     if (this.RateLimitModel) {
       await this.RateLimitModel.deleteMany({});
     }
+    if (this.DeadLetterModel) {
+      await this.DeadLetterModel.deleteMany({});
+    }
+    if (this.QueueStateModel) {
+      await this.QueueStateModel.deleteMany({});
+    }
+    if (this.ConcurrencyModel) {
+      await this.ConcurrencyModel.deleteMany({});
+    }
+    if (this.FlowModel) {
+      await this.FlowModel.deleteMany({});
+    }
+    if (this.BatchModel) {
+      await this.BatchModel.deleteMany({});
+    }
+    if (this.RepeatableModel) {
+      await this.RepeatableModel.deleteMany({});
+    }
   }
 
   /**
@@ -1,5 +1,158 @@
 import Redis from 'ioredis';
-import { IStateStorageAdapter, ITask, TaskStatus, TaskQueryOptions } from '../interfaces/storage-adapter.interface';
+import {
+  IStateStorageAdapter,
+  ITask,
+  TaskStatus,
+  TaskQueryOptions,
+  IDeadLetterEntry,
+  DeadLetterQueryOptions,
+  QueueStats,
+  QueueStatsOptions,
+  BatchProgress,
+  IRepeatableTask,
+  StorageWriteOptions,
+  TASK_MARKERS,
+  TaskMarker,
+} from '../interfaces/storage-adapter.interface';
+import { RateLimiterOptions } from '../interfaces/config.interface';
+import {
+  buildQueueStats,
+  createStatusCounts,
+  DEFAULT_QUEUE_STATS_WINDOW_MS,
+  getTaskDuration,
+} from '../utils/queue-stats.utils';
+import { compareTasks, toTaskSorts } from '../utils/task-sort.utils';
+import { DEFAULT_UNIQUENESS_TTL_SECONDS } from '../utils/uniqueness.utils';
+import { getRateLimitCapacity } from '../utils/rate-limit.utils';
+
+/**
+ * Count a request against a rate limit key, mirroring countRateLimitRequest. The state is a hash
+ * at KEYS[1]; the sliding log keeps request times in a sorted set at KEYS[2].
+ * ARGV: now, windowMs, maxRequests, algorithm, bucket capacity
+ */
+const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local maxRequests = tonumber(ARGV[3])
+local algorithm = ARGV[4]
+local state = redis.call('HMGET', KEYS[1], 'algorithm', 'count', 'expiresAt', 'windowStart', 'windowCount', 'previousCount', 'tokens', 'refilledAt')
+
+-- State counted with another algorithm can't be carried over
+local current = state[1] == algorithm
+if not current then
+  redis.call('DEL', KEYS[1], KEYS[2])
+end
+
+local allowed = 0
+local count = 0
+local resetTime = 0
+local expiresAt = tonumber(state[3]) or 0
+
+if algorithm == 'sliding-log' then
+  redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', now - windowMs)
+  count = redis.call('ZCARD', KEYS[2])
+  if count < maxRequests then
+    local sequence = redis.call('HINCRBY', KEYS[1], 'sequence', 1)
+    redis.call('ZADD', KEYS[2], now, now .. '-' .. sequence)
+    allowed = 1
+    count = count + 1
+    resetTime = now + windowMs
+    expiresAt = resetTime
+  else
+    resetTime = tonumber(redis.call('ZRANGE', KEYS[2], 0, 0, 'WITHSCORES')[2]) + windowMs
+  end
+  redis.call('PEXPIRE', KEYS[2], math.max(1, expiresAt - now))
+elseif algorithm == 'sliding-window' then
+  local windowStart = math.floor(now / windowMs) * windowMs
+  local windowCount = 0
+  local previousCount = 0
+  local storedStart = tonumber(state[4])
+  if current and storedStart == windowStart then
+    windowCount = tonumber(state[5])
+    previousCount = tonumber(state[6])
+  elseif current and storedStart == windowStart - windowMs then
+    previousCount = tonumber(state[5])
+  end
+
+  local estimate = previousCount * (1 - (now - windowStart) / windowMs) + windowCount
+  expiresAt = windowStart + 2 * windowMs
+  if estimate + 1 <= maxRequests then
+    windowCount = windowCount + 1
+    allowed = 1
+    count = math.ceil(estimate + 1)
+    resetTime = expiresAt
+  else
+    count = math.ceil(estimate)
+    local spare = maxRequests - 1 - windowCount
+    if spare >= 0 then
+      resetTime = windowStart + math.ceil(windowMs * (1 - spare / previousCount))
+    else
+      resetTime = windowStart + windowMs + math.ceil(windowMs * (1 - (maxRequests - 1) / windowCount))
+    end
+  end
+  redis.call('HSET', KEYS[1], 'windowStart', windowStart, 'windowCount', windowCount, 'previousCount', previousCount)
+elseif algorithm == 'token-bucket' then
+  local capacity = tonumber(ARGV[5])
+  local refillRate = maxRequests / windowMs
+  local tokens = capacity
+  if current then
+    tokens = math.min(capacity, tonumber(state[7]) + (now - tonumber(state[8])) * refillRate)
+  end
+  if tokens >= 1 then
+    tokens = tokens - 1
+    allowed = 1
+  end
+
+  count = math.ceil(capacity - tokens)
+  expiresAt = now + math.ceil((capacity - tokens) / refillRate)
+  if allowed == 1 then
+    resetTime = expiresAt
+  else
+    resetTime = now + math.ceil((1 - tokens) / refillRate)
+  end
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'refilledAt', now)
+else
+  if current and expiresAt > now then
+    count = tonumber(state[2])
+  else
+    expiresAt = now + windowMs
+  end
+  if count < maxRequests then
+    count = count + 1
+    allowed = 1
+  end
+  resetTime = expiresAt
+end
+
+redis.call('HSET', KEYS[1], 'algorithm', algorithm, 'count', count, 'resetTime', resetTime, 'expiresAt', expiresAt)
+redis.call('PEXPIRE', KEYS[1], math.max(1, expiresAt - now))
+return { allowed, count, resetTime }
+`;
+
+/**
+ * Give back the last request counted against a rate limit key, like refundRateLimitRequest
+ */
+const RATE_LIMIT_REFUND_SCRIPT = `
+local algorithm = redis.call('HGET', KEYS[1], 'algorithm')
+if not algorithm then
+  return 0
+end
+
+local count = math.max(0, (tonumber(redis.call('HGET', KEYS[1], 'count')) or 0) - 1)
+if algorithm == 'sliding-log' then
+  redis.call('ZPOPMAX', KEYS[2])
+  count = redis.call('ZCARD', KEYS[2])
+elseif algorithm == 'sliding-window' then
+  local windowCount = tonumber(redis.call('HGET', KEYS[1], 'windowCount')) or 0
+  redis.call('HSET', KEYS[1], 'windowCount', math.max(0, windowCount - 1))
+elseif algorithm == 'token-bucket' then
+  local tokens = tonumber(redis.call('HGET', KEYS[1], 'tokens')) or 0
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens + 1))
+end
+
+redis.call('HSET', KEYS[1], 'count', count)
+return 1
+`;
 
 /**
  * Redis storage adapter options
@@ -48,8 +201,12 @@ export class RedisStorageAdapter implements IStateStorageAdapter {
     return `${this.keyPrefix}unique:${key}`;
   }
 
+  /**
+   * Key of the state of a rate limit. The key is a hash tag, so the state and its request log
+   * (the same key suffixed with ':log') are in the same Redis Cluster slot.
+   */
   private getRateLimitKey(key: string): string {
-    return `${this.keyPrefix}rate:${key}`;
+    return `${this.keyPrefix}rate:{${key}}`;
   }
 
   private getQueueKey(queueName: string): string {
@@ -60,21 +217,106 @@ export class RedisStorageAdapter implements IStateStorageAdapter {
     return `${this.keyPrefix}chain:${chainId}`;
   }
 
-  async saveTask(task: ITask): Promise<void> {
-    const taskKey = this.getTaskKey(task.id);
-    const queueKey = this.getQueueKey(task.queueName);
-    const taskData = JSON.stringify(task);
+  private getDeadLetterKey(id: string): string {
+    return `${this.keyPrefix}dlq:entry:${id}`;
+  }
 
-    await Promise.all([
-      this.redis.set(taskKey, taskData),
-      this.redis.zadd(queueKey, Date.now(), task.id),
-    ]);
+  private getDeadLetterQueueKey(deadLetterQueue: string): string {
+    return `${this.keyPrefix}dlq:queue:${deadLetterQueue}`;
+  }
 
-    // Add to chain if applicable
-    if (task.chain) {
-      const chainKey = this.getChainKey(task.chain.id);
-      await this.redis.zadd(chainKey, task.chain.index, task.id);
+  private getQueueStatusKey(queueName: string, status: TaskStatus): string {
+    return `${this.keyPrefix}queue:${queueName}:status:${status}`;
+  }
+
+  /**
+   * Score of a task in its per-status set: finish time for finished tasks, creation time otherwise
+   */
+  private getStatusScore(task: ITask): number {
+    if (task.status === TaskStatus.COMPLETED && task.completedAt) {
+      return new Date(task.completedAt).getTime();
+    }
+    if (task.status === TaskStatus.FAILED && task.failedAt) {
+      return new Date(task.failedAt).getTime();
+    }
+    return new Date(task.createdAt).getTime();
+  }
+
+  private getQueueMarkerKey(queueName: string, marker: TaskMarker): string {
+    return `${this.keyPrefix}queue:${queueName}:marker:${marker}`;
+  }
+
+  /**
+   * Score of a task in the marker sets of its queue: the time it is scheduled for, 0 if none
+   */
+  private getMarkerScore(task: ITask): number {
+    return task.scheduledFor ? new Date(task.scheduledFor).getTime() : 0;
+  }
+
+  private getConcurrencyKey(key: string): string {
+    return `${this.keyPrefix}concurrency:${key}`;
+  }
+
+  private getPendingChildrenKey(parentId: string): string {
+    return `${this.keyPrefix}flow:${parentId}:pending`;
+  }
+
+  private getBatchKey(batchId: string): string {
+    return `${this.keyPrefix}batch:${batchId}`;
+  }
+
+  private getRepeatableKey(key: string): string {
+    return `${this.keyPrefix}repeat:${key}`;
+  }
+
+  private getRepeatableIndexKey(): string {
+    return `${this.keyPrefix}repeatables`;
+  }
+
+  private getPausedKey(queueName: string): string {
+    return `${this.keyPrefix}paused:${queueName}`;
+  }
+
+  async saveTask(task: ITask, options?: StorageWriteOptions): Promise<void> {
+    await this.saveTasks([task], options);
+  }
+
+  async saveTasks(tasks: ITask[], options?: StorageWriteOptions): Promise<void> {
+    if (options?.session) {
+      throw new Error('RedisStorageAdapter does not support sessions');
+    }
+    if (tasks.length === 0) return;
+
+    // All tasks are written in one transaction
+    const pipeline = this.redis.multi();
+    for (const task of tasks) {
+      pipeline
+        .set(this.getTaskKey(task.id), JSON.stringify(task))
+        .zadd(this.getQueueKey(task.queueName), Date.now(), task.id);
+
+      // Keep the task in exactly one per-status set of its queue
+      for (const status of Object.values(TaskStatus)) {
+        if (status !== task.status) {
+          pipeline.zrem(this.getQueueStatusKey(task.queueName, status), task.id);
+        }
+      }
+      pipeline.zadd(this.getQueueStatusKey(task.queueName, task.status), this.getStatusScore(task), task.id);
+
+      // Index marked tasks so they can be found without loading every task
+      for (const marker of TASK_MARKERS) {
+        if (task[marker] !== undefined) {
+          pipeline.zadd(this.getQueueMarkerKey(task.queueName, marker), this.getMarkerScore(task), task.id);
+        } else {
+          pipeline.zrem(this.getQueueMarkerKey(task.queueName, marker), task.id);
+        }
+      }
+
+      // Add to chain if applicable
+      if (task.chain) {
+        pipeline.zadd(this.getChainKey(task.chain.id), task.chain.index, task.id);
+      }
     }
+    await pipeline.exec();
   }
 
   private deserializeTask(taskData: string): ITask {
@@ -87,14 +329,41 @@ export class RedisStorageAdapter implements IStateStorageAdapter {
     if (task.updatedAt) {
       task.updatedAt = new Date(task.updatedAt);
     }
+    if (task.activeAt) {
+      task.activeAt = new Date(task.activeAt);
+    }
     if (task.completedAt) {
       task.completedAt = new Date(task.completedAt);
     }
     if (task.failedAt) {
       task.failedAt = new Date(task.failedAt);
     }
-    if (task.scheduledAt) {
-      task.scheduledAt = new Date(task.scheduledAt);
+    if (task.cancelledAt) {
+      task.cancelledAt = new Date(task.cancelledAt);
+    }
+    if (task.scheduledFor) {
+      task.scheduledFor = new Date(task.scheduledFor);
+    }
+    if (task.nextAttemptAt) {
+      task.nextAttemptAt = new Date(task.nextAttemptAt);
+    }
+    if (task.heldAt) {
+      task.heldAt = new Date(task.heldAt);
+    }
+    if (task.parkedAt) {
+      task.parkedAt = new Date(task.parkedAt);
+    }
+    if (task.pendingDispatchAt) {
+      task.pendingDispatchAt = new Date(task.pendingDispatchAt);
+    }
+    if (task.lockExpiresAt) {
+      task.lockExpiresAt = new Date(task.lockExpiresAt);
+    }
+    if (task.errorHistory) {
+      task.errorHistory = task.errorHistory.map((entry: any) => ({
+        ...entry,
+        timestamp: new Date(entry.timestamp),
+      }));
     }
     
     return task;
@@ -110,17 +379,99 @@ export class RedisStorageAdapter implements IStateStorageAdapter {
   }
 
   async updateTaskStatus(taskId: string, status: TaskStatus, updateData?: Partial<ITask>): Promise<void> {
-    const task = await this.getTask(taskId);
-    if (!task) return;
-
-    const updatedTask = {
+    await this.modifyTask(taskId, task => ({
       ...task,
       status,
       updatedAt: new Date(),
       ...updateData,
-    };
+    }));
+  }
+
+  async updateTask(taskId: string, updateData: Partial<ITask>): Promise<void> {
+    await this.modifyTask(taskId, task => ({
+      ...task,
+      updatedAt: new Date(),
+      ...updateData,
+    }));
+  }
+
+  async transitionTask(
+    taskId: string,
+    fromStatuses: TaskStatus[],
+    toStatus: TaskStatus,
+    updateData?: Partial<ITask>,
+  ): Promise<ITask | null> {
+    return await this.modifyTask(taskId, task => (fromStatuses.includes(task.status) ? {
+      ...task,
+      status: toStatus,
+      updatedAt: new Date(),
+      ...updateData,
+    } : null));
+  }
+
+  async renewTaskLock(taskId: string, lockToken: string, lockExpiresAt: Date): Promise<boolean> {
+    const renewed = await this.modifyTask(taskId, task => (
+      task.status === TaskStatus.ACTIVE && task.lockToken === lockToken ? { ...task, lockExpiresAt } : null
+    ));
+    return renewed !== null;
+  }
+
+  /**
+   * Read, modify and save a task without losing concurrent updates: the task is saved only
+   * if nobody changed it since it was read, and modified again from scratch otherwise
+   * @param modify Returns the updated task, or null to leave the task alone
+   * @returns The updated task, or null if the task is missing or was left alone
+   */
+  private async modifyTask(taskId: string, modify: (task: ITask) => ITask | null): Promise<ITask | null> {
+    const taskKey = this.getTaskKey(taskId);
+
+    for (;;) {
+      const taskData = await this.redis.get(taskKey);
+      if (!taskData) return null;
 
-    await this.saveTask(updatedTask);
+      const task = this.deserializeTask(taskData);
+      const updatedTask = modify(task);
+      if (!updatedTask) return null;
+
+      if (await this.replaceTask(taskData, task, updatedTask)) {
+        return updatedTask;
+      }
+    }
+  }
+
+  /**
+   * Save a task only while its stored data is unchanged since it was read,
+   * moving it between the per-status sets of its queue and updating its marker sets
+   * @returns Whether the task was saved
+   */
+  private async replaceTask(previousData: string, previous: ITask, task: ITask): Promise<boolean> {
+    const replaced = await this.redis.eval(
+      `if redis.call('get', KEYS[1]) ~= ARGV[1] then
+        return 0
+      end
+      redis.call('set', KEYS[1], ARGV[2])
+      redis.call('zrem', KEYS[2], ARGV[3])
+      redis.call('zadd', KEYS[3], ARGV[4], ARGV[3])
+      for i = 4, #KEYS do
+        if ARGV[i + 1] == '' then
+          redis.call('zrem', KEYS[i], ARGV[3])
+        else
+          redis.call('zadd', KEYS[i], ARGV[i + 1], ARGV[3])
+        end
+      end
+      return 1`,
+      3 + TASK_MARKERS.length,
+      this.getTaskKey(task.id),
+      this.getQueueStatusKey(previous.queueName, previous.status),
+      this.getQueueStatusKey(task.queueName, task.status),
+      ...TASK_MARKERS.map(marker => this.getQueueMarkerKey(task.queueName, marker)),
+      previousData,
+      JSON.stringify(task),
+      task.id,
+      this.getStatusScore(task),
+      ...TASK_MARKERS.map(marker => (task[marker] !== undefined ? this.getMarkerScore(task) : '')),
+    );
+    return replaced === 1;
   }
 
   async deleteTask(taskId: string): Promise<boolean> {
@@ -132,6 +483,10 @@ export class RedisStorageAdapter implements IStateStorageAdapter {
 
     const result = await this.redis.del(taskKey);
     await this.redis.zrem(queueKey, taskId);
+    await this.redis.zrem(this.getQueueStatusKey(task.queueName, task.status), taskId);
+    for (const marker of TASK_MARKERS) {
+      await this.redis.zrem(this.getQueueMarkerKey(task.queueName, marker), taskId);
+    }
 
     // Remove from chain if applicable
     if (task.chain) {
@@ -150,7 +505,19 @@ export class RedisStorageAdapter implements IStateStorageAdapter {
   async getTasks(options?: TaskQueryOptions): Promise<ITask[]> {
     let taskIds: string[] = [];
 
-    if (options?.queueName) {
+    if (options?.queueName && options.marker) {
+      // Marker sets are scored by the time tasks are scheduled for
+      const markerKey = this.getQueueMarkerKey(options.queueName, options.marker);
+      taskIds = options.scheduledBefore
+        ? await this.redis.zrangebyscore(markerKey, '-inf', options.scheduledBefore.getTime())
+        : await this.redis.zrange(markerKey, 0, -1);
+    } else if (options?.queueName && options.status) {
+      // Look the tasks up in the per-status sets of the queue
+      const statuses = Array.isArray(options.status) ? options.status : [options.status];
+      for (const status of statuses) {
+        taskIds.push(...await this.redis.zrange(this.getQueueStatusKey(options.queueName, status), 0, -1));
+      }
+    } else if (options?.queueName) {
       const queueKey = this.getQueueKey(options.queueName);
       taskIds = await this.redis.zrange(queueKey, 0, -1);
     } else {
@@ -191,10 +558,29 @@ export class RedisStorageAdapter implements IStateStorageAdapter {
       filteredTasks = filteredTasks.filter(task => task.chain?.id === options.chainId);
     }
 
+    if (options?.batchId) {
+      filteredTasks = filteredTasks.filter(task => task.batch?.id === options.batchId);
+    }
+
     if (options?.uniquenessKey) {
       filteredTasks = filteredTasks.filter(task => task.uniquenessKey === options.uniquenessKey);
     }
 
+    if (options?.marker) {
+      const marker = options.marker;
+      filteredTasks = filteredTasks.filter(task => task[marker] !== undefined);
+    }
+
+    if (options?.scheduledBefore) {
+      const scheduledBefore = options.scheduledBefore;
+      filteredTasks = filteredTasks.filter(task => task.scheduledFor && new Date(task.scheduledFor) <= scheduledBefore);
+    }
+
+    if (options?.dueBefore) {
+      const dueBefore = options.dueBefore;
+      filteredTasks = filteredTasks.filter(task => !task.scheduledFor || new Date(task.scheduledFor) <= dueBefore);
+    }
+
     if (options?.dateRange) {
       if (options.dateRange.from) {
         filteredTasks = filteredTasks.filter(task => new Date(task.createdAt) >= options.dateRange!.from!);
@@ -206,14 +592,8 @@ export class RedisStorageAdapter implements IStateStorageAdapter {
 
     // Apply sorting
     if (options?.sort) {
-      filteredTasks.sort((a, b) => {
-        const aValue = (a as any)[options.sort!.field];
-        const bValue = (b as any)[options.sort!.field];
-        
-        if (aValue < bValue) return options.sort!.order === 'asc' ? -1 : 1;
-        if (aValue > bValue) return options.sort!.order === 'asc' ? 1 : -1;
-        return 0;
-      });
+      const sorts = toTaskSorts(options.sort);
+      filteredTasks.sort((a, b) => compareTasks(a, b, sorts));
     }
 
     // Apply pagination
@@ -232,79 +612,482 @@ export class RedisStorageAdapter implements IStateStorageAdapter {
     return tasks.length;
   }
 
+  async getQueueStats(queueName: string, options?: QueueStatsOptions): Promise<QueueStats> {
+    const windowMs = options?.windowMs ?? DEFAULT_QUEUE_STATS_WINDOW_MS;
+    const now = Date.now();
+    const since = now - windowMs;
+
+    const statuses = Object.values(TaskStatus);
+    const completedKey = this.getQueueStatusKey(queueName, TaskStatus.COMPLETED);
+    const failedKey = this.getQueueStatusKey(queueName, TaskStatus.FAILED);
+
+    const [cardinalities, oldestWaiting, completedIds, failed, paused] = await Promise.all([
+      Promise.all(statuses.map(status => this.redis.zcard(this.getQueueStatusKey(queueName, status)))),
+      this.redis.zrange(this.getQueueStatusKey(queueName, TaskStatus.IDLE), 0, 0, 'WITHSCORES'),
+      this.redis.zrangebyscore(completedKey, since, '+inf'),
+      this.redis.zcount(failedKey, since, '+inf'),
+      this.isQueuePaused(queueName),
+    ]);
+
+    const counts = createStatusCounts();
+    statuses.forEach((status, index) => {
+      counts[status] = cardinalities[index];
+    });
+
+    // Durations are only needed for tasks completed within the window
+    const durations: number[] = [];
+    if (completedIds.length > 0) {
+      const taskData = await this.redis.mget(...completedIds.map(id => this.getTaskKey(id)));
+      for (const data of taskData) {
+        if (!data) continue;
+        const duration = getTaskDuration(this.deserializeTask(data));
+        if (duration !== null) {
+          durations.push(duration);
+        }
+      }
+    }
+
+    return buildQueueStats({
+      queueName,
+      counts,
+      paused,
+      oldestWaitingAt: oldestWaiting.length > 1 ? new Date(Number(oldestWaiting[1])) : null,
+      durations,
+      completed: completedIds.length,
+      failed,
+      windowMs,
+      now,
+    });
+  }
+
   async isUniquenessKeyActive(key: string): Promise<boolean> {
     const uniquenessKey = this.getUniquenessKey(key);
     const exists = await this.redis.exists(uniquenessKey);
     return exists === 1;
   }
 
-  async setUniquenessKeyActive(key: string, taskId: string, ttlSeconds: number = 86400): Promise<void> {
+  async setUniquenessKeyActive(key: string, taskId: string, ttlSeconds: number = DEFAULT_UNIQUENESS_TTL_SECONDS): Promise<void> {
     const uniquenessKey = this.getUniquenessKey(key);
     await this.redis.setex(uniquenessKey, ttlSeconds, taskId);
   }
 
-  async removeUniquenessKey(key: string): Promise<void> {
+  async acquireUniquenessKey(key: string, taskId: string, ttlSeconds: number, options?: StorageWriteOptions): Promise<string | null> {
+    if (options?.session) {
+      throw new Error('RedisStorageAdapter does not support sessions');
+    }
     const uniquenessKey = this.getUniquenessKey(key);
-    await this.redis.del(uniquenessKey);
+    // SET NX and reading the holder happen in one script, so the holder can't expire in between
+    const holder = await this.redis.eval(
+      `if redis.call('set', KEYS[1], ARGV[1], 'NX', 'EX', ARGV[2]) then
+        return false
+      end
+      return redis.call('get', KEYS[1])`,
+      1,
+      uniquenessKey,
+      taskId,
+      Math.max(1, Math.ceil(ttlSeconds)),
+    );
+    return (holder as string | null) ?? null;
+  }
+
+  async removeUniquenessKey(key: string, taskId?: string): Promise<void> {
+    const uniquenessKey = this.getUniquenessKey(key);
+    if (!taskId) {
+      await this.redis.del(uniquenessKey);
+      return;
+    }
+
+    await this.redis.eval(
+      `if redis.call('get', KEYS[1]) == ARGV[1] then
+        return redis.call('del', KEYS[1])
+      end
+      return 0`,
+      1,
+      uniquenessKey,
+      taskId,
+    );
   }
 
   async getRateLimit(key: string): Promise<{ count: number; resetTime: Date } | null> {
     const rateLimitKey = this.getRateLimitKey(key);
-    const result = await this.redis.hmget(rateLimitKey, 'count', 'resetTime');
+    const result = await this.redis.hmget(rateLimitKey, 'count', 'resetTime', 'expiresAt');
     
     if (!result[0] || !result[1]) return null;
 
-    const resetTime = new Date(parseInt(result[1]));
-    if (resetTime < new Date()) {
-      await this.redis.del(rateLimitKey);
+    const expiresAt = parseInt(result[2] ?? result[1]);
+    if (expiresAt <= Date.now()) {
+      await this.deleteRateLimit(key);
       return null;
     }
 
     return {
       count: parseInt(result[0]),
-      resetTime,
+      resetTime: new Date(parseInt(result[1])),
     };
   }
 
-  async incrementRateLimit(key: string, windowMs: number, maxRequests: number): Promise<{ allowed: boolean; count: number; resetTime: Date }> {
+  async incrementRateLimit(
+    key: string,
+    windowMs: number,
+    maxRequests: number,
+    options: Pick<RateLimiterOptions, 'algorithm' | 'burst'> = {},
+  ): Promise<{ allowed: boolean; count: number; resetTime: Date }> {
     const rateLimitKey = this.getRateLimitKey(key);
     const now = Date.now();
-    const resetTime = now + windowMs;
 
     // Handle zero max requests case
     if (maxRequests <= 0) {
       return {
         allowed: false,
         count: 0,
-        resetTime: new Date(resetTime),
+        resetTime: new Date(now + windowMs),
       };
     }
 
-    const pipeline = this.redis.pipeline();
-    pipeline.hincrby(rateLimitKey, 'count', 1);
-    pipeline.hsetnx(rateLimitKey, 'resetTime', resetTime);
-    pipeline.expire(rateLimitKey, Math.ceil(windowMs / 1000));
-    
-    const results = await pipeline.exec();
-    
-    if (results && results[0] && !results[0][0]) {
-      const count = results[0][1] as number;
-      const allowed = count <= maxRequests;
-      
-      return {
-        allowed,
-        count,
-        resetTime: new Date(resetTime),
-      };
-    }
+    const [allowed, count, resetTime] = await this.redis.eval(
+      RATE_LIMIT_SCRIPT,
+      2,
+      rateLimitKey,
+      `${rateLimitKey}:log`,
+      now,
+      windowMs,
+      maxRequests,
+      options.algorithm ?? 'fixed-window',
+      getRateLimitCapacity({ maxRequests, ...options }),
+    ) as [number, number, number];
 
     return {
-      allowed: false,
-      count: 0,
+      allowed: allowed === 1,
+      count,
       resetTime: new Date(resetTime),
     };
   }
 
+  async refundRateLimit(key: string): Promise<void> {
+    const rateLimitKey = this.getRateLimitKey(key);
+    await this.redis.eval(RATE_LIMIT_REFUND_SCRIPT, 2, rateLimitKey, `${rateLimitKey}:log`);
+  }
+
+  async deleteRateLimit(key: string): Promise<void> {
+    const rateLimitKey = this.getRateLimitKey(key);
+    await this.redis.del(rateLimitKey, `${rateLimitKey}:log`);
+  }
+
+  async acquireConcurrencyLease(key: string, leaseId: string, limit: number, ttlMs: number): Promise<boolean> {
+    const now = Date.now();
+
+    // Leases are members of a sorted set scored by expiry; prune, count and add atomically
+    const acquired = await this.redis.eval(
+      `
+      redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+      if redis.call('ZSCORE', KEYS[1], ARGV[3]) or redis.call('ZCARD', KEYS[1]) < tonumber(ARGV[2]) then
+        redis.call('ZADD', KEYS[1], ARGV[4], ARGV[3])
+        redis.call('PEXPIRE', KEYS[1], ARGV[5])
+        return 1
+      end
+      return 0
+      `,
+      1,
+      this.getConcurrencyKey(key),
+      now,
+      limit,
+      leaseId,
+      now + ttlMs,
+      ttlMs,
+    );
+
+    return acquired === 1;
+  }
+
+  async releaseConcurrencyLease(key: string, leaseId: string): Promise<void> {
+    await this.redis.zrem(this.getConcurrencyKey(key), leaseId);
+  }
+
+  async setPendingChildren(parentId: string, childIds: string[]): Promise<void> {
+    const pendingKey = this.getPendingChildrenKey(parentId);
+    const transaction = this.redis.multi().del(pendingKey);
+    if (childIds.length > 0) {
+      transaction.sadd(pendingKey, ...childIds);
+    }
+    await transaction.exec();
+  }
+
+  async removePendingChild(parentId: string, childId: string): Promise<number | null> {
+    // Remove and count atomically so exactly one caller sees the last child settle
+    const results = await this.redis
+      .multi()
+      .srem(this.getPendingChildrenKey(parentId), childId)
+      .scard(this.getPendingChildrenKey(parentId))
+      .exec();
+
+    const [[, removed], [, remaining]] = results as Array<[Error | null, number]>;
+    return removed === 1 ? remaining : null;
+  }
+
+  async clearPendingChildren(parentId: string): Promise<void> {
+    await this.redis.del(this.getPendingChildrenKey(parentId));
+  }
+
+  async createBatch(batchId: string, total: number): Promise<void> {
+    const batchKey = this.getBatchKey(batchId);
+    await this.redis
+      .multi()
+      .del(`${batchKey}:completed`, `${batchKey}:failed`)
+      .set(batchKey, total)
+      .exec();
+  }
+
+  async recordBatchOutcome(
+    batchId: string,
+    taskId: string,
+    outcome: 'completed' | 'failed',
+  ): Promise<BatchProgress | null> {
+    const batchKey = this.getBatchKey(batchId);
+
+    // Check, add and count atomically so exactly one caller counts each member
+    const counts = await this.redis.eval(
+      `
+      local total = redis.call('GET', KEYS[1])
+      if not total or redis.call('SISMEMBER', KEYS[2], ARGV[1]) == 1 or redis.call('SISMEMBER', KEYS[3], ARGV[1]) == 1 then
+        return nil
+      end
+      local target = KEYS[2]
+      if ARGV[2] == 'failed' then
+        target = KEYS[3]
+      end
+      redis.call('SADD', target, ARGV[1])
+      return { tonumber(total), redis.call('SCARD', KEYS[2]), redis.call('SCARD', KEYS[3]) }
+      `,
+      3,
+      batchKey,
+      `${batchKey}:completed`,
+      `${batchKey}:failed`,
+      taskId,
+      outcome,
+    ) as [number, number, number] | null;
+
+    if (!counts) {
+      return null;
+    }
+
+    const [total, completed, failed] = counts;
+    return { batchId, total, completed, failed };
+  }
+
+  async getBatchProgress(batchId: string): Promise<BatchProgress | null> {
+    const batchKey = this.getBatchKey(batchId);
+    const results = await this.redis
+      .multi()
+      .get(batchKey)
+      .scard(`${batchKey}:completed`)
+      .scard(`${batchKey}:failed`)
+      .exec();
+
+    const [[, total], [, completed], [, failed]] = results as Array<[Error | null, any]>;
+    if (total === null) {
+      return null;
+    }
+
+    return { batchId, total: Number(total), completed, failed };
+  }
+
+  private deserializeDeadLetter(entryData: string): IDeadLetterEntry {
+    const entry = JSON.parse(entryData);
+    entry.failedAt = new Date(entry.failedAt);
+    entry.task = this.deserializeTask(JSON.stringify(entry.task));
+    entry.errorHistory = (entry.errorHistory || []).map((error: any) => ({
+      ...error,
+      timestamp: new Date(error.timestamp),
+    }));
+    return entry;
+  }
+
+  async saveRepeatable(repeatable: IRepeatableTask): Promise<void> {
+    // The next run is kept in its own field so claims can compare it atomically
+    await this.redis
+      .multi()
+      .del(this.getRepeatableKey(repeatable.key))
+      .hset(this.getRepeatableKey(repeatable.key), {
+        json: JSON.stringify(repeatable),
+        nextRunAt: repeatable.nextRunAt ? String(repeatable.nextRunAt.getTime()) : '',
+      })
+      .sadd(this.getRepeatableIndexKey(), repeatable.key)
+      .exec();
+  }
+
+  async getRepeatable(key: string): Promise<IRepeatableTask | null> {
+    const repeatableData = await this.redis.hget(this.getRepeatableKey(key), 'json');
+    return repeatableData ? this.deserializeRepeatable(repeatableData) : null;
+  }
+
+  async getRepeatables(queueName?: string): Promise<IRepeatableTask[]> {
+    const keys = await this.redis.smembers(this.getRepeatableIndexKey());
+    if (keys.length === 0) return [];
+
+    const pipeline = this.redis.pipeline();
+    keys.forEach(key => pipeline.hget(this.getRepeatableKey(key), 'json'));
+    const results = await pipeline.exec();
+
+    const repeatables: IRepeatableTask[] = [];
+    if (results) {
+      for (const [error, result] of results) {
+        if (!error && result) {
+          try {
+            repeatables.push(this.deserializeRepeatable(result as string));
+          } catch (e) {
+            // Skip invalid JSON
+          }
+        }
+      }
+    }
+
+    return repeatables.filter(repeatable => !queueName || repeatable.queueName === queueName);
+  }
+
+  async deleteRepeatable(key: string): Promise<boolean> {
+    const results = await this.redis
+      .multi()
+      .del(this.getRepeatableKey(key))
+      .srem(this.getRepeatableIndexKey(), key)
+      .exec();
+
+    const [[, deleted]] = results as Array<[Error | null, number]>;
+    return deleted === 1;
+  }
+
+  async claimRepeatableRun(key: string, runAt: Date, updateData: Partial<IRepeatableTask>): Promise<boolean> {
+    const repeatable = await this.getRepeatable(key);
+    if (!repeatable?.nextRunAt || repeatable.nextRunAt.getTime() !== runAt.getTime()) {
+      return false;
+    }
+
+    const updated: IRepeatableTask = { ...repeatable, ...updateData };
+    const claimed = await this.redis.eval(
+      `
+      if redis.call('HGET', KEYS[1], 'nextRunAt') ~= ARGV[1] then
+        return 0
+      end
+      redis.call('HSET', KEYS[1], 'json', ARGV[2], 'nextRunAt', ARGV[3])
+      return 1
+      `,
+      1,
+      this.getRepeatableKey(key),
+      String(runAt.getTime()),
+      JSON.stringify(updated),
+      updated.nextRunAt ? String(updated.nextRunAt.getTime()) : '',
+    );
+
+    return claimed === 1;
+  }
+
+  private deserializeRepeatable(repeatableData: string): IRepeatableTask {
+    const repeatable = JSON.parse(repeatableData);
+    repeatable.createdAt = new Date(repeatable.createdAt);
+    repeatable.updatedAt = new Date(repeatable.updatedAt);
+    for (const field of ['nextRunAt', 'lastRunAt'] as const) {
+      if (repeatable[field]) {
+        repeatable[field] = new Date(repeatable[field]);
+      }
+    }
+    for (const field of ['startDate', 'endDate'] as const) {
+      if (repeatable.repeat[field]) {
+        repeatable.repeat[field] = new Date(repeatable.repeat[field]);
+      }
+    }
+    return repeatable;
+  }
+
+  async setQueuePaused(queueName: string, paused: boolean): Promise<void> {
+    const pausedKey = this.getPausedKey(queueName);
+    if (paused) {
+      await this.redis.set(pausedKey, new Date().toISOString());
+    } else {
+      await this.redis.del(pausedKey);
+    }
+  }
+
+  async isQueuePaused(queueName: string): Promise<boolean> {
+    const exists = await this.redis.exists(this.getPausedKey(queueName));
+    return exists === 1;
+  }
+
+  async saveDeadLetter(entry: IDeadLetterEntry): Promise<void> {
+    const pipeline = this.redis.pipeline();
+    pipeline.set(this.getDeadLetterKey(entry.id), JSON.stringify(entry));
+    pipeline.zadd(this.getDeadLetterQueueKey(entry.deadLetterQueue), entry.failedAt.getTime(), entry.id);
+    await pipeline.exec();
+  }
+
+  async getDeadLetter(id: string): Promise<IDeadLetterEntry | null> {
+    const entryData = await this.redis.get(this.getDeadLetterKey(id));
+    return entryData ? this.deserializeDeadLetter(entryData) : null;
+  }
+
+  async getDeadLetters(options?: DeadLetterQueryOptions): Promise<IDeadLetterEntry[]> {
+    let ids: string[];
+
+    if (options?.deadLetterQueue) {
+      const maxScore = options.olderThan ? `(${options.olderThan.getTime()}` : '+inf';
+      ids = await this.redis.zrangebyscore(this.getDeadLetterQueueKey(options.deadLetterQueue), '-inf', maxScore);
+    } else {
+      const entryKeys = await this.redis.keys(`${this.keyPrefix}dlq:entry:*`);
+      ids = entryKeys.map(key => key.replace(`${this.keyPrefix}dlq:entry:`, ''));
+    }
+
+    if (ids.length === 0) return [];
+
+    const pipeline = this.redis.pipeline();
+    ids.forEach(id => pipeline.get(this.getDeadLetterKey(id)));
+    const results = await pipeline.exec();
+
+    let entries: IDeadLetterEntry[] = [];
+    if (results) {
+      for (const [error, result] of results) {
+        if (!error && result) {
+          try {
+            entries.push(this.deserializeDeadLetter(result as string));
+          } catch (e) {
+            // Skip invalid JSON
+          }
+        }
+      }
+    }
+
+    entries = entries
+      .filter(entry => !options?.originalQueue || entry.originalQueue === options.originalQueue)
+      .filter(entry => !options?.olderThan || entry.failedAt < options.olderThan)
+      .sort((a, b) => a.failedAt.getTime() - b.failedAt.getTime());
+
+    if (options?.offset) {
+      entries = entries.slice(options.offset);
+    }
+    if (options?.limit) {
+      entries = entries.slice(0, options.limit);
+    }
+
+    return entries;
+  }
+
+  async deleteDeadLetter(id: string): Promise<boolean> {
+    const entry = await this.getDeadLetter(id);
+    if (!entry) return false;
+
+    const pipeline = this.redis.pipeline();
+    pipeline.del(this.getDeadLetterKey(id));
+    pipeline.zrem(this.getDeadLetterQueueKey(entry.deadLetterQueue), id);
+    await pipeline.exec();
+
+    return true;
+  }
+
+  async purgeDeadLetters(options?: DeadLetterQueryOptions): Promise<number> {
+    const entries = await this.getDeadLetters({ ...options, limit: undefined, offset: undefined });
+    for (const entry of entries) {
+      await this.deleteDeadLetter(entry.id);
+    }
+    return entries.length;
+  }
+
   async hasActiveTaskInChain(chainId: string): Promise<boolean> {
     const chainKey = this.getChainKey(chainId);
     const taskIds = await this.redis.zrange(chainKey, 0, -1);
@@ -1,11 +1,43 @@
-import { CloudTaskMQConfig, StorageOptions } from './interfaces/config.interface';
-import { IStateStorageAdapter } from './interfaces/storage-adapter.interface';
+import { CloudTaskMQConfig, QueuePauseOptions, StorageOptions } from './interfaces/config.interface';
+import {
+  IStateStorageAdapter,
+  IDeadLetterEntry,
+  DeadLetterQueryOptions,
+  QueueStats,
+  QueueStatsOptions,
+  ITask,
+  ChainFailureMode,
+  BatchProgress,
+  IRepeatableTask,
+} from './interfaces/storage-adapter.interface';
+import { ITaskTransport } from './interfaces/transport.interface';
+import {
+  AddBatchOptions,
+  AddBatchResult,
+  AddFlowResult,
+  AddTaskOptions,
+  AddTaskResult,
+  AddTasksOptions,
+  BatchTask,
+  FlowNode,
+  RepeatOptions,
+  TaskPayload,
+  TaskDelivery,
+} from './interfaces/task.interface';
 import { ProducerService } from './services/producer.service';
 import { ConsumerService } from './services/consumer.service';
 import { RateLimiterService } from './services/rate-limiter.service';
+import { DeadLetterService } from './services/dead-letter.service';
+import { StalledTaskService } from './services/stalled-task.service';
+import { RepeatableService } from './services/repeatable.service';
+import { DelayedTaskService } from './services/delayed-task.service';
+import { OutboxRelayService } from './services/outbox-relay.service';
 import { MemoryStorageAdapter } from './adapters/memory-storage.adapter';
 import { RedisStorageAdapter } from './adapters/redis-storage.adapter';
 import { MongoStorageAdapter } from './adapters/mongo-storage.adapter';
+import { CloudTasksTransport } from './transports/cloud-tasks.transport';
+import { LocalTransport } from './transports/local.transport';
+import { HttpTransport } from './transports/http.transport';
 import { EventEmitter } from 'events';
 
 /**
@@ -16,21 +48,42 @@ export class CloudTaskMQ extends EventEmitter {
   private producerService: ProducerService;
   private consumerService: ConsumerService;
   private rateLimiterService: RateLimiterService;
+  private deadLetterService: DeadLetterService;
+  private stalledTaskService: StalledTaskService;
+  private repeatableService: RepeatableService;
+  private delayedTaskService: DelayedTaskService;
+  private outboxRelayService: OutboxRelayService;
+  private transport: ITaskTransport;
   private initialized = false;
 
   constructor(private readonly config: CloudTaskMQConfig) {
     super();
     this.storageAdapter = this.createStorageAdapter();
-    this.producerService = new ProducerService(config, this.storageAdapter);
     this.consumerService = new ConsumerService(config, this.storageAdapter);
+    this.transport = this.createTransport();
+    this.consumerService.setTransport(this.transport);
+    this.producerService = new ProducerService(config, this.storageAdapter, this.transport);
     this.rateLimiterService = new RateLimiterService(this.storageAdapter);
+    this.deadLetterService = new DeadLetterService(this.storageAdapter, this.producerService);
+    this.stalledTaskService = new StalledTaskService(config, this.storageAdapter, this.producerService);
+    this.repeatableService = new RepeatableService(config, this.storageAdapter, this.producerService);
+    this.delayedTaskService = new DelayedTaskService(config, this.storageAdapter, this.producerService);
+    this.outboxRelayService = new OutboxRelayService(config, this.storageAdapter, this.producerService);
 
     // Forward events
     this.producerService.on('taskAdded', (event) => this.emit('taskAdded', event));
+    this.producerService.on('batchCompleted', (event) => this.emit('batchCompleted', event));
     this.consumerService.on('taskActive', (event) => this.emit('taskActive', event));
     this.consumerService.on('taskCompleted', (event) => this.emit('taskCompleted', event));
     this.consumerService.on('taskFailed', (event) => this.emit('taskFailed', event));
     this.consumerService.on('taskProgress', (event) => this.emit('taskProgress', event));
+    this.consumerService.on('taskRetrying', (event) => this.emit('taskRetrying', event));
+    this.consumerService.on('taskRateLimited', (event) => this.emit('taskRateLimited', event));
+    this.consumerService.on('taskDeadLettered', (event) => this.emit('taskDeadLettered', event));
+    this.consumerService.on('chainFailed', (event) => this.emit('chainFailed', event));
+    this.consumerService.on('batchCompleted', (event) => this.emit('batchCompleted', event));
+    this.stalledTaskService.on('taskStalled', (event) => this.emit('taskStalled', event));
+    this.stalledTaskService.on('batchCompleted', (event) => this.emit('batchCompleted', event));
   }
 
   /**
@@ -45,6 +98,10 @@ export class CloudTaskMQ extends EventEmitter {
       await this.storageAdapter.initialize();
       await this.producerService.initialize();
       await this.consumerService.initialize();
+      this.stalledTaskService.start();
+      this.repeatableService.start();
+      this.delayedTaskService.start();
+      this.outboxRelayService.start();
       
       this.initialized = true;
       this.emit('initialized');
@@ -82,6 +139,13 @@ export class CloudTaskMQ extends EventEmitter {
     return this.storageAdapter;
   }
 
+  /**
+   * Get the transport used to deliver tasks
+   */
+  getTransport(): ITaskTransport {
+    return this.transport;
+  }
+
   /**
    * Register a processor
    */
@@ -89,25 +153,23 @@ export class CloudTaskMQ extends EventEmitter {
     if (!this.initialized) {
       throw new Error('CloudTaskMQ must be initialized before registering processors');
     }
-    this.consumerService.registerProcessor(processor);
+    const registration = this.consumerService.registerProcessor(processor);
+
+    // Schedules declared with @Process({ repeat }) are stored in the background
+    this.repeatableService.registerProcessor(registration).catch(error => {
+      console.error(`Failed to register repeatable tasks of queue "${registration.queueName}":`, error);
+    });
   }
 
   /**
    * Process a task (called by HTTP endpoints)
+   * @param delivery Delivery details from the Cloud Tasks request headers
    */
-  async processTask(payload: {
-    taskId: string;
-    queueName: string;
-    data: any;
-    attempts: number;
-    maxAttempts: number;
-    chain?: { id: string; index: number; total: number };
-    uniquenessKey?: string;
-  }): Promise<any> {
+  async processTask(payload: TaskPayload, delivery?: TaskDelivery): Promise<any> {
     if (!this.initialized) {
       throw new Error('CloudTaskMQ must be initialized before processing tasks');
     }
-    return await this.consumerService.processTask(payload);
+    return await this.consumerService.processTask(payload, delivery);
   }
 
   /**
@@ -125,12 +187,26 @@ export class CloudTaskMQ extends EventEmitter {
   }
 
   /**
-   * Add a chain of tasks
+   * Add many tasks to a queue at once, with bulk storage writes and parallel dispatch
+   */
+  async addTasks<T = any>(
+    queueName: string,
+    tasks: Array<BatchTask<T>>,
+    bulkOptions?: AddTasksOptions,
+  ): Promise<AddTaskResult[]> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before adding tasks');
+    }
+    return await this.producerService.addTasks(queueName, tasks, bulkOptions);
+  }
+
+  /**
+   * Add a chain of tasks that run one after another
    */
   async addChain<T = any>(
     queueName: string,
     tasks: Array<{ data: T; options?: import('./interfaces/task.interface').AddTaskOptions }>,
-    chainOptions?: { id?: string; waitForPrevious?: boolean },
+    chainOptions?: { id?: string; waitForPrevious?: boolean; onFailure?: ChainFailureMode },
   ): Promise<import('./interfaces/task.interface').AddTaskResult[]> {
     if (!this.initialized) {
       throw new Error('CloudTaskMQ must be initialized before adding task chains');
@@ -138,6 +214,145 @@ export class CloudTaskMQ extends EventEmitter {
     return await this.producerService.addChain(queueName, tasks, chainOptions);
   }
 
+  /**
+   * Add a flow of tasks where every task waits for its children
+   */
+  async addFlow<T = any>(flow: FlowNode<T>): Promise<AddFlowResult> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before adding flows');
+    }
+    return await this.producerService.addFlow(flow);
+  }
+
+  /**
+   * Add a batch of tasks tracked as a whole, with an optional callback task
+   */
+  async addBatch<T = any>(
+    queueName: string,
+    tasks: Array<BatchTask<T>>,
+    batchOptions?: AddBatchOptions,
+  ): Promise<AddBatchResult> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before adding batches');
+    }
+    return await this.producerService.addBatch(queueName, tasks, batchOptions);
+  }
+
+  /**
+   * Get the completion counts of a batch
+   */
+  async getBatchProgress(batchId: string): Promise<BatchProgress | null> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before reading batch progress');
+    }
+    return await this.producerService.getBatchProgress(batchId);
+  }
+
+  /**
+   * Add a repeatable task, scheduled by cron expression or fixed interval
+   */
+  async addRepeatable<T = any>(
+    queueName: string,
+    data: T,
+    repeat: RepeatOptions,
+    options?: AddTaskOptions,
+  ): Promise<IRepeatableTask> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before adding repeatable tasks');
+    }
+    return await this.repeatableService.addRepeatable(queueName, data, repeat, options);
+  }
+
+  /**
+   * Get repeatable tasks, optionally of one queue
+   */
+  async getRepeatables(queueName?: string): Promise<IRepeatableTask[]> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before reading repeatable tasks');
+    }
+    return await this.repeatableService.getRepeatables(queueName);
+  }
+
+  /**
+   * Remove a repeatable task
+   */
+  async removeRepeatable(key: string): Promise<boolean> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before removing repeatable tasks');
+    }
+    return await this.repeatableService.removeRepeatable(key);
+  }
+
+  /**
+   * Add the tasks of due repeatable occurrences now instead of waiting for the next periodic check
+   */
+  async processDueRepeatables(): Promise<AddTaskResult[]> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before adding repeatable tasks');
+    }
+    return await this.repeatableService.processDueRepeatables();
+  }
+
+  /**
+   * Retry a failed or cancelled task
+   */
+  async retryTask(taskId: string): Promise<import('./interfaces/storage-adapter.interface').ITask> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before retrying tasks');
+    }
+    return await this.producerService.retryTask(taskId);
+  }
+
+  /**
+   * Cancel a task that hasn't started yet
+   */
+  async cancelTask(taskId: string): Promise<import('./interfaces/storage-adapter.interface').ITask> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before cancelling tasks');
+    }
+    return await this.producerService.cancelTask(taskId);
+  }
+
+  /**
+   * Run a delayed task now
+   */
+  async promoteTask(taskId: string): Promise<import('./interfaces/storage-adapter.interface').ITask> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before promoting tasks');
+    }
+    return await this.producerService.promoteTask(taskId);
+  }
+
+  /**
+   * Pause a queue
+   */
+  async pauseQueue(queueName: string, options?: QueuePauseOptions): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before pausing queues');
+    }
+    await this.producerService.pauseQueue(queueName, options);
+  }
+
+  /**
+   * Resume a paused queue
+   */
+  async resumeQueue(queueName: string, options?: QueuePauseOptions): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before resuming queues');
+    }
+    await this.producerService.resumeQueue(queueName, options);
+  }
+
+  /**
+   * Check if a queue is paused
+   */
+  async isQueuePaused(queueName: string): Promise<boolean> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before checking queues');
+    }
+    return await this.producerService.isQueuePaused(queueName);
+  }
+
   /**
    * Get task by ID
    */
@@ -172,6 +387,63 @@ export class CloudTaskMQ extends EventEmitter {
     return await this.storageAdapter.getTaskCount(options);
   }
 
+  /**
+   * Get statistics for a queue
+   */
+  async getQueueStats(queueName: string, options?: QueueStatsOptions): Promise<QueueStats> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before getting queue stats');
+    }
+    if (!this.config.queues.some(queue => queue.name === queueName)) {
+      throw new Error(`Queue "${queueName}" not found in configuration`);
+    }
+    return await this.storageAdapter.getQueueStats(queueName, options);
+  }
+
+  /**
+   * Get statistics for every configured queue
+   */
+  async getAllQueueStats(options?: QueueStatsOptions): Promise<QueueStats[]> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before getting queue stats');
+    }
+    return await Promise.all(
+      this.config.queues.map(queue => this.storageAdapter.getQueueStats(queue.name, options)),
+    );
+  }
+
+  /**
+   * Recover active tasks whose lock expired now instead of waiting for the next periodic check
+   */
+  async checkStalledTasks(): Promise<ITask[]> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before checking stalled tasks');
+    }
+    return await this.stalledTaskService.checkStalledTasks();
+  }
+
+  /**
+   * Dispatch parked far-future tasks that came within the transport's scheduling window
+   * now instead of waiting for the next periodic check
+   */
+  async promoteParkedTasks(): Promise<ITask[]> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before promoting parked tasks');
+    }
+    return await this.delayedTaskService.promoteParkedTasks();
+  }
+
+  /**
+   * Dispatch the tasks pending in the outbox now instead of waiting for the next relay run.
+   * Does nothing while another instance is the relay.
+   */
+  async relayOutbox(): Promise<ITask[]> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before relaying the outbox');
+    }
+    return await this.outboxRelayService.relayPendingTasks();
+  }
+
   /**
    * Update task progress
    */
@@ -200,6 +472,59 @@ export class CloudTaskMQ extends EventEmitter {
     return await this.storageAdapter.cleanup(options);
   }
 
+  /**
+   * List dead-letter entries
+   */
+  async getDeadLetters(options?: DeadLetterQueryOptions): Promise<IDeadLetterEntry[]> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before getting dead letters');
+    }
+    return await this.deadLetterService.getDeadLetters(options);
+  }
+
+  /**
+   * Get a dead-letter entry by ID
+   */
+  async getDeadLetter(id: string): Promise<IDeadLetterEntry | null> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before getting dead letters');
+    }
+    return await this.deadLetterService.getDeadLetter(id);
+  }
+
+  /**
+   * Replay a dead-letter entry on its original queue
+   */
+  async replayDeadLetter(id: string, options?: AddTaskOptions): Promise<AddTaskResult> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before replaying dead letters');
+    }
+    return await this.deadLetterService.replay(id, options);
+  }
+
+  /**
+   * Replay every dead-letter entry matching the options
+   */
+  async replayDeadLetters(
+    options?: DeadLetterQueryOptions,
+    taskOptions?: AddTaskOptions,
+  ): Promise<AddTaskResult[]> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before replaying dead letters');
+    }
+    return await this.deadLetterService.replayMany(options, taskOptions);
+  }
+
+  /**
+   * Purge dead-letter entries
+   */
+  async purgeDeadLetters(options?: DeadLetterQueryOptions): Promise<number> {
+    if (!this.initialized) {
+      throw new Error('CloudTaskMQ must be initialized before purging dead letters');
+    }
+    return await this.deadLetterService.purge(options);
+  }
+
   /**
    * Check rate limit
    */
@@ -234,6 +559,10 @@ export class CloudTaskMQ extends EventEmitter {
     if (!this.initialized) return;
     
     try {
+      this.stalledTaskService.stop();
+      this.repeatableService.stop();
+      this.delayedTaskService.stop();
+      this.outboxRelayService.stop();
       await this.producerService.close();
       await this.consumerService.close();
       await this.storageAdapter.close();
@@ -287,6 +616,38 @@ export class CloudTaskMQ extends EventEmitter {
     }
   }
 
+  /**
+   * Create transport based on configuration
+   */
+  private createTransport(): ITaskTransport {
+    const { transport = 'cloud-tasks', transportOptions = {} } = this.config;
+
+    switch (transport) {
+      case 'cloud-tasks':
+        return new CloudTasksTransport(this.config);
+
+      case 'local':
+        return new LocalTransport(
+          this.config,
+          this.storageAdapter,
+          this.consumerService,
+          transportOptions.local,
+        );
+
+      case 'http':
+        return new HttpTransport(this.config, transportOptions.http);
+
+      case 'custom':
+        if (!transportOptions.customTransport) {
+          throw new Error('Custom transport instance is required when using custom transport');
+        }
+        return transportOptions.customTransport;
+
+      default:
+        throw new Error(`Unsupported transport: ${transport}`);
+    }
+  }
+
   /**
    * Create CloudTaskMQ instance with async configuration
    */
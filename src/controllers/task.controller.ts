@@ -1,5 +1,14 @@
 import { Request, Response } from 'express';
 import { CloudTaskMQ } from '../cloud-taskmq';
+import { getCloudTasksDelivery } from '../utils/http.utils';
+import { RATE_LIMIT_ERROR_NAME } from '../utils/rate-limit.utils';
+import {
+  CONCURRENCY_LIMIT_ERROR_NAME,
+  QUEUE_PAUSED_ERROR_NAME,
+  TASK_ALREADY_PROCESSING_ERROR_NAME,
+  TASK_NOT_DUE_ERROR_NAME,
+  TASK_NOT_FOUND_ERROR_NAME,
+} from '../utils/delivery-errors.utils';
 
 /**
  * Task controller for handling HTTP requests from Google Cloud Tasks
@@ -46,7 +55,7 @@ export class TaskController {
         maxAttempts: maxAttempts || 3,
         chain,
         uniquenessKey,
-      });
+      }, getCloudTasksDelivery(req));
 
       res.status(200).json({
         success: true,
@@ -57,7 +66,7 @@ export class TaskController {
       console.error('Error processing task:', error);
       
       // Return appropriate status code
-      const statusCode = error instanceof Error && error.message.includes('not found') ? 404 : 500;
+      const statusCode = this.getProcessErrorStatusCode(error);
       
       res.status(statusCode).json({
         success: false,
@@ -145,6 +154,7 @@ export class TaskController {
         status,
         queueName,
         chainId,
+        batchId,
         uniquenessKey,
         limit = 50,
         offset = 0,
@@ -175,6 +185,10 @@ export class TaskController {
         options.chainId = chainId as string;
       }
 
+      if (batchId) {
+        options.batchId = batchId as string;
+      }
+
       if (uniquenessKey) {
         options.uniquenessKey = uniquenessKey as string;
       }
@@ -224,4 +238,25 @@ export class TaskController {
       });
     }
   }
+
+  /**
+   * Map a processing error to an HTTP status code.
+   * Paused queues (503) and concurrency and rate limits (429) are retryable, so Cloud Tasks re-delivers the task later.
+   */
+  private getProcessErrorStatusCode(error: unknown): number {
+    switch (error instanceof Error ? error.name : undefined) {
+      case TASK_NOT_FOUND_ERROR_NAME:
+        return 404;
+      case CONCURRENCY_LIMIT_ERROR_NAME:
+      case RATE_LIMIT_ERROR_NAME:
+        return 429;
+      case QUEUE_PAUSED_ERROR_NAME:
+        return 503;
+      case TASK_ALREADY_PROCESSING_ERROR_NAME:
+      case TASK_NOT_DUE_ERROR_NAME:
+        return 409;
+      default:
+        return 500;
+    }
+  }
 }
@@ -1,4 +1,6 @@
 import 'reflect-metadata';
+import { RepeatOptions } from '../interfaces/task.interface';
+import { ProcessRateLimiterOptions } from '../interfaces/config.interface';
 
 /**
  * Metadata key for process decorators
@@ -18,6 +20,32 @@ export interface ProcessOptions {
    * Concurrency limit for this specific process
    */
   concurrency?: number;
+
+  /**
+   * Execution timeout for this specific process in milliseconds
+   */
+  timeout?: number;
+
+  /**
+   * Rate limit on running tasks of this specific process. Tasks over the limit are
+   * rescheduled for when it resets instead of running.
+   */
+  rateLimiter?: ProcessRateLimiterOptions;
+
+  /**
+   * Schedule on which a task for this process is added automatically
+   */
+  repeat?: ProcessRepeatOptions;
+}
+
+/**
+ * Repeat options of a process
+ */
+export interface ProcessRepeatOptions extends RepeatOptions {
+  /**
+   * Data of every occurrence
+   */
+  data?: any;
 }
 
 /**
@@ -35,6 +63,11 @@ export interface ProcessOptions {
  *     // Process the email task
  *     return { success: true };
  *   }
+ *
+ *   @Process({ name: 'digest', repeat: { cron: '0 8 * * *', timezone: 'Europe/Paris' } })
+ *   async sendDigest(job: CloudTask) {
+ *     // Runs every day at 8:00 Paris time
+ *   }
  * }
  * ```
  */
@@ -45,6 +78,9 @@ export function Process(options: ProcessOptions = {}) {
       methodName: propertyKey,
       name: options.name || propertyKey,
       concurrency: options.concurrency,
+      timeout: options.timeout,
+      rateLimiter: options.rateLimiter,
+      repeat: options.repeat,
       handler: descriptor.value,
     });
     Reflect.defineMetadata(PROCESS_METADATA_KEY, existingProcesses, target);
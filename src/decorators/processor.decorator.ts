@@ -1,4 +1,5 @@
 import 'reflect-metadata';
+import { ProcessRateLimiterOptions, RetryPolicy } from '../interfaces/config.interface';
 
 /**
  * Metadata key for processor decorators
@@ -24,6 +25,17 @@ export interface ProcessorOptions {
    */
   name?: string;
 
+  /**
+   * Retry policy for tasks handled by this processor
+   */
+  retryPolicy?: RetryPolicy;
+
+  /**
+   * Rate limit on running tasks of this processor. Tasks over the limit are rescheduled
+   * for when it resets instead of running.
+   */
+  rateLimiter?: ProcessRateLimiterOptions;
+
   /**
    * Queue-specific options
    */
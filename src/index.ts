@@ -2,9 +2,22 @@
 export { CloudTaskMQ } from './cloud-taskmq';
 
 // Services
-export { ProducerService } from './services/producer.service';
+export { ProducerService, DEFAULT_BULK_CONCURRENCY, BULK_CHUNK_SIZE } from './services/producer.service';
 export { ConsumerService } from './services/consumer.service';
 export { RateLimiterService } from './services/rate-limiter.service';
+export { DeadLetterService } from './services/dead-letter.service';
+export { ConcurrencyService } from './services/concurrency.service';
+export { FlowService } from './services/flow.service';
+export { BatchService } from './services/batch.service';
+export {
+  StalledTaskService,
+  DEFAULT_LOCK_DURATION_MS,
+  DEFAULT_STALLED_CHECK_INTERVAL_MS,
+  DEFAULT_MAX_STALLED_COUNT,
+} from './services/stalled-task.service';
+export { RepeatableService, DEFAULT_REPEATABLE_CHECK_INTERVAL_MS } from './services/repeatable.service';
+export { DelayedTaskService, DEFAULT_DELAYED_PROMOTE_INTERVAL_MS } from './services/delayed-task.service';
+export { OutboxRelayService, DEFAULT_OUTBOX_RELAY_INTERVAL_MS, OUTBOX_RELAY_LEASE_KEY } from './services/outbox-relay.service';
 
 // Controllers
 export { TaskController } from './controllers/task.controller';
@@ -12,6 +25,7 @@ export { TaskController } from './controllers/task.controller';
 // Decorators
 export { Processor } from './decorators/processor.decorator';
 export { Process } from './decorators/process.decorator';
+export type { ProcessOptions, ProcessRepeatOptions } from './decorators/process.decorator';
 export { 
   OnTaskActive,
   OnTaskCompleted,
@@ -23,6 +37,13 @@ export { CloudTaskConsumer } from './decorators/cloud-task-consumer.decorator';
 // Models
 export { CloudTask } from './models/cloud-task.model';
 
+// Transports
+export { CloudTasksTransport, CLOUD_TASKS_MAX_SCHEDULE_DELAY_MS } from './transports/cloud-tasks.transport';
+export { LocalTransport } from './transports/local.transport';
+export type { LocalTransportOptions } from './transports/local.transport';
+export { HttpTransport } from './transports/http.transport';
+export type { HttpTransportOptions } from './transports/http.transport';
+
 // Storage Adapters
 export { MemoryStorageAdapter } from './adapters/memory-storage.adapter';
 export { RedisStorageAdapter } from './adapters/redis-storage.adapter';
@@ -31,35 +52,94 @@ export { MongoStorageAdapter } from './adapters/mongo-storage.adapter';
 // Interfaces - Configuration
 export type {
   CloudTaskMQConfig,
+  ConcurrencyOptions,
+  DelayedTaskOptions,
+  OutboxOptions,
   QueueConfig,
+  PriorityQueueConfig,
+  QueuePauseOptions,
   RateLimiterOptions,
+  RateLimitAlgorithm,
+  ProcessRateLimiterOptions,
+  RetryPolicy,
+  RepeatableTaskOptions,
+  StalledTaskOptions,
   StorageOptions,
+  TransportOptions,
 } from './interfaces/config.interface';
 
+// Interfaces - Transport
+export type { ITaskTransport } from './interfaces/transport.interface';
+
 // Interfaces - Storage
 export type {
   IStateStorageAdapter,
   ITask,
   TaskStatus,
   TaskQueryOptions,
+  TaskMarker,
+  TaskSort,
+  StorageWriteOptions,
+  TaskErrorEntry,
+  TaskFailureReason,
+  ChainFailureMode,
+  FlowFailurePolicy,
+  BatchProgress,
+  RepeatSchedule,
+  IRepeatableTask,
+  IDeadLetterEntry,
+  DeadLetterQueryOptions,
+  QueueStats,
+  QueueStatsOptions,
 } from './interfaces/storage-adapter.interface';
 
 // Interfaces - Task
 export type {
   AddTaskOptions,
   AddTaskResult,
+  TaskPayload,
+  TaskDelivery,
   TaskProgress,
   TaskCompletedEvent,
   TaskFailedEvent,
   TaskProgressEvent,
+  TaskRetryEvent,
+  TaskRateLimitedEvent,
+  TaskDeadLetteredEvent,
+  TaskStalledEvent,
+  ChainFailedEvent,
+  ChainOptions,
+  FlowNode,
+  AddFlowResult,
+  BatchTask,
+  AddBatchOptions,
+  AddTasksOptions,
+  AddBatchResult,
+  BatchSummary,
+  BatchCompletedEvent,
+  RepeatOptions,
+  UniquenessMode,
 } from './interfaces/task.interface';
 
 // Utilities
 export * from './utils/metadata.utils';
 export * from './utils/http.utils';
+export * from './utils/task-payload.utils';
+export * from './utils/retry-policy.utils';
+export * from './utils/queue-stats.utils';
+export * from './utils/task-timeout.utils';
+export * from './utils/task-dispatch.utils';
+export * from './utils/task-sort.utils';
+export * from './utils/uniqueness.utils';
+export * from './utils/cloud-task-name.utils';
+export * from './utils/bulk.utils';
+export * from './utils/rate-limit.utils';
+export * from './utils/delivery-errors.utils';
+export * from './utils/cron.utils';
 
 // Types for convenience
-export type { ProcessorRegistration } from './services/consumer.service';
+export type { ProcessorRegistration, ProcessHandlerRegistration } from './services/consumer.service';
+export type { ConcurrencyLimit } from './services/concurrency.service';
 export type { RateLimitResult } from './services/rate-limiter.service';
 
 // Import types for constants
@@ -69,12 +149,13 @@ import { CloudTaskMQ } from './cloud-taskmq';
 
 // Constants
 export const TASK_STATUSES = {
-  IDLE: 'idle' as TaskStatus,
-  ACTIVE: 'active' as TaskStatus,
-  COMPLETED: 'completed' as TaskStatus,
-  FAILED: 'failed' as TaskStatus,
-  DELAYED: 'delayed' as TaskStatus,
-  CANCELLED: 'cancelled' as TaskStatus,
+  IDLE: TaskStatus.IDLE,
+  ACTIVE: TaskStatus.ACTIVE,
+  COMPLETED: TaskStatus.COMPLETED,
+  FAILED: TaskStatus.FAILED,
+  DELAYED: TaskStatus.DELAYED,
+  CANCELLED: TaskStatus.CANCELLED,
+  WAITING: TaskStatus.WAITING,
 } as const;
 
 /**
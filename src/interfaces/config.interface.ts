@@ -1,4 +1,5 @@
 import { IStateStorageAdapter } from './storage-adapter.interface';
+import { ITaskTransport } from './transport.interface';
 
 /**
  * Queue configuration interface
@@ -39,8 +40,217 @@ export interface QueueConfig {
    * Retry delay in seconds
    */
   retryDelay?: number;
+
+  /**
+   * Retry policy used to schedule retries of failed tasks
+   */
+  retryPolicy?: RetryPolicy;
+
+  /**
+   * Execution timeout for tasks of this queue in milliseconds
+   */
+  timeout?: number;
+
+  /**
+   * Name of the dead-letter queue that receives tasks exhausting their attempts
+   */
+  deadLetterQueue?: string;
+
+  /**
+   * What happens to tasks added while the queue is paused:
+   * 'hold' stores them and dispatches them on resume, 'reject' refuses them (defaults to 'hold')
+   */
+  pauseBehavior?: 'hold' | 'reject';
+
+  /**
+   * What happens to tasks added beyond the queue's rateLimiter: 'reject' returns an unsuccessful
+   * result, 'delay' schedules them in the first window with a free slot, and 'throw' rejects
+   * with a rate limit error carrying retryAfterMs (defaults to 'reject')
+   */
+  rateLimitBehavior?: 'reject' | 'delay' | 'throw';
+
+  /**
+   * How Cloud Tasks are named, which lets Cloud Tasks reject duplicates and lets tasks be found
+   * and cancelled by name: 'task-id' names them after the task ID, 'uniqueness-key' after the
+   * uniqueness key of tasks that have one (so Cloud Tasks deduplicates them too, also for about
+   * an hour after the task ran), and 'generated' leaves naming to Cloud Tasks (defaults to 'task-id')
+   */
+  taskNaming?: 'task-id' | 'uniqueness-key' | 'generated';
+
+  /**
+   * Cloud Tasks queues receiving the tasks of this queue from a priority upwards, e.g. a separate
+   * `email-queue-high` queue with more throughput. Each task goes to the queue with the highest
+   * minPriority not above its priority, and tasks below every minPriority go to path.
+   */
+  priorityQueues?: PriorityQueueConfig[];
 }
 
+/**
+ * Cloud Tasks queue receiving the higher priority tasks of a queue
+ */
+export interface PriorityQueueConfig {
+  /**
+   * Lowest task priority routed to this queue
+   */
+  minPriority: number;
+
+  /**
+   * Full path to the queue in Google Cloud Tasks
+   * Format: projects/{project}/locations/{location}/queues/{queue}
+   */
+  path: string;
+
+  /**
+   * Rate limiting configuration used when the queue is created (defaults to the queue's)
+   */
+  rateLimiter?: RateLimiterOptions;
+}
+
+/**
+ * Concurrency enforcement options
+ */
+export interface ConcurrencyOptions {
+  /**
+   * Share concurrency limits across instances through leases held in the storage adapter
+   * (defaults to false, which only limits tasks running in this process)
+   */
+  distributed?: boolean;
+
+  /**
+   * Lifetime of a distributed lease in milliseconds. Leases left behind by crashed
+   * instances are reclaimed after it (defaults to 10 minutes)
+   */
+  leaseTtlMs?: number;
+}
+
+/**
+ * Stalled task detection options
+ */
+export interface StalledTaskOptions {
+  /**
+   * Renew locks of running tasks and recover tasks whose lock expired (defaults to true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Lifetime of a task lock in milliseconds. A running task whose lock isn't renewed
+   * within it is considered stalled (defaults to 30 seconds)
+   */
+  lockDurationMs?: number;
+
+  /**
+   * Interval between lock renewals while a handler runs, in milliseconds
+   * (defaults to half the lock duration)
+   */
+  lockRenewIntervalMs?: number;
+
+  /**
+   * Interval between stalled task checks in milliseconds (defaults to 5 minutes)
+   */
+  checkIntervalMs?: number;
+
+  /**
+   * Number of times a task may stall before it is failed instead of re-queued (defaults to 1)
+   */
+  maxStalledCount?: number;
+}
+
+/**
+ * Options for tasks due beyond the transport's scheduling window
+ */
+export interface DelayedTaskOptions {
+  /**
+   * Hand parked tasks to the transport once they come within reach (defaults to true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Interval between checks for parked tasks in milliseconds (defaults to 1 minute)
+   */
+  promoteIntervalMs?: number;
+}
+
+/**
+ * Transactional outbox options
+ */
+export interface OutboxOptions {
+  /**
+   * Store new tasks as pending dispatch and leave dispatching them to the outbox relay,
+   * so a task is never stored without being dispatched or the other way round (defaults to false)
+   */
+  enabled?: boolean;
+
+  /**
+   * Interval between relay runs in milliseconds (defaults to 1 second)
+   */
+  relayIntervalMs?: number;
+
+  /**
+   * Maximum number of tasks relayed per queue in one run (defaults to 100)
+   */
+  batchSize?: number;
+}
+
+/**
+ * Repeatable task scheduling options
+ */
+export interface RepeatableTaskOptions {
+  /**
+   * Add the occurrences of repeatable tasks as they come due (defaults to true)
+   */
+  enabled?: boolean;
+
+  /**
+   * Interval between checks for due occurrences in milliseconds (defaults to 5 seconds).
+   * Occurrences due before the next check are added right away with a matching delay.
+   */
+  checkIntervalMs?: number;
+}
+
+/**
+ * Options for pausing and resuming a queue
+ */
+export interface QueuePauseOptions {
+  /**
+   * Also pause/resume the queue in the transport (e.g. the Cloud Tasks pauseQueue/resumeQueue RPC)
+   */
+  transport?: boolean;
+}
+
+/**
+ * Retry policy for failed tasks. Delays are in seconds.
+ */
+export type RetryPolicy =
+  | {
+      type: 'fixed';
+      delay: number;
+    }
+  | {
+      type: 'linear';
+      delay: number;
+      maxDelay?: number;
+    }
+  | {
+      type: 'exponential';
+      delay: number;
+      maxDelay?: number;
+      /**
+       * Growth factor between attempts (defaults to 2)
+       */
+      factor?: number;
+      /**
+       * Fraction of the delay (0-1) that is randomized
+       */
+      jitter?: number;
+    }
+  | {
+      type: 'custom';
+      /**
+       * Returns the delay in seconds before the given retry attempt
+       */
+      calculate: (attempt: number, error?: Error) => number;
+    };
+
 /**
  * Rate limiter options
  */
@@ -59,6 +269,40 @@ export interface RateLimiterOptions {
    * Key to use for rate limiting (optional)
    */
   key?: string;
+
+  /**
+   * How requests are counted against the limit (defaults to 'fixed-window')
+   */
+  algorithm?: RateLimitAlgorithm;
+
+  /**
+   * Size of the bucket of the 'token-bucket' algorithm, i.e. the largest burst of requests
+   * (defaults to maxRequests). The bucket refills at maxRequests per windowMs.
+   */
+  burst?: number;
+}
+
+/**
+ * Algorithm counting requests against a rate limit:
+ * - fixed-window: maxRequests per window, starting with the first request of the window
+ * - sliding-log: maxRequests within any windowMs, tracked through the time of every request
+ * - sliding-window: like sliding-log, estimated from the counts of the current and previous windows
+ * - token-bucket: bursts of up to burst requests, refilled at maxRequests per windowMs
+ *
+ * There is no leaky bucket: used as a meter it allows the same requests as a token bucket of the
+ * same size and rate, and used as a queue it is what the 'delay' rateLimitBehavior does.
+ */
+export type RateLimitAlgorithm = 'fixed-window' | 'sliding-log' | 'sliding-window' | 'token-bucket';
+
+/**
+ * Rate limit on running the tasks of a processor or process
+ */
+export interface ProcessRateLimiterOptions extends RateLimiterOptions {
+  /**
+   * Split the limit into one per group, e.g. per customer, derived from the task data.
+   * Tasks without a group share the limit of the processor or process.
+   */
+  groupKey?: (data: any) => string | undefined;
 }
 
 /**
@@ -92,6 +336,37 @@ export interface StorageOptions {
   customAdapter?: IStateStorageAdapter;
 }
 
+/**
+ * Transport options for delivering tasks to consumers
+ */
+export interface TransportOptions {
+  /**
+   * Local in-process dispatcher options
+   */
+  local?: {
+    pollInterval?: number;
+    batchSize?: number;
+    concurrency?: number;
+  };
+
+  /**
+   * HTTP loopback transport options
+   */
+  http?: {
+    dispatchDeadlineMs?: number;
+    maxAttempts?: number;
+    minBackoffMs?: number;
+    maxBackoffMs?: number;
+    maxDoublings?: number;
+    headers?: Record<string, string>;
+  };
+
+  /**
+   * Custom transport instance
+   */
+  customTransport?: ITaskTransport;
+}
+
 /**
  * Main configuration interface for CloudTaskMQ
  */
@@ -126,6 +401,16 @@ export interface CloudTaskMQConfig {
    */
   storageOptions?: StorageOptions;
 
+  /**
+   * Transport used to deliver tasks (defaults to 'cloud-tasks')
+   */
+  transport?: 'cloud-tasks' | 'local' | 'http' | 'custom';
+
+  /**
+   * Transport configuration options
+   */
+  transportOptions?: TransportOptions;
+
   /**
    * Auto create queues if they don't exist
    */
@@ -136,6 +421,31 @@ export interface CloudTaskMQConfig {
    */
   globalRateLimiter?: RateLimiterOptions;
 
+  /**
+   * Concurrency enforcement options
+   */
+  concurrency?: ConcurrencyOptions;
+
+  /**
+   * Stalled task detection options
+   */
+  stalledTasks?: StalledTaskOptions;
+
+  /**
+   * Repeatable task scheduling options
+   */
+  repeatable?: RepeatableTaskOptions;
+
+  /**
+   * Options for tasks due beyond the transport's scheduling window
+   */
+  delayedTasks?: DelayedTaskOptions;
+
+  /**
+   * Transactional outbox options
+   */
+  outbox?: OutboxOptions;
+
   /**
    * Google Cloud authentication options
    */
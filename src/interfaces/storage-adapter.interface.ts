@@ -1,3 +1,5 @@
+import { RateLimiterOptions } from './config.interface';
+
 /**
  * Task status enumeration
  */
@@ -6,6 +8,9 @@ export enum TaskStatus {
   ACTIVE = 'active',
   COMPLETED = 'completed',
   FAILED = 'failed',
+  DELAYED = 'delayed',
+  CANCELLED = 'cancelled',
+  WAITING = 'waiting',
 }
 
 /**
@@ -57,6 +62,11 @@ export interface ITask {
    */
   failedAt?: Date;
 
+  /**
+   * Task cancellation timestamp
+   */
+  cancelledAt?: Date;
+
   /**
    * Number of retry attempts
    */
@@ -74,8 +84,14 @@ export interface ITask {
     message: string;
     stack?: string;
     timestamp: Date;
+    reason?: TaskFailureReason;
   };
 
+  /**
+   * Errors raised by every failed attempt
+   */
+  errorHistory?: TaskErrorEntry[];
+
   /**
    * Task progress information
    */
@@ -99,6 +115,56 @@ export interface ITask {
    */
   scheduledFor?: Date;
 
+  /**
+   * Time of the next scheduled retry attempt
+   */
+  nextAttemptAt?: Date;
+
+  /**
+   * Name of the task in the transport (e.g. the Cloud Task resource name)
+   */
+  cloudTaskName?: string;
+
+  /**
+   * Number of times the task was handed to the transport, so redispatches get fresh transport names
+   */
+  dispatchCount?: number;
+
+  /**
+   * Time the task was held back from dispatch because its queue was paused
+   */
+  heldAt?: Date;
+
+  /**
+   * Time the task was parked in storage because it is due beyond the transport's scheduling window
+   */
+  parkedAt?: Date;
+
+  /**
+   * Time the task was stored for the outbox relay to dispatch, cleared once it was handed to the transport
+   */
+  pendingDispatchAt?: Date;
+
+  /**
+   * Time the lock of an active task expires unless its consumer renews it
+   */
+  lockExpiresAt?: Date;
+
+  /**
+   * Token of the run holding the lock of an active task, so only that run can renew it
+   */
+  lockToken?: string;
+
+  /**
+   * Concurrency keys the run of an active task holds leases under, so recovery can release them
+   */
+  concurrencyKeys?: string[];
+
+  /**
+   * Number of times the task stalled (its consumer stopped renewing the lock)
+   */
+  stalledCount?: number;
+
   /**
    * Task chain information
    */
@@ -106,6 +172,35 @@ export interface ITask {
     id: string;
     index: number;
     total: number;
+    onFailure?: ChainFailureMode;
+  };
+
+  /**
+   * Result of the previous step of the task's chain
+   */
+  previousResult?: any;
+
+  /**
+   * Parent task that waits on this task in a flow
+   */
+  parent?: {
+    id: string;
+    queueName: string;
+    onFailure?: FlowFailurePolicy;
+  };
+
+  /**
+   * IDs of the child tasks this task waits on in a flow
+   */
+  childIds?: string[];
+
+  /**
+   * Batch the task belongs to
+   */
+  batch?: {
+    id: string;
+    total: number;
+    callbackTaskId?: string;
   };
 
   /**
@@ -129,6 +224,294 @@ export interface ITask {
   };
 }
 
+/**
+ * Why a task attempt failed: the handler threw, it exceeded its timeout, it stalled too many times,
+ * or one of its flow children failed
+ */
+export type TaskFailureReason = 'error' | 'timeout' | 'stalled' | 'child-failed';
+
+/**
+ * What happens to the rest of a chain when a step fails: 'halt' leaves the remaining steps
+ * waiting, 'skip' moves on to the next step
+ */
+export type ChainFailureMode = 'halt' | 'skip';
+
+/**
+ * What a flow child's failure does to its parent: 'fail-parent' fails the parent,
+ * 'ignore' treats the child as settled, 'continue' runs the parent right away
+ */
+export type FlowFailurePolicy = 'fail-parent' | 'ignore' | 'continue';
+
+/**
+ * Error raised by a single task attempt
+ */
+export interface TaskErrorEntry {
+  message: string;
+  stack?: string;
+  timestamp: Date;
+  attempt: number;
+  reason?: TaskFailureReason;
+}
+
+/**
+ * Dead-letter entry for a task that exhausted its attempts
+ */
+export interface IDeadLetterEntry {
+  /**
+   * Entry identifier (the ID of the failed task)
+   */
+  id: string;
+
+  /**
+   * Name of the dead-letter queue
+   */
+  deadLetterQueue: string;
+
+  /**
+   * Queue the task originally belonged to
+   */
+  originalQueue: string;
+
+  /**
+   * Snapshot of the failed task
+   */
+  task: ITask;
+
+  /**
+   * Errors raised by every attempt
+   */
+  errorHistory: TaskErrorEntry[];
+
+  /**
+   * Number of attempts made
+   */
+  attempts: number;
+
+  /**
+   * Time the task was dead-lettered
+   */
+  failedAt: Date;
+}
+
+/**
+ * Schedule of a repeatable task: a cron expression or a fixed interval
+ */
+export interface RepeatSchedule {
+  /**
+   * Five-field cron expression, e.g. '0 9 * * MON-FRI'
+   */
+  cron?: string;
+
+  /**
+   * Fixed interval between occurrences in seconds
+   */
+  every?: number;
+
+  /**
+   * IANA timezone the cron expression is evaluated in (defaults to UTC)
+   */
+  timezone?: string;
+
+  /**
+   * No occurrence is scheduled before this date
+   */
+  startDate?: Date;
+
+  /**
+   * No occurrence is scheduled after this date
+   */
+  endDate?: Date;
+
+  /**
+   * Maximum number of occurrences
+   */
+  limit?: number;
+}
+
+/**
+ * Repeatable task definition, from which a task is added for every occurrence
+ */
+export interface IRepeatableTask {
+  /**
+   * Repeatable identifier
+   */
+  key: string;
+
+  /**
+   * Queue the occurrences are added to
+   */
+  queueName: string;
+
+  /**
+   * Data of every occurrence
+   */
+  data: any;
+
+  /**
+   * Task options of every occurrence
+   */
+  options?: Record<string, any>;
+
+  /**
+   * Schedule of the occurrences
+   */
+  repeat: RepeatSchedule;
+
+  /**
+   * Number of occurrences added so far
+   */
+  count: number;
+
+  /**
+   * Time of the next occurrence (unset once the schedule ended)
+   */
+  nextRunAt?: Date;
+
+  /**
+   * Time of the last occurrence added
+   */
+  lastRunAt?: Date;
+
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Dead-letter query options
+ */
+export interface DeadLetterQueryOptions {
+  /**
+   * Filter by dead-letter queue name
+   */
+  deadLetterQueue?: string;
+
+  /**
+   * Filter by original queue name
+   */
+  originalQueue?: string;
+
+  /**
+   * Only entries dead-lettered before this date
+   */
+  olderThan?: Date;
+
+  /**
+   * Pagination limit
+   */
+  limit?: number;
+
+  /**
+   * Pagination offset
+   */
+  offset?: number;
+}
+
+/**
+ * Queue statistics
+ */
+export interface QueueStats {
+  /**
+   * Queue name
+   */
+  queueName: string;
+
+  /**
+   * Number of tasks per status
+   */
+  counts: Record<TaskStatus, number>;
+
+  /**
+   * Total number of tasks in the queue
+   */
+  total: number;
+
+  /**
+   * Whether the queue is paused
+   */
+  paused: boolean;
+
+  /**
+   * Age of the oldest idle task in milliseconds
+   */
+  oldestWaitingAge: number | null;
+
+  /**
+   * Average processing duration of tasks completed within the window, in milliseconds
+   */
+  averageDuration: number | null;
+
+  /**
+   * 95th percentile processing duration of tasks completed within the window, in milliseconds
+   */
+  p95Duration: number | null;
+
+  /**
+   * Tasks completed per minute within the window
+   */
+  completedPerMinute: number;
+
+  /**
+   * Tasks failed per minute within the window
+   */
+  failedPerMinute: number;
+
+  /**
+   * Window used for durations and throughput, in milliseconds
+   */
+  windowMs: number;
+
+  /**
+   * Time the statistics were computed
+   */
+  timestamp: Date;
+}
+
+/**
+ * Queue statistics options
+ */
+export interface QueueStatsOptions {
+  /**
+   * Window used for durations and throughput, in milliseconds (defaults to 15 minutes)
+   */
+  windowMs?: number;
+}
+
+/**
+ * Completion counts of a batch
+ */
+export interface BatchProgress {
+  /**
+   * Batch identifier
+   */
+  batchId: string;
+
+  /**
+   * Number of tasks in the batch
+   */
+  total: number;
+
+  /**
+   * Number of members that completed
+   */
+  completed: number;
+
+  /**
+   * Number of members that failed for good
+   */
+  failed: number;
+}
+
+/**
+ * Options of a storage write made on behalf of the caller
+ */
+export interface StorageWriteOptions {
+  /**
+   * Session the write joins, e.g. a mongoose ClientSession to save the task in the caller's
+   * transaction. Adapters without transactions reject writes with a session.
+   */
+  session?: unknown;
+}
+
 /**
  * Task query options for filtering and pagination
  */
@@ -148,11 +531,31 @@ export interface TaskQueryOptions {
    */
   chainId?: string;
 
+  /**
+   * Filter by batch ID
+   */
+  batchId?: string;
+
   /**
    * Filter by uniqueness key
    */
   uniquenessKey?: string;
 
+  /**
+   * Only tasks with this marker set
+   */
+  marker?: TaskMarker;
+
+  /**
+   * Only tasks scheduled for this time or earlier
+   */
+  scheduledBefore?: Date;
+
+  /**
+   * Only tasks due by this time: unscheduled, or scheduled for it or earlier
+   */
+  dueBefore?: Date;
+
   /**
    * Date range filter
    */
@@ -172,12 +575,32 @@ export interface TaskQueryOptions {
   offset?: number;
 
   /**
-   * Sort options
+   * Sort options. Several sorts are applied in order, each breaking the ties of the previous one.
+   * Tasks without a priority sort as priority 0.
    */
-  sort?: {
-    field: string;
-    order: 'asc' | 'desc';
-  };
+  sort?: TaskSort | TaskSort[];
+}
+
+/**
+ * Task fields marking tasks that a background step has to come back to, queryable
+ * without scanning every task:
+ * - heldAt: dispatch held while the queue is paused
+ * - parkedAt: due beyond the transport's scheduling window
+ * - pendingDispatchAt: stored for the outbox relay to dispatch
+ */
+export const TASK_MARKERS = ['heldAt', 'parkedAt', 'pendingDispatchAt'] as const;
+
+/**
+ * Task marker field
+ */
+export type TaskMarker = typeof TASK_MARKERS[number];
+
+/**
+ * Sort order of a task query
+ */
+export interface TaskSort {
+  field: string;
+  order: 'asc' | 'desc';
 }
 
 /**
@@ -192,7 +615,12 @@ export interface IStateStorageAdapter {
   /**
    * Save a task to storage
    */
-  saveTask(task: ITask): Promise<void>;
+  saveTask(task: ITask, options?: StorageWriteOptions): Promise<void>;
+
+  /**
+   * Save new tasks in bulk, with as few round trips as the storage allows
+   */
+  saveTasks(tasks: ITask[], options?: StorageWriteOptions): Promise<void>;
 
   /**
    * Get a task by ID
@@ -204,6 +632,29 @@ export interface IStateStorageAdapter {
    */
   updateTaskStatus(taskId: string, status: TaskStatus, updateData?: Partial<ITask>): Promise<void>;
 
+  /**
+   * Update task fields without changing its status
+   */
+  updateTask(taskId: string, updateData: Partial<ITask>): Promise<void>;
+
+  /**
+   * Atomically change the status of a task, but only while it is in one of the given statuses,
+   * so that concurrent callers can't both make the same transition
+   * @returns The updated task, or null if the task is missing or in another status
+   */
+  transitionTask(
+    taskId: string,
+    fromStatuses: TaskStatus[],
+    toStatus: TaskStatus,
+    updateData?: Partial<ITask>,
+  ): Promise<ITask | null>;
+
+  /**
+   * Extend the lock of an active task, but only while the run holding lockToken still owns it
+   * @returns Whether the lock was renewed
+   */
+  renewTaskLock(taskId: string, lockToken: string, lockExpiresAt: Date): Promise<boolean>;
+
   /**
    * Delete a task
    */
@@ -224,20 +675,34 @@ export interface IStateStorageAdapter {
    */
   getTaskCount(options?: TaskQueryOptions): Promise<number>;
 
+  /**
+   * Get statistics for a queue
+   */
+  getQueueStats(queueName: string, options?: QueueStatsOptions): Promise<QueueStats>;
+
   /**
    * Check if a uniqueness key is active
    */
   isUniquenessKeyActive(key: string): Promise<boolean>;
 
   /**
-   * Set a uniqueness key as active
+   * Set a uniqueness key as active, replacing the task holding it
    */
   setUniquenessKeyActive(key: string, taskId: string, ttlSeconds?: number): Promise<void>;
 
+  /**
+   * Atomically set a uniqueness key as active unless another task holds it,
+   * so concurrent producers can't both acquire it. With a session, the key is only acquired
+   * if the caller's transaction commits.
+   * @returns The ID of the task holding the key, or null if it was acquired for taskId
+   */
+  acquireUniquenessKey(key: string, taskId: string, ttlSeconds: number, options?: StorageWriteOptions): Promise<string | null>;
+
   /**
    * Remove a uniqueness key
+   * @param taskId Only remove the key while this task holds it
    */
-  removeUniquenessKey(key: string): Promise<void>;
+  removeUniquenessKey(key: string, taskId?: string): Promise<void>;
 
   /**
    * Get rate limit information
@@ -245,13 +710,27 @@ export interface IStateStorageAdapter {
   getRateLimit(key: string): Promise<{ count: number; resetTime: Date } | null>;
 
   /**
-   * Increment rate limit counter
+   * Count a request against a rate limit, atomically per key
    * @param key Rate limit key
    * @param windowMs Window duration
    * @param maxRequests Maximum requests allowed
-   * @returns Object with allowed status and current count
+   * @param options Algorithm counting the requests (defaults to a fixed window)
+   * @returns Object with allowed status and current count. The reset time is when a denied
+   * request would be allowed, or when an allowed request stops counting against the limit.
+   * @throws When the storage fails, rather than denying the request
+   */
+  incrementRateLimit(
+    key: string,
+    windowMs: number,
+    maxRequests: number,
+    options?: Pick<RateLimiterOptions, 'algorithm' | 'burst'>,
+  ): Promise<{ allowed: boolean; count: number; resetTime: Date }>;
+
+  /**
+   * Give back the last request counted against a rate limit, atomically per key
+   * @param key Rate limit key
    */
-  incrementRateLimit(key: string, windowMs: number, maxRequests: number): Promise<{ allowed: boolean; count: number; resetTime: Date }>;
+  refundRateLimit(key: string): Promise<void>;
 
   /**
    * Delete rate limit entry
@@ -259,6 +738,63 @@ export interface IStateStorageAdapter {
    */
   deleteRateLimit?(key: string): Promise<void>;
 
+  /**
+   * Acquire a concurrency lease if fewer than `limit` unexpired leases are held for the key
+   * @param key Concurrency key
+   * @param leaseId Lease identifier (acquiring an already held lease renews it)
+   * @param limit Maximum number of leases for the key
+   * @param ttlMs Lease lifetime in milliseconds
+   * @returns Whether the lease was acquired
+   */
+  acquireConcurrencyLease(key: string, leaseId: string, limit: number, ttlMs: number): Promise<boolean>;
+
+  /**
+   * Release a concurrency lease
+   */
+  releaseConcurrencyLease(key: string, leaseId: string): Promise<void>;
+
+  /**
+   * Record the children a flow parent waits on
+   * @param parentId Parent task ID
+   * @param childIds IDs of the children still pending
+   */
+  setPendingChildren(parentId: string, childIds: string[]): Promise<void>;
+
+  /**
+   * Mark a child of a flow parent as settled
+   * @param parentId Parent task ID
+   * @param childId Child task ID
+   * @returns Number of children still pending, or null if the child wasn't pending
+   */
+  removePendingChild(parentId: string, childId: string): Promise<number | null>;
+
+  /**
+   * Forget every pending child of a flow parent
+   * @param parentId Parent task ID
+   */
+  clearPendingChildren(parentId: string): Promise<void>;
+
+  /**
+   * Create the completion counters of a batch
+   * @param batchId Batch identifier
+   * @param total Number of tasks in the batch
+   */
+  createBatch(batchId: string, total: number): Promise<void>;
+
+  /**
+   * Count the outcome of a batch member, once per member
+   * @param batchId Batch identifier
+   * @param taskId Member task ID
+   * @param outcome Whether the member completed or failed for good
+   * @returns Progress after counting, or null if the member was already counted or the batch is unknown
+   */
+  recordBatchOutcome(batchId: string, taskId: string, outcome: 'completed' | 'failed'): Promise<BatchProgress | null>;
+
+  /**
+   * Get the completion counts of a batch
+   */
+  getBatchProgress(batchId: string): Promise<BatchProgress | null>;
+
   /**
    * Check if there are active tasks in chain
    */
@@ -269,6 +805,72 @@ export interface IStateStorageAdapter {
    */
   getNextChainIndex(chainId: string): Promise<number>;
 
+  /**
+   * Mark a queue as paused or resumed
+   */
+  setQueuePaused(queueName: string, paused: boolean): Promise<void>;
+
+  /**
+   * Check if a queue is paused
+   */
+  isQueuePaused(queueName: string): Promise<boolean>;
+
+  /**
+   * Save a dead-letter entry
+   */
+  saveDeadLetter(entry: IDeadLetterEntry): Promise<void>;
+
+  /**
+   * Get a dead-letter entry by ID
+   */
+  getDeadLetter(id: string): Promise<IDeadLetterEntry | null>;
+
+  /**
+   * Get dead-letter entries ordered by failure time
+   */
+  getDeadLetters(options?: DeadLetterQueryOptions): Promise<IDeadLetterEntry[]>;
+
+  /**
+   * Delete a dead-letter entry
+   */
+  deleteDeadLetter(id: string): Promise<boolean>;
+
+  /**
+   * Delete dead-letter entries matching the options
+   * @returns Number of deleted entries
+   */
+  purgeDeadLetters(options?: DeadLetterQueryOptions): Promise<number>;
+
+  /**
+   * Save a repeatable task definition, replacing any with the same key
+   */
+  saveRepeatable(repeatable: IRepeatableTask): Promise<void>;
+
+  /**
+   * Get a repeatable task definition by key
+   */
+  getRepeatable(key: string): Promise<IRepeatableTask | null>;
+
+  /**
+   * Get repeatable task definitions, optionally of one queue
+   */
+  getRepeatables(queueName?: string): Promise<IRepeatableTask[]>;
+
+  /**
+   * Delete a repeatable task definition
+   */
+  deleteRepeatable(key: string): Promise<boolean>;
+
+  /**
+   * Claim an occurrence of a repeatable task by advancing it, only if its next run is still runAt.
+   * Exactly one caller claims each occurrence.
+   * @param key Repeatable identifier
+   * @param runAt Next run the caller read
+   * @param updateData Fields to store with the claim, such as the following nextRunAt and count
+   * @returns Whether the occurrence was claimed
+   */
+  claimRepeatableRun(key: string, runAt: Date, updateData: Partial<IRepeatableTask>): Promise<boolean>;
+
   /**
    * Clean up old tasks
    */
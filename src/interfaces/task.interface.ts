@@ -1,3 +1,12 @@
+import { RetryPolicy } from './config.interface';
+import {
+  ChainFailureMode,
+  FlowFailurePolicy,
+  ITask,
+  RepeatSchedule,
+  TaskFailureReason,
+} from './storage-adapter.interface';
+
 export { ITask, TaskStatus } from './storage-adapter.interface';
 
 /**
@@ -9,6 +18,11 @@ export interface AddTaskOptions {
    */
   delay?: number;
 
+  /**
+   * Absolute execution time, taking precedence over delay
+   */
+  runAt?: Date;
+
   /**
    * Maximum number of retry attempts
    */
@@ -34,11 +48,38 @@ export interface AddTaskOptions {
    */
   uniquenessKey?: string;
 
+  /**
+   * Lifetime of the uniqueness key in seconds (defaults to 24 hours)
+   */
+  uniquenessTtl?: number;
+
+  /**
+   * What happens when the uniqueness key is already held (defaults to 'skip-while-active')
+   */
+  uniquenessMode?: UniquenessMode;
+
+  /**
+   * Retry policy overriding the processor and queue policies
+   */
+  retryPolicy?: RetryPolicy;
+
+  /**
+   * Execution timeout in milliseconds, overriding the handler and queue timeouts
+   */
+  timeout?: number;
+
   /**
    * Chain options for task chaining
    */
   chain?: ChainOptions;
 
+  /**
+   * Storage session to save the task in, e.g. a mongoose ClientSession so the task is only
+   * stored if the caller's transaction commits. Requires the outbox, which dispatches the task
+   * once the transaction committed. The session itself is not stored with the task.
+   */
+  session?: unknown;
+
   /**
    * Custom task options
    */
@@ -68,6 +109,254 @@ export interface AddTaskResult {
    * Whether the task was skipped due to uniqueness key
    */
   skipped?: boolean;
+
+  /**
+   * ID of the pending task cancelled in favor of this one ('replace' uniqueness mode)
+   */
+  replacedTaskId?: string;
+
+  /**
+   * Whether the task was merged into the pending task holding its uniqueness key, whose delay
+   * was extended instead ('debounce' uniqueness mode). taskId is the ID of that task.
+   */
+  debounced?: boolean;
+
+  /**
+   * Whether Cloud Tasks already had a task with this task's name ('uniqueness-key' task naming),
+   * so the same work was already enqueued and this task was not stored
+   */
+  deduplicated?: boolean;
+}
+
+/**
+ * How a task whose uniqueness key is already held is deduplicated:
+ * - 'skip-while-active': skip it until the task holding the key completes, fails or is cancelled
+ * - 'skip-for-ttl': skip it until the key expires, even after the task holding it finished
+ * - 'replace': cancel the task holding the key if it hasn't started yet, and add this one instead
+ * - 'debounce': push the task holding the key back by this task's delay if it hasn't started yet
+ */
+export type UniquenessMode = 'skip-while-active' | 'skip-for-ttl' | 'replace' | 'debounce';
+
+/**
+ * Node of a flow: a task that only runs once all of its children completed
+ */
+export interface FlowNode<T = any> {
+  /**
+   * Queue the task is added to
+   */
+  queueName: string;
+
+  /**
+   * Task data payload
+   */
+  data: T;
+
+  /**
+   * Task options
+   */
+  options?: AddTaskOptions;
+
+  /**
+   * What this task's failure does to its parent (defaults to 'fail-parent')
+   */
+  onFailure?: FlowFailurePolicy;
+
+  /**
+   * Tasks that must settle before this task runs (possibly on other queues)
+   */
+  children?: FlowNode[];
+}
+
+/**
+ * Result of adding a flow node and its children
+ */
+export interface AddFlowResult extends AddTaskResult {
+  /**
+   * Queue the task was added to
+   */
+  queueName: string;
+
+  /**
+   * Results of the node's children
+   */
+  children?: AddFlowResult[];
+}
+
+/**
+ * Options for adding a repeatable task
+ */
+export interface RepeatOptions extends RepeatSchedule {
+  /**
+   * Repeatable identifier. Defaults to one derived from the queue, task name and schedule,
+   * so registering the same schedule again updates it instead of adding another.
+   */
+  key?: string;
+}
+
+/**
+ * Task added with addBatch or addTasks
+ */
+export interface BatchTask<T = any> {
+  /**
+   * Task data payload
+   */
+  data: T;
+
+  /**
+   * Task options
+   */
+  options?: AddTaskOptions;
+}
+
+/**
+ * Options for adding a batch of tasks
+ */
+export interface AddBatchOptions {
+  /**
+   * Batch identifier (generated if omitted)
+   */
+  id?: string;
+
+  /**
+   * Task added once every member finished; its data is extended with the batch summary
+   */
+  callback?: {
+    queueName: string;
+    data?: Record<string, any>;
+    options?: AddTaskOptions;
+  };
+}
+
+/**
+ * Options for adding tasks in bulk
+ */
+export interface AddTasksOptions {
+  /**
+   * Maximum number of tasks prepared or dispatched at the same time (defaults to 10)
+   */
+  concurrency?: number;
+
+  /**
+   * Storage session to save the tasks in, as with AddTaskOptions.session.
+   * Applies to every task; sessions in the tasks' own options are ignored.
+   */
+  session?: unknown;
+}
+
+/**
+ * Result of adding a batch of tasks
+ */
+export interface AddBatchResult {
+  /**
+   * Batch identifier
+   */
+  batchId: string;
+
+  /**
+   * Results of the members, in the order they were given
+   */
+  results: AddTaskResult[];
+
+  /**
+   * Result of adding the callback task
+   */
+  callback?: AddTaskResult;
+}
+
+/**
+ * Outcome of a batch once every member finished
+ */
+export interface BatchSummary {
+  /**
+   * Batch identifier
+   */
+  batchId: string;
+
+  /**
+   * Number of tasks in the batch
+   */
+  total: number;
+
+  /**
+   * Number of members that completed
+   */
+  completed: number;
+
+  /**
+   * Number of members that failed for good
+   */
+  failed: number;
+
+  /**
+   * Results of the completed members, keyed by task ID
+   */
+  results: Record<string, any>;
+
+  /**
+   * Errors of the failed members, keyed by task ID
+   */
+  failures: Record<string, { message: string; reason?: TaskFailureReason }>;
+}
+
+/**
+ * Payload delivered to the consumer when a task is dispatched
+ */
+export interface TaskPayload {
+  /**
+   * Task ID
+   */
+  taskId: string;
+
+  /**
+   * Queue name
+   */
+  queueName: string;
+
+  /**
+   * Task data
+   */
+  data: any;
+
+  /**
+   * Number of attempts made so far
+   */
+  attempts: number;
+
+  /**
+   * Maximum attempts allowed
+   */
+  maxAttempts: number;
+
+  /**
+   * Chain information
+   */
+  chain?: ITask['chain'];
+
+  /**
+   * Uniqueness key
+   */
+  uniquenessKey?: string;
+}
+
+/**
+ * Details of a delivery sent by Cloud Tasks in its X-CloudTasks-* request headers
+ */
+export interface TaskDelivery {
+  /**
+   * Cloud Tasks task name (X-CloudTasks-TaskName)
+   */
+  taskName?: string;
+
+  /**
+   * Number of times the task was retried before this delivery, including deliveries
+   * that got no response (X-CloudTasks-TaskRetryCount)
+   */
+  retryCount?: number;
+
+  /**
+   * Number of earlier deliveries that got a response from the handler (X-CloudTasks-TaskExecutionCount)
+   */
+  executionCount?: number;
 }
 
 /**
@@ -90,9 +379,14 @@ export interface ChainOptions {
   total?: number;
 
   /**
-   * Wait for previous task completion
+   * Wait for previous task completion before dispatching the task (defaults to true)
    */
   waitForPrevious?: boolean;
+
+  /**
+   * What happens to the rest of the chain when the task fails (defaults to 'halt')
+   */
+  onFailure?: ChainFailureMode;
 }
 
 /**
@@ -165,6 +459,7 @@ export interface TaskFailedEvent<T = any> extends TaskEvent<T> {
   error: {
     message: string;
     stack?: string;
+    reason?: TaskFailureReason;
   };
 
   /**
@@ -183,6 +478,138 @@ export interface TaskFailedEvent<T = any> extends TaskEvent<T> {
   isFinalAttempt: boolean;
 }
 
+/**
+ * Task dead-lettered event data
+ */
+export interface TaskDeadLetteredEvent<T = any> extends TaskEvent<T> {
+  /**
+   * Name of the dead-letter queue
+   */
+  deadLetterQueue: string;
+
+  /**
+   * Number of attempts made
+   */
+  attempts: number;
+
+  /**
+   * Error from the final attempt
+   */
+  error: {
+    message: string;
+    stack?: string;
+    reason?: TaskFailureReason;
+  };
+}
+
+/**
+ * Task retry event data
+ */
+export interface TaskRetryEvent<T = any> extends TaskEvent<T> {
+  /**
+   * Error information from the failed attempt
+   */
+  error: {
+    message: string;
+    stack?: string;
+    reason?: TaskFailureReason;
+  };
+
+  /**
+   * Number of attempts made
+   */
+  attempts: number;
+
+  /**
+   * Time of the next attempt
+   */
+  nextAttemptAt: Date;
+}
+
+/**
+ * Task rate limited event data
+ */
+export interface TaskRateLimitedEvent<T = any> extends TaskEvent<T> {
+  /**
+   * Key of the rate limit that was exceeded
+   */
+  rateLimitKey: string;
+
+  /**
+   * Time the task was rescheduled for
+   */
+  scheduledFor: Date;
+}
+
+/**
+ * Task stalled event data
+ */
+export interface TaskStalledEvent<T = any> extends TaskEvent<T> {
+  /**
+   * Number of times the task has stalled
+   */
+  stalledCount: number;
+
+  /**
+   * Time the task's lock expired
+   */
+  lockExpiredAt: Date;
+
+  /**
+   * Whether the task was re-queued for another run or failed
+   */
+  action: 'requeued' | 'failed';
+}
+
+/**
+ * Chain failed event data, for the step that failed
+ */
+export interface ChainFailedEvent<T = any> extends TaskEvent<T> {
+  /**
+   * Chain identifier
+   */
+  chainId: string;
+
+  /**
+   * Index of the failed step
+   */
+  index: number;
+
+  /**
+   * Total number of steps in the chain
+   */
+  total: number;
+
+  /**
+   * Error from the failed step's final attempt
+   */
+  error: {
+    message: string;
+    stack?: string;
+    reason?: TaskFailureReason;
+  };
+
+  /**
+   * Whether the rest of the chain was halted or the failed step was skipped
+   */
+  action: 'halted' | 'skipped';
+}
+
+/**
+ * Batch completed event data, emitted once every member of a batch finished
+ */
+export interface BatchCompletedEvent extends BatchSummary {
+  /**
+   * ID of the callback task released with the summary
+   */
+  callbackTaskId?: string;
+
+  /**
+   * Event timestamp
+   */
+  timestamp: Date;
+}
+
 /**
  * Task progress event data
  */
@@ -0,0 +1,45 @@
+import { QueueConfig } from './config.interface';
+import { ITask } from './storage-adapter.interface';
+
+/**
+ * Transport interface used by the producer to hand saved tasks over for delivery
+ */
+export interface ITaskTransport {
+  /**
+   * Initialize the transport
+   */
+  initialize(): Promise<void>;
+
+  /**
+   * Furthest ahead a delivery can be scheduled, in milliseconds. Tasks due later are
+   * parked in storage and dispatched once they come within reach (unlimited if unset).
+   */
+  readonly maxScheduleDelayMs?: number;
+
+  /**
+   * Dispatch a task that has already been persisted in storage
+   * @returns Name of the task in the transport, if it assigns one
+   * @throws An error created with createTaskAlreadyExistsError if the transport already has a task of that name
+   */
+  dispatch(queueConfig: QueueConfig, task: ITask): Promise<string | void>;
+
+  /**
+   * Cancel a pending delivery of a task
+   */
+  cancel?(queueConfig: QueueConfig, task: ITask): Promise<void>;
+
+  /**
+   * Pause delivery for a queue in the transport
+   */
+  pauseQueue?(queueConfig: QueueConfig): Promise<void>;
+
+  /**
+   * Resume delivery for a queue in the transport
+   */
+  resumeQueue?(queueConfig: QueueConfig): Promise<void>;
+
+  /**
+   * Close the transport and release its resources
+   */
+  close(): Promise<void>;
+}
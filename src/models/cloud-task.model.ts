@@ -1,5 +1,6 @@
-import { ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
-import { TaskProgress } from '../interfaces/task.interface';
+import { ITask, TaskErrorEntry, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { TaskDelivery, TaskProgress } from '../interfaces/task.interface';
+import { getFailureReason } from '../utils/task-timeout.utils';
 
 /**
  * CloudTask model representing a task in the queue system
@@ -11,19 +12,47 @@ export class CloudTask<T = any> {
   public status: TaskStatus;
   public readonly createdAt: Date;
   public updatedAt: Date;
+  public activeAt?: Date;
   public completedAt?: Date;
   public failedAt?: Date;
+  public cancelledAt?: Date;
   public attempts: number;
   public readonly maxAttempts: number;
-  public error?: { message: string; stack?: string; timestamp: Date };
+  public error?: ITask['error'];
+  public errorHistory: TaskErrorEntry[];
   public progress?: { percentage: number; data?: any };
   public result?: any;
   public readonly delay?: number;
   public readonly scheduledFor?: Date;
-  public readonly chain?: { id: string; index: number; total: number };
+  public nextAttemptAt?: Date;
+  public lockExpiresAt?: Date;
+  public stalledCount?: number;
+  public readonly chain?: ITask['chain'];
+  public readonly previousResult?: any;
+  public readonly parent?: ITask['parent'];
+  public readonly childIds?: string[];
+  public readonly batch?: ITask['batch'];
   public readonly uniquenessKey?: string;
+  public readonly priority?: number;
+  public readonly cloudTaskName?: string;
+  public readonly dispatchCount?: number;
   public readonly options?: { removeOnComplete?: boolean; removeOnFail?: boolean; priority?: number; [key: string]: any };
 
+  /**
+   * Aborted when the task exceeds its timeout, so handlers can stop cooperatively
+   */
+  public signal?: AbortSignal;
+
+  /**
+   * Details of the current delivery, when it came from Cloud Tasks
+   */
+  public delivery?: TaskDelivery;
+
+  /**
+   * Results of the task's completed flow children, keyed by child task ID
+   */
+  public childrenResults?: Record<string, any>;
+
   constructor(task: ITask) {
     this.id = task.id;
     this.queueName = task.queueName;
@@ -31,17 +60,30 @@ export class CloudTask<T = any> {
     this.status = task.status;
     this.createdAt = task.createdAt;
     this.updatedAt = task.updatedAt;
+    this.activeAt = task.activeAt;
     this.completedAt = task.completedAt;
     this.failedAt = task.failedAt;
+    this.cancelledAt = task.cancelledAt;
     this.attempts = task.attempts;
     this.maxAttempts = task.maxAttempts;
     this.error = task.error;
+    this.errorHistory = task.errorHistory ? [...task.errorHistory] : [];
     this.progress = task.progress;
     this.result = task.result;
     this.delay = task.delay;
     this.scheduledFor = task.scheduledFor;
+    this.nextAttemptAt = task.nextAttemptAt;
+    this.lockExpiresAt = task.lockExpiresAt;
+    this.stalledCount = task.stalledCount;
     this.chain = task.chain;
+    this.previousResult = task.previousResult;
+    this.parent = task.parent;
+    this.childIds = task.childIds;
+    this.batch = task.batch;
     this.uniquenessKey = task.uniquenessKey;
+    this.priority = task.priority;
+    this.cloudTaskName = task.cloudTaskName;
+    this.dispatchCount = task.dispatchCount;
     this.options = task.options;
   }
 
@@ -61,6 +103,7 @@ export class CloudTask<T = any> {
    */
   markAsActive(): void {
     this.status = TaskStatus.ACTIVE;
+    this.activeAt = new Date();
     this.updatedAt = new Date();
   }
 
@@ -83,6 +126,7 @@ export class CloudTask<T = any> {
       message: typeof error === 'string' ? error : error.message,
       stack: typeof error === 'string' ? undefined : error.stack,
       timestamp: new Date(),
+      reason: getFailureReason(error),
     };
     this.failedAt = new Date();
     this.updatedAt = new Date();
@@ -96,6 +140,28 @@ export class CloudTask<T = any> {
     this.updatedAt = new Date();
   }
 
+  /**
+   * Mark task as cancelled
+   */
+  markAsCancelled(): void {
+    this.status = TaskStatus.CANCELLED;
+    this.cancelledAt = new Date();
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Record the error raised by the current attempt
+   */
+  recordError(error: Error | string): void {
+    this.errorHistory.push({
+      message: typeof error === 'string' ? error : error.message,
+      stack: typeof error === 'string' ? undefined : error.stack,
+      timestamp: new Date(),
+      attempt: this.attempts,
+      reason: getFailureReason(error),
+    });
+  }
+
   /**
    * Check if task has exceeded maximum attempts
    */
@@ -152,7 +218,7 @@ export class CloudTask<T = any> {
    * Get task priority
    */
   getPriority(): number {
-    return this.options?.priority ?? 0;
+    return this.priority ?? this.options?.priority ?? 0;
   }
 
   /**
@@ -184,17 +250,30 @@ export class CloudTask<T = any> {
       status: this.status,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
+      activeAt: this.activeAt,
       completedAt: this.completedAt,
       failedAt: this.failedAt,
+      cancelledAt: this.cancelledAt,
       attempts: this.attempts,
       maxAttempts: this.maxAttempts,
       error: this.error,
+      errorHistory: this.errorHistory,
       progress: this.progress,
       result: this.result,
       delay: this.delay,
       scheduledFor: this.scheduledFor,
+      nextAttemptAt: this.nextAttemptAt,
+      lockExpiresAt: this.lockExpiresAt,
+      stalledCount: this.stalledCount,
       chain: this.chain,
+      previousResult: this.previousResult,
+      parent: this.parent,
+      childIds: this.childIds,
+      batch: this.batch,
       uniquenessKey: this.uniquenessKey,
+      priority: this.priority,
+      cloudTaskName: this.cloudTaskName,
+      dispatchCount: this.dispatchCount,
       options: this.options,
     };
   }
@@ -0,0 +1,99 @@
+import { BatchProgress, IStateStorageAdapter, ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { CloudTaskMQConfig } from '../interfaces/config.interface';
+import { BatchCompletedEvent, BatchSummary } from '../interfaces/task.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+import { releaseWaitingTask } from '../utils/task-dispatch.utils';
+
+/**
+ * Batch service.
+ * Counts the outcomes of batch members through the storage adapter's batch counters,
+ * and once every member finished aggregates their results and releases the callback task.
+ */
+export class BatchService {
+  constructor(
+    private readonly config: CloudTaskMQConfig,
+    private readonly storageAdapter: IStateStorageAdapter,
+    private transport?: ITaskTransport,
+  ) {}
+
+  /**
+   * Set the transport used to dispatch released callback tasks
+   */
+  setTransport(transport: ITaskTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Count the outcome of a batch member, and complete the batch if it was the last one
+   * @param task Member task (only its ID and batch reference are used)
+   * @param outcome Whether the member completed or failed for good
+   * @returns The batch completed event to emit, or null while members are still running
+   * @throws When the batch could not be completed after its last member was counted
+   */
+  async recordOutcome(
+    task: Pick<ITask, 'id' | 'batch'>,
+    outcome: 'completed' | 'failed',
+  ): Promise<BatchCompletedEvent | null> {
+    const batch = task.batch;
+    if (!batch) return null;
+
+    let progress: BatchProgress | null;
+    try {
+      progress = await this.storageAdapter.recordBatchOutcome(batch.id, task.id, outcome);
+    } catch (recordError) {
+      console.error(`Failed to record outcome of task ${task.id} in batch ${batch.id}:`, recordError);
+      return null;
+    }
+
+    if (!progress || progress.completed + progress.failed < progress.total) {
+      // Already counted, or other members are still running
+      return null;
+    }
+
+    // The last member was counted, so a failure here is thrown as no other member completes the batch
+    return await this.completeBatch(progress, batch.callbackTaskId);
+  }
+
+  /**
+   * Aggregate the members' results and release the callback task with the summary
+   */
+  private async completeBatch(progress: BatchProgress, callbackTaskId?: string): Promise<BatchCompletedEvent> {
+    const summary: BatchSummary = {
+      ...progress,
+      results: {},
+      failures: {},
+    };
+
+    // Members removed on completion or failure are counted but not listed
+    const members = await this.storageAdapter.getTasks({ batchId: progress.batchId });
+    for (const member of members) {
+      if (member.status === TaskStatus.COMPLETED) {
+        summary.results[member.id] = member.result;
+      } else if (member.status === TaskStatus.FAILED) {
+        summary.failures[member.id] = {
+          message: member.error?.message ?? 'Unknown error',
+          reason: member.error?.reason,
+        };
+      }
+    }
+
+    if (callbackTaskId) {
+      await this.releaseCallback(callbackTaskId, summary);
+    }
+
+    return { ...summary, callbackTaskId, timestamp: new Date() };
+  }
+
+  /**
+   * Make the waiting callback task runnable with the batch summary in its data and dispatch it
+   */
+  private async releaseCallback(callbackTaskId: string, summary: BatchSummary): Promise<void> {
+    const callback = await this.storageAdapter.getTask(callbackTaskId);
+    if (!callback || callback.status !== TaskStatus.WAITING) return;
+
+    const queueConfig = this.config.queues.find(queue => queue.name === callback.queueName);
+    await releaseWaitingTask(this.storageAdapter, this.transport, queueConfig, callback, {
+      data: { ...callback.data, batch: summary },
+    }, this.config.outbox?.enabled === true);
+  }
+}
@@ -0,0 +1,121 @@
+import { IStateStorageAdapter } from '../interfaces/storage-adapter.interface';
+import { ConcurrencyOptions } from '../interfaces/config.interface';
+
+/**
+ * Concurrency limit applied to a key
+ */
+export interface ConcurrencyLimit {
+  /**
+   * Concurrency key (see createQueueKey and createHandlerKey)
+   */
+  key: string;
+
+  /**
+   * Maximum number of tasks running at once for the key
+   */
+  limit: number;
+}
+
+/**
+ * Concurrency service.
+ * Limits running tasks with an in-process semaphore and, when distributed,
+ * with leases held in the storage adapter so the limits hold across instances.
+ */
+export class ConcurrencyService {
+  private running: Map<string, number> = new Map();
+
+  constructor(
+    private readonly storageAdapter: IStateStorageAdapter,
+    private readonly options: ConcurrencyOptions = {},
+  ) {}
+
+  /**
+   * Take a slot for every limit, or none of them
+   * @param limits Limits to respect
+   * @param leaseId Identifier of the holder (e.g. the task ID)
+   * @returns Whether the slots were acquired
+   */
+  async acquire(limits: ConcurrencyLimit[], leaseId: string): Promise<boolean> {
+    if (limits.length === 0) {
+      return true;
+    }
+
+    // Check and take the local slots synchronously so concurrent deliveries can't interleave
+    if (limits.some(({ key, limit }) => (this.running.get(key) ?? 0) >= limit)) {
+      return false;
+    }
+    for (const { key } of limits) {
+      this.running.set(key, (this.running.get(key) ?? 0) + 1);
+    }
+
+    if (!this.options.distributed) {
+      return true;
+    }
+
+    const leased: string[] = [];
+    try {
+      for (const { key, limit } of limits) {
+        const acquired = await this.storageAdapter.acquireConcurrencyLease(
+          key,
+          leaseId,
+          limit,
+          this.options.leaseTtlMs ?? 600000,
+        );
+        if (!acquired) {
+          break;
+        }
+        leased.push(key);
+      }
+    } finally {
+      if (leased.length < limits.length) {
+        await Promise.all(leased.map(key => this.storageAdapter.releaseConcurrencyLease(key, leaseId)));
+        this.releaseLocal(limits);
+      }
+    }
+
+    return leased.length === limits.length;
+  }
+
+  /**
+   * Give back the slots taken by acquire
+   */
+  async release(limits: ConcurrencyLimit[], leaseId: string): Promise<void> {
+    this.releaseLocal(limits);
+
+    if (this.options.distributed) {
+      await Promise.all(limits.map(({ key }) => this.storageAdapter.releaseConcurrencyLease(key, leaseId)));
+    }
+  }
+
+  /**
+   * Get the number of tasks running in this process for a key
+   */
+  getRunning(key: string): number {
+    return this.running.get(key) ?? 0;
+  }
+
+  /**
+   * Create a concurrency key for a queue
+   */
+  static createQueueKey(queueName: string): string {
+    return ['queue', queueName].join(':');
+  }
+
+  /**
+   * Create a concurrency key for a named handler of a queue
+   */
+  static createHandlerKey(queueName: string, handlerName: string): string {
+    return ['handler', queueName, handlerName].join(':');
+  }
+
+  private releaseLocal(limits: ConcurrencyLimit[]): void {
+    for (const { key } of limits) {
+      const running = (this.running.get(key) ?? 1) - 1;
+      if (running > 0) {
+        this.running.set(key, running);
+      } else {
+        this.running.delete(key);
+      }
+    }
+  }
+}
@@ -1,8 +1,38 @@
+import { v4 as uuidv4 } from 'uuid';
 import { EventEmitter } from 'events';
-import { IStateStorageAdapter, TaskStatus } from '../interfaces/storage-adapter.interface';
-import { CloudTaskMQConfig } from '../interfaces/config.interface';
+import { IStateStorageAdapter, ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { CloudTaskMQConfig, ProcessRateLimiterOptions, RetryPolicy } from '../interfaces/config.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
 import { CloudTask } from '../models/cloud-task.model';
-import { TaskCompletedEvent, TaskFailedEvent, TaskProgressEvent, TaskProgress } from '../interfaces/task.interface';
+import {
+  TaskCompletedEvent,
+  TaskFailedEvent,
+  TaskProgressEvent,
+  TaskProgress,
+  TaskPayload,
+  TaskDelivery,
+  TaskRetryEvent,
+  TaskRateLimitedEvent,
+  TaskDeadLetteredEvent,
+  ChainFailedEvent,
+} from '../interfaces/task.interface';
+import { calculateRetryDelay } from '../utils/retry-policy.utils';
+import { createTaskTimeoutError, getFailureReason } from '../utils/task-timeout.utils';
+import { dispatchStoredTask, releaseWaitingTask } from '../utils/task-dispatch.utils';
+import { releaseUniquenessKey } from '../utils/uniqueness.utils';
+import { createRateLimitError } from '../utils/rate-limit.utils';
+import {
+  createConcurrencyLimitError,
+  createQueuePausedError,
+  createTaskAlreadyProcessingError,
+  createTaskNotDueError,
+  createTaskNotFoundError,
+} from '../utils/delivery-errors.utils';
+import { ConcurrencyLimit, ConcurrencyService } from './concurrency.service';
+import { RateLimiterService } from './rate-limiter.service';
+import { DEFAULT_LOCK_DURATION_MS } from './stalled-task.service';
+import { FlowService } from './flow.service';
+import { BatchService } from './batch.service';
 import {
   PROCESSOR_QUEUE_KEY,
   PROCESSOR_METADATA_KEY,
@@ -10,7 +40,12 @@ import {
 } from '../decorators/processor.decorator';
 import {
   PROCESS_METADATA_KEY,
+  ProcessRepeatOptions,
 } from '../decorators/process.decorator';
+import {
+  CLOUD_TASK_CONSUMER_KEY,
+  CloudTaskConsumerOptions,
+} from '../decorators/cloud-task-consumer.decorator';
 import {
   EVENT_HANDLERS_KEY,
   EventHandlerMetadata,
@@ -24,27 +59,53 @@ export interface ProcessorRegistration {
   instance: any;
   queueName: string;
   options: ProcessorOptions;
-  processHandlers: Array<{
-    methodName: string;
-    name: string;
-    concurrency?: number;
-    handler: Function;
-  }>;
+  consumerOptions?: CloudTaskConsumerOptions;
+  processHandlers: ProcessHandlerRegistration[];
   eventHandlers: EventHandlerMetadata[];
 }
 
+/**
+ * Registered @Process handler
+ */
+export interface ProcessHandlerRegistration {
+  methodName: string;
+  name: string;
+  concurrency?: number;
+  timeout?: number;
+  rateLimiter?: ProcessRateLimiterOptions;
+  repeat?: ProcessRepeatOptions;
+  handler: Function;
+}
+
+/**
+ * Rate limit checked before running a task
+ */
+interface TaskRateLimit {
+  key: string;
+  options: ProcessRateLimiterOptions;
+}
+
 /**
  * Consumer service for processing tasks
  */
 export class ConsumerService extends EventEmitter {
   private processors: Map<string, ProcessorRegistration[]> = new Map();
   private activeProcessors: Map<string, Set<string>> = new Map(); // queueName -> Set of taskIds
+  private transport?: ITaskTransport;
+  private concurrencyService: ConcurrencyService;
+  private rateLimiterService: RateLimiterService;
+  private flowService: FlowService;
+  private batchService: BatchService;
 
   constructor(
     private readonly config: CloudTaskMQConfig,
     private readonly storageAdapter: IStateStorageAdapter,
   ) {
     super();
+    this.concurrencyService = new ConcurrencyService(storageAdapter, config.concurrency);
+    this.rateLimiterService = new RateLimiterService(storageAdapter);
+    this.flowService = new FlowService(config, storageAdapter);
+    this.batchService = new BatchService(config, storageAdapter);
   }
 
   /**
@@ -54,10 +115,19 @@ export class ConsumerService extends EventEmitter {
     // Consumer is initialized when processors are registered
   }
 
+  /**
+   * Set the transport used to re-enqueue tasks for retries
+   */
+  setTransport(transport: ITaskTransport): void {
+    this.transport = transport;
+    this.flowService.setTransport(transport);
+    this.batchService.setTransport(transport);
+  }
+
   /**
    * Register a processor instance
    */
-  registerProcessor(instance: any): void {
+  registerProcessor(instance: any): ProcessorRegistration {
     const queueName = Reflect.getMetadata(PROCESSOR_QUEUE_KEY, instance.constructor);
     if (!queueName) {
       throw new Error('Processor must be decorated with @Processor');
@@ -66,6 +136,8 @@ export class ConsumerService extends EventEmitter {
     const options: ProcessorOptions = Reflect.getMetadata(PROCESSOR_METADATA_KEY, instance.constructor) || {};
     const processHandlers = Reflect.getMetadata(PROCESS_METADATA_KEY, instance) || [];
     const eventHandlers: EventHandlerMetadata[] = Reflect.getMetadata(EVENT_HANDLERS_KEY, instance) || [];
+    const consumerOptions: CloudTaskConsumerOptions | undefined =
+      Reflect.getMetadata(CLOUD_TASK_CONSUMER_KEY, instance.constructor);
 
     if (processHandlers.length === 0) {
       throw new Error(`Processor for queue "${queueName}" must have at least one @Process decorated method`);
@@ -75,6 +147,7 @@ export class ConsumerService extends EventEmitter {
       instance,
       queueName,
       options,
+      consumerOptions: consumerOptions?.queueName === queueName ? consumerOptions : undefined,
       processHandlers,
       eventHandlers,
     };
@@ -87,30 +160,48 @@ export class ConsumerService extends EventEmitter {
     this.processors.get(queueName)!.push(registration);
     
     console.log(`Registered processor for queue "${queueName}" with ${processHandlers.length} process handlers`);
+    return registration;
   }
 
   /**
    * Process a task received from Cloud Tasks
+   * @param delivery Delivery details from the Cloud Tasks request headers
    */
-  async processTask(payload: {
-    taskId: string;
-    queueName: string;
-    data: any;
-    attempts: number;
-    maxAttempts: number;
-    chain?: { id: string; index: number; total: number };
-    uniquenessKey?: string;
-  }): Promise<any> {
+  async processTask(payload: TaskPayload, delivery?: TaskDelivery): Promise<any> {
     const { taskId, queueName } = payload;
 
     // Get task from storage
     let task = await this.storageAdapter.getTask(taskId);
     if (!task) {
-      throw new Error(`Task ${taskId} not found in storage`);
+      throw createTaskNotFoundError(taskId);
+    }
+
+    // Cancelled tasks and tasks that failed for good are acknowledged without running
+    if (task.status === TaskStatus.CANCELLED || task.status === TaskStatus.FAILED) {
+      return undefined;
+    }
+
+    // Deliveries are at least once: a task that already completed is not run again
+    if (task.status === TaskStatus.COMPLETED) {
+      if (delivery?.retryCount) {
+        console.warn(`Task ${taskId} was delivered again after completing (retry ${delivery.retryCount}), returning its stored result`);
+      }
+      return task.result;
+    }
+
+    // A stale or early delivery must not run a delayed task before it is due
+    if (task.status === TaskStatus.DELAYED && task.scheduledFor && new Date(task.scheduledFor).getTime() > Date.now()) {
+      throw createTaskNotDueError(taskId, new Date(task.scheduledFor));
+    }
+
+    // Defer deliveries while the queue is paused so they are retried later
+    if (await this.storageAdapter.isQueuePaused(queueName)) {
+      throw createQueuePausedError(queueName);
     }
 
     // Create CloudTask instance
     const cloudTask = new CloudTask(task);
+    cloudTask.delivery = delivery;
 
     // Check if task is already being processed
     let activeProcessors = this.activeProcessors.get(queueName);
@@ -119,8 +210,8 @@ export class ConsumerService extends EventEmitter {
       this.activeProcessors.set(queueName, activeProcessors);
     }
     
-    if (activeProcessors.has(taskId)) {
-      throw new Error(`Task ${taskId} is already being processed`);
+    if (activeProcessors.has(taskId) || task.status === TaskStatus.ACTIVE) {
+      throw createTaskAlreadyProcessingError(taskId);
     }
 
     // Get processors for this queue
@@ -129,14 +220,52 @@ export class ConsumerService extends EventEmitter {
       throw new Error(`No processors registered for queue "${queueName}"`);
     }
 
-    // Mark task as active
+    // Take a slot within the queue and handler concurrency limits
+    const resolved = this.resolveHandler(processors, cloudTask);
+    const concurrencyLimits = this.getConcurrencyLimits(queueName, resolved.handler);
+    if (!(await this.concurrencyService.acquire(concurrencyLimits, taskId))) {
+      throw createConcurrencyLimitError(queueName);
+    }
+
+    // Tasks over a rate limit of their processor or process are rescheduled instead of run.
+    // Checked once the concurrency slot is taken, so a rejected delivery uses up no rate limit slot.
+    let deferred: boolean;
+    try {
+      deferred = await this.deferRateLimitedTask(resolved, cloudTask);
+    } catch (error) {
+      await this.concurrencyService.release(concurrencyLimits, taskId);
+      throw error;
+    }
+    if (deferred) {
+      await this.concurrencyService.release(concurrencyLimits, taskId);
+      return undefined;
+    }
+
+    // Mark task as active. Only one delivery can claim an idle task, even across instances.
     cloudTask.markAsActive();
-    await this.storageAdapter.updateTaskStatus(taskId, TaskStatus.ACTIVE, {
-      updatedAt: cloudTask.updatedAt,
-    });
+    let claimed: ITask | null;
+    const lockToken = uuidv4();
+    try {
+      cloudTask.lockExpiresAt = this.getLockExpiry();
+      claimed = await this.storageAdapter.transitionTask(taskId, [TaskStatus.IDLE, TaskStatus.DELAYED], TaskStatus.ACTIVE, {
+        activeAt: cloudTask.activeAt,
+        lockExpiresAt: cloudTask.lockExpiresAt,
+        lockToken: cloudTask.lockExpiresAt ? lockToken : undefined,
+        concurrencyKeys: concurrencyLimits.length > 0 ? concurrencyLimits.map(limit => limit.key) : undefined,
+        updatedAt: cloudTask.updatedAt,
+      });
+    } catch (error) {
+      await this.concurrencyService.release(concurrencyLimits, taskId);
+      throw error;
+    }
+    if (!claimed) {
+      await this.concurrencyService.release(concurrencyLimits, taskId);
+      throw createTaskAlreadyProcessingError(taskId);
+    }
 
-    // Add to active processors
+    // Add to active processors and keep the task's lock alive while it runs
     activeProcessors.add(taskId);
+    const lockRenewal = this.startLockRenewal(taskId, lockToken);
 
     try {
       // Emit active event
@@ -150,16 +279,25 @@ export class ConsumerService extends EventEmitter {
         timestamp: new Date(),
       });
 
+      // Flow parents get the results of their children
+      if (cloudTask.childIds && cloudTask.childIds.length > 0) {
+        cloudTask.childrenResults = await this.flowService.getChildrenResults(cloudTask);
+      }
+
       // Process the task
-      const result = await this.executeTaskProcessing(processors, cloudTask);
+      const result = await this.executeTaskProcessing(resolved, cloudTask)
+        .finally(() => lockRenewal.stop());
 
       // Mark as completed
       cloudTask.markAsCompleted(result);
-      await this.storageAdapter.updateTaskStatus(taskId, TaskStatus.COMPLETED, {
+      const completed = await this.transitionFromActive(taskId, TaskStatus.COMPLETED, {
         result,
         completedAt: cloudTask.completedAt,
         updatedAt: cloudTask.updatedAt,
       });
+      if (!completed) {
+        return result;
+      }
 
       // Emit completed event
       const completedEvent: TaskCompletedEvent = {
@@ -173,9 +311,25 @@ export class ConsumerService extends EventEmitter {
       await this.emitTaskEvent('completed', processors, cloudTask, result);
       this.emit('taskCompleted', completedEvent);
 
-      // Handle chain progression
+      // A failed release of a waiting task is thrown once this task is cleaned up
+      let releaseError: unknown;
+      const keepReleaseError = (error: unknown) => {
+        releaseError = releaseError ?? error;
+      };
+
+      // Release the next step of the chain
       if (cloudTask.isInChain() && !cloudTask.isLastInChain()) {
-        await this.processNextInChain(cloudTask);
+        await this.dispatchNextInChain(cloudTask, result).catch(keepReleaseError);
+      }
+
+      // Release the flow parent once all of its children completed
+      if (cloudTask.parent) {
+        await this.flowService.settleChild(cloudTask, 'completed').catch(keepReleaseError);
+      }
+
+      // Complete the batch once all of its members finished
+      if (cloudTask.batch) {
+        await this.recordBatchOutcome(cloudTask, 'completed').catch(keepReleaseError);
       }
 
       // Clean up if configured
@@ -183,41 +337,65 @@ export class ConsumerService extends EventEmitter {
         await this.storageAdapter.deleteTask(taskId);
       }
 
-      // Remove uniqueness key if configured
-      if (cloudTask.uniquenessKey && cloudTask.shouldRemoveOnComplete()) {
-        await this.storageAdapter.removeUniquenessKey(cloudTask.uniquenessKey);
+      // Let new tasks with the same uniqueness key in
+      await releaseUniquenessKey(this.storageAdapter, cloudTask);
+
+      if (releaseError) {
+        throw releaseError;
       }
 
       return result;
     } catch (error) {
+      // The task completed, but releasing its chain step, flow parent or batch callback failed
+      if (cloudTask.status === TaskStatus.COMPLETED) {
+        throw error;
+      }
+
       // Handle task failure
       cloudTask.incrementAttempts();
+      cloudTask.recordError(error instanceof Error ? error : new Error(String(error)));
       
       const isLastAttempt = cloudTask.hasExceededMaxAttempts();
       if (isLastAttempt) {
         cloudTask.markAsFailed(error instanceof Error ? error : new Error(String(error)));
-        await this.storageAdapter.updateTaskStatus(taskId, TaskStatus.FAILED, {
+        const failed = await this.transitionFromActive(taskId, TaskStatus.FAILED, {
           error: cloudTask.error,
+          errorHistory: cloudTask.errorHistory,
           failedAt: cloudTask.failedAt,
           attempts: cloudTask.attempts,
           updatedAt: cloudTask.updatedAt,
         });
+        if (!failed) {
+          return undefined;
+        }
+
+        // Copy the task into the dead-letter queue if configured
+        await this.moveToDeadLetterQueue(cloudTask);
 
         // Clean up if configured
         if (cloudTask.shouldRemoveOnFail()) {
           await this.storageAdapter.deleteTask(taskId);
         }
 
-        // Remove uniqueness key if configured
-        if (cloudTask.uniquenessKey && cloudTask.shouldRemoveOnFail()) {
-          await this.storageAdapter.removeUniquenessKey(cloudTask.uniquenessKey);
-        }
+        // Let new tasks with the same uniqueness key in
+        await releaseUniquenessKey(this.storageAdapter, cloudTask);
       } else {
-        // Update attempts but keep as idle for retry
-        await this.storageAdapter.updateTaskStatus(taskId, TaskStatus.IDLE, {
+        const retryPolicy = this.resolveRetryPolicy(processors, cloudTask);
+        if (retryPolicy && (await this.scheduleRetry(cloudTask, retryPolicy, error))) {
+          // The retry is owned by the library, so this delivery is acknowledged
+          return undefined;
+        }
+
+        // Update attempts but keep as idle for retry. The task is delayed if a retry was
+        // scheduled above but could not be dispatched.
+        const requeued = await this.transitionFromActive(taskId, TaskStatus.IDLE, {
           attempts: cloudTask.attempts,
+          errorHistory: cloudTask.errorHistory,
           updatedAt: cloudTask.updatedAt,
-        });
+        }, [TaskStatus.ACTIVE, TaskStatus.DELAYED]);
+        if (!requeued) {
+          return undefined;
+        }
       }
 
       // Emit failed event only on final attempt
@@ -229,6 +407,7 @@ export class ConsumerService extends EventEmitter {
           error: {
             message: error instanceof Error ? error.message : String(error),
             stack: error instanceof Error ? error.stack : undefined,
+            reason: getFailureReason(error),
           },
           attempts: cloudTask.attempts,
           maxAttempts: cloudTask.maxAttempts,
@@ -237,6 +416,23 @@ export class ConsumerService extends EventEmitter {
         };
         await this.emitTaskEvent('failed', processors, cloudTask, error);
         this.emit('taskFailed', failedEvent);
+
+        // The task's own error is thrown below, so failed releases are only logged
+        const logReleaseError = (releaseError: unknown) => {
+          console.error(`Failed to release a task waiting on task ${taskId}:`, releaseError);
+        };
+
+        if (cloudTask.isInChain()) {
+          await this.handleChainStepFailure(cloudTask, failedEvent.error).catch(logReleaseError);
+        }
+
+        if (cloudTask.parent) {
+          await this.flowService.settleChild(cloudTask, 'failed', failedEvent.error.message).catch(logReleaseError);
+        }
+
+        if (cloudTask.batch) {
+          await this.recordBatchOutcome(cloudTask, 'failed').catch(logReleaseError);
+        }
       }
 
       if (isLastAttempt) {
@@ -246,7 +442,9 @@ export class ConsumerService extends EventEmitter {
       }
     } finally {
       // Remove from active processors
+      await lockRenewal.stop();
       activeProcessors.delete(taskId);
+      await this.concurrencyService.release(concurrencyLimits, taskId);
     }
   }
 
@@ -262,7 +460,8 @@ export class ConsumerService extends EventEmitter {
     const cloudTask = new CloudTask(task);
     cloudTask.updateProgress(progress);
 
-    await this.storageAdapter.updateTaskStatus(taskId, task.status, {
+    // Only the progress is written, so a concurrent status change is never undone
+    await this.storageAdapter.updateTask(taskId, {
       progress: cloudTask.progress,
       updatedAt: cloudTask.updatedAt,
     });
@@ -292,25 +491,95 @@ export class ConsumerService extends EventEmitter {
   }
 
   /**
-   * Execute task processing using registered processors
+   * Get the concurrency declared by the processors of a queue
    */
-  private async executeTaskProcessing(
+  getQueueConcurrency(queueName: string): number | undefined {
+    const processors = this.processors.get(queueName) || [];
+    const limits = processors
+      .map(processor => {
+        const declared = [processor.options.concurrency, processor.consumerOptions?.maxConcurrency]
+          .filter((concurrency): concurrency is number => typeof concurrency === 'number');
+        return declared.length > 0 ? Math.min(...declared) : undefined;
+      })
+      .filter((concurrency): concurrency is number => typeof concurrency === 'number');
+
+    return limits.length > 0 ? Math.max(...limits) : undefined;
+  }
+
+  /**
+   * Get the concurrency limits that apply to a handler of a queue
+   */
+  private getConcurrencyLimits(queueName: string, handler: ProcessHandlerRegistration): ConcurrencyLimit[] {
+    const limits: ConcurrencyLimit[] = [];
+
+    const queueLimit = this.getQueueConcurrency(queueName);
+    if (queueLimit !== undefined) {
+      limits.push({ key: ConcurrencyService.createQueueKey(queueName), limit: queueLimit });
+    }
+
+    if (handler.concurrency !== undefined) {
+      limits.push({ key: ConcurrencyService.createHandlerKey(queueName, handler.name), limit: handler.concurrency });
+    }
+
+    return limits;
+  }
+
+  /**
+   * Get the expiry of a lock taken now, or undefined when stalled task detection is disabled
+   */
+  private getLockExpiry(): Date | undefined {
+    const options = this.config.stalledTasks;
+    if (options?.enabled === false) {
+      return undefined;
+    }
+    return new Date(Date.now() + (options?.lockDurationMs ?? DEFAULT_LOCK_DURATION_MS));
+  }
+
+  /**
+   * Periodically extend the lock of a running task so it isn't detected as stalled.
+   * Renewal stops once another run took the task over, so its lock is never overwritten.
+   */
+  private startLockRenewal(taskId: string, lockToken: string): { stop: () => Promise<void> } {
+    const options = this.config.stalledTasks;
+    if (options?.enabled === false) {
+      return { stop: async () => undefined };
+    }
+
+    const lockDurationMs = options?.lockDurationMs ?? DEFAULT_LOCK_DURATION_MS;
+    let renewal: Promise<void> = Promise.resolve();
+    const timer = setInterval(() => {
+      renewal = this.storageAdapter
+        .renewTaskLock(taskId, lockToken, this.getLockExpiry()!)
+        .then(renewed => {
+          if (!renewed) {
+            clearInterval(timer);
+            console.warn(`Lost the lock of task ${taskId}, it was taken over or finished`);
+          }
+        })
+        .catch(error => {
+          console.warn(`Failed to renew lock of task ${taskId}: ${error instanceof Error ? error.message : String(error)}`);
+        });
+    }, options?.lockRenewIntervalMs ?? lockDurationMs / 2);
+    timer.unref();
+
+    return {
+      // Wait for an in-flight renewal so it can't overwrite the task's final state
+      stop: async () => {
+        clearInterval(timer);
+        await renewal;
+      },
+    };
+  }
+
+  /**
+   * Find the processor and handler for a task based on its taskName
+   */
+  private resolveHandler(
     processors: ProcessorRegistration[],
     cloudTask: CloudTask,
-  ): Promise<any> {
-    // Find the correct processor and handler based on taskName
+  ): { processor: ProcessorRegistration; handler: ProcessHandlerRegistration } {
     const taskName = cloudTask.options?.taskName;
-    
-    // Create a task wrapper that delegates updateProgress to emit events
-    const taskWrapper = {
-      ...cloudTask,
-      updateProgress: async (progress: TaskProgress) => {
-        await this.updateTaskProgress(cloudTask.id, progress);
-        // Also update the local CloudTask instance
-        cloudTask.updateProgress(progress);
-      }
-    };
-    
+
     for (const processor of processors) {
       // Look for a handler that matches the task name
       const processHandler = processor.processHandlers.find(handler => 
@@ -318,8 +587,7 @@ export class ConsumerService extends EventEmitter {
       );
       
       if (processHandler) {
-        const boundMethod = processHandler.handler.bind(processor.instance);
-        return await boundMethod(taskWrapper);
+        return { processor, handler: processHandler };
       }
     }
     
@@ -330,8 +598,7 @@ export class ConsumerService extends EventEmitter {
       );
       
       if (defaultHandler) {
-        const boundMethod = defaultHandler.handler.bind(processor.instance);
-        return await boundMethod(taskWrapper);
+        return { processor, handler: defaultHandler };
       }
     }
     
@@ -343,8 +610,286 @@ export class ConsumerService extends EventEmitter {
       throw new Error(`No process handlers available for queue "${cloudTask.queueName}"`);
     }
 
-    const boundMethod = processHandler.handler.bind(processor.instance);
-    return await boundMethod(taskWrapper);
+    return { processor, handler: processHandler };
+  }
+
+  /**
+   * Resolve the execution timeout for a task (task, then handler, then consumer, then queue)
+   */
+  private resolveTimeout(
+    resolved: { processor: ProcessorRegistration; handler: ProcessHandlerRegistration },
+    cloudTask: CloudTask,
+  ): number | undefined {
+    const queueConfig = this.config.queues.find(queue => queue.name === cloudTask.queueName);
+
+    return cloudTask.options?.timeout
+      ?? resolved.handler.timeout
+      ?? resolved.processor.consumerOptions?.timeout
+      ?? queueConfig?.timeout;
+  }
+
+  /**
+   * Execute task processing with the resolved handler, racing it against the task timeout
+   */
+  private async executeTaskProcessing(
+    resolved: { processor: ProcessorRegistration; handler: ProcessHandlerRegistration },
+    cloudTask: CloudTask,
+  ): Promise<any> {
+    const abortController = new AbortController();
+    cloudTask.signal = abortController.signal;
+
+    // Create a task wrapper that delegates updateProgress to emit events
+    const taskWrapper = {
+      ...cloudTask,
+      updateProgress: async (progress: TaskProgress) => {
+        await this.updateTaskProgress(cloudTask.id, progress);
+        // Also update the local CloudTask instance
+        cloudTask.updateProgress(progress);
+      }
+    };
+
+    const boundMethod = resolved.handler.handler.bind(resolved.processor.instance);
+    const execution = Promise.resolve(boundMethod(taskWrapper));
+
+    const timeout = this.resolveTimeout(resolved, cloudTask);
+    if (!timeout || timeout <= 0) {
+      return await execution;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const timeoutError = createTaskTimeoutError(cloudTask.id, timeout);
+        abortController.abort(timeoutError);
+        reject(timeoutError);
+      }, timeout);
+    });
+
+    try {
+      return await Promise.race([execution, timedOut]);
+    } finally {
+      clearTimeout(timer);
+      // The handler may still settle after timing out; its outcome is ignored
+      execution.catch(() => undefined);
+    }
+  }
+
+  /**
+   * Get the rate limits that apply to running a task: its processor's, then its process's.
+   * A limit with a group key is counted separately for every group.
+   */
+  private getRateLimits(
+    resolved: { processor: ProcessorRegistration; handler: ProcessHandlerRegistration },
+    cloudTask: CloudTask,
+  ): TaskRateLimit[] {
+    const { processor, handler } = resolved;
+    const limits: TaskRateLimit[] = [];
+
+    const processorLimit = processor.options.rateLimiter;
+    if (processorLimit) {
+      limits.push({
+        key: processorLimit.key ?? RateLimiterService.createProcessorKey(cloudTask.queueName, processor.instance.constructor.name),
+        options: processorLimit,
+      });
+    }
+
+    if (handler.rateLimiter) {
+      limits.push({
+        key: handler.rateLimiter.key ?? RateLimiterService.createKey('process', cloudTask.queueName, handler.name),
+        options: handler.rateLimiter,
+      });
+    }
+
+    return limits.map(({ key, options }) => {
+      const group = options.groupKey?.(cloudTask.data);
+      return { key: group !== undefined ? RateLimiterService.createKey(key, group) : key, options };
+    });
+  }
+
+  /**
+   * Count a run against the rate limits of a task, and reschedule the task for when the first
+   * exceeded limit resets, giving back what the limits checked before it counted. Without a
+   * transport to reschedule through, the delivery fails with a rate limit error so Cloud Tasks retries it.
+   * @returns Whether the task is not to run now: it was rescheduled, or taken over by another delivery
+   */
+  private async deferRateLimitedTask(
+    resolved: { processor: ProcessorRegistration; handler: ProcessHandlerRegistration },
+    cloudTask: CloudTask,
+  ): Promise<boolean> {
+    const counted: string[] = [];
+    for (const { key, options } of this.getRateLimits(resolved, cloudTask)) {
+      const result = await this.rateLimiterService.checkRateLimit(key, options);
+      if (result.allowed) {
+        counted.push(key);
+        continue;
+      }
+
+      // The limits that allowed the task don't count it, since it doesn't run now
+      await Promise.all(counted.map(countedKey => this.rateLimiterService.refundRateLimit(countedKey)));
+
+      const queueConfig = this.config.queues.find(queue => queue.name === cloudTask.queueName);
+      if (!this.transport || !queueConfig) {
+        throw createRateLimitError(`Rate limit "${key}" exceeded for task ${cloudTask.id}`, result.resetTime);
+      }
+
+      const scheduledFor = new Date(Date.now() + result.resetTime);
+      const delayed = await this.storageAdapter.transitionTask(
+        cloudTask.id,
+        [TaskStatus.IDLE, TaskStatus.DELAYED],
+        TaskStatus.DELAYED,
+        { scheduledFor, updatedAt: new Date() },
+      );
+      if (!delayed) {
+        return true;
+      }
+
+      await dispatchStoredTask(this.storageAdapter, this.transport, queueConfig, delayed);
+
+      const rateLimitedEvent: TaskRateLimitedEvent = {
+        taskId: cloudTask.id,
+        queueName: cloudTask.queueName,
+        data: cloudTask.data,
+        rateLimitKey: key,
+        scheduledFor,
+        timestamp: new Date(),
+      };
+      this.emit('taskRateLimited', rateLimitedEvent);
+
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Move a task on from the run that claimed it. The transition is rejected when the run no longer
+   * owns the task, e.g. its lock expired and the stalled task service requeued it; the run's
+   * outcome is then discarded so it can't overwrite the newer state.
+   * @returns Whether the task was transitioned
+   */
+  private async transitionFromActive(
+    taskId: string,
+    toStatus: TaskStatus,
+    updateData: Partial<ITask>,
+    fromStatuses: TaskStatus[] = [TaskStatus.ACTIVE],
+  ): Promise<boolean> {
+    const updated = await this.storageAdapter.transitionTask(taskId, fromStatuses, toStatus, updateData);
+    if (!updated) {
+      console.warn(`Task ${taskId} is no longer active, discarding the outcome of this run (would have become ${toStatus})`);
+    }
+    return !!updated;
+  }
+
+  /**
+   * Resolve the retry policy for a task (task, then processor, then queue)
+   */
+  private resolveRetryPolicy(
+    processors: ProcessorRegistration[],
+    cloudTask: CloudTask,
+  ): RetryPolicy | undefined {
+    const processorPolicy = processors.find(processor => processor.options.retryPolicy)?.options.retryPolicy;
+    const queueConfig = this.config.queues.find(queue => queue.name === cloudTask.queueName);
+
+    return cloudTask.options?.retryPolicy ?? processorPolicy ?? queueConfig?.retryPolicy;
+  }
+
+  /**
+   * Persist the next attempt time and re-enqueue the task through the transport
+   * @returns Whether the delivery is done with: the retry was scheduled, or the task was taken over
+   */
+  private async scheduleRetry(
+    cloudTask: CloudTask,
+    retryPolicy: RetryPolicy,
+    error: unknown,
+  ): Promise<boolean> {
+    const queueConfig = this.config.queues.find(queue => queue.name === cloudTask.queueName);
+    if (!this.transport || !queueConfig) {
+      return false;
+    }
+
+    const failure = error instanceof Error ? error : new Error(String(error));
+    const delayMs = calculateRetryDelay(retryPolicy, cloudTask.attempts, failure);
+    const nextAttemptAt = new Date(Date.now() + delayMs);
+    cloudTask.nextAttemptAt = nextAttemptAt;
+
+    const delayed = await this.transitionFromActive(cloudTask.id, TaskStatus.DELAYED, {
+      attempts: cloudTask.attempts,
+      errorHistory: cloudTask.errorHistory,
+      nextAttemptAt,
+      scheduledFor: nextAttemptAt,
+      updatedAt: cloudTask.updatedAt,
+    });
+    if (!delayed) {
+      return true;
+    }
+
+    try {
+      await dispatchStoredTask(this.storageAdapter, this.transport, queueConfig, {
+        ...cloudTask.toObject(),
+        status: TaskStatus.DELAYED,
+        scheduledFor: nextAttemptAt,
+      });
+    } catch (dispatchError) {
+      console.warn(`Failed to re-enqueue task ${cloudTask.id} for retry: ${dispatchError instanceof Error ? dispatchError.message : String(dispatchError)}`);
+      return false;
+    }
+
+    const retryEvent: TaskRetryEvent = {
+      taskId: cloudTask.id,
+      queueName: cloudTask.queueName,
+      data: cloudTask.data,
+      error: {
+        message: failure.message,
+        stack: failure.stack,
+        reason: getFailureReason(failure),
+      },
+      attempts: cloudTask.attempts,
+      nextAttemptAt,
+      timestamp: new Date(),
+    };
+    this.emit('taskRetrying', retryEvent);
+
+    return true;
+  }
+
+  /**
+   * Copy a task that exhausted its attempts into its queue's dead-letter queue
+   */
+  private async moveToDeadLetterQueue(cloudTask: CloudTask): Promise<void> {
+    const queueConfig = this.config.queues.find(queue => queue.name === cloudTask.queueName);
+    if (!queueConfig?.deadLetterQueue) {
+      return;
+    }
+
+    try {
+      await this.storageAdapter.saveDeadLetter({
+        id: cloudTask.id,
+        deadLetterQueue: queueConfig.deadLetterQueue,
+        originalQueue: cloudTask.queueName,
+        task: cloudTask.toObject(),
+        errorHistory: cloudTask.errorHistory,
+        attempts: cloudTask.attempts,
+        failedAt: cloudTask.failedAt || new Date(),
+      });
+    } catch (error) {
+      console.error(`Failed to move task ${cloudTask.id} to dead-letter queue:`, error);
+      return;
+    }
+
+    const deadLetteredEvent: TaskDeadLetteredEvent = {
+      taskId: cloudTask.id,
+      queueName: cloudTask.queueName,
+      data: cloudTask.data,
+      deadLetterQueue: queueConfig.deadLetterQueue,
+      attempts: cloudTask.attempts,
+      error: {
+        message: cloudTask.error?.message || 'Unknown error',
+        stack: cloudTask.error?.stack,
+        reason: cloudTask.error?.reason,
+      },
+      timestamp: new Date(),
+    };
+    this.emit('taskDeadLettered', deadLetteredEvent);
   }
 
   /**
@@ -371,22 +916,65 @@ export class ConsumerService extends EventEmitter {
   }
 
   /**
-   * Process next task in chain
+   * Count a batch member's outcome and announce the batch once every member finished
    */
-  private async processNextInChain(cloudTask: CloudTask): Promise<void> {
-    if (!cloudTask.chain) return;
+  private async recordBatchOutcome(cloudTask: CloudTask, outcome: 'completed' | 'failed'): Promise<void> {
+    const completedEvent = await this.batchService.recordOutcome(cloudTask, outcome);
+    if (completedEvent) {
+      this.emit('batchCompleted', completedEvent);
+    }
+  }
 
+  /**
+   * Dispatch the next step of a chain, handing it the result of the current step
+   */
+  private async dispatchNextInChain(cloudTask: CloudTask, previousResult?: any): Promise<void> {
     const nextIndex = cloudTask.getNextChainIndex();
-    if (nextIndex === null) return;
+    if (!cloudTask.chain || nextIndex === null) return;
+
+    const chainTasks = await this.storageAdapter.getTasks({ chainId: cloudTask.chain.id });
+    const nextTask = chainTasks.find(task => task.chain?.index === nextIndex);
+
+    // Steps that don't wait for their predecessor were dispatched when the chain was added
+    if (!nextTask || nextTask.status !== TaskStatus.WAITING) return;
+
+    const queueConfig = this.config.queues.find(queue => queue.name === nextTask.queueName);
+    await releaseWaitingTask(
+      this.storageAdapter,
+      this.transport,
+      queueConfig,
+      nextTask,
+      { previousResult },
+      this.config.outbox?.enabled === true,
+    );
+  }
 
-    // Check if next task exists
-    const nextTaskId = `${cloudTask.chain.id}-${nextIndex}`;
-    const nextTask = await this.storageAdapter.getTask(nextTaskId);
-    
-    if (nextTask && nextTask.status === TaskStatus.IDLE) {
-      // Trigger next task processing (this would normally be done by Cloud Tasks)
-      console.log(`Chain ${cloudTask.chain.id}: Triggering next task ${nextIndex}`);
+  /**
+   * Halt the rest of a chain after a step failed for good, or skip to the next step
+   */
+  private async handleChainStepFailure(
+    cloudTask: CloudTask,
+    error: ChainFailedEvent['error'],
+  ): Promise<void> {
+    if (!cloudTask.chain) return;
+
+    const onFailure = cloudTask.chain.onFailure ?? 'halt';
+    if (onFailure === 'skip') {
+      await this.dispatchNextInChain(cloudTask);
     }
+
+    const chainFailedEvent: ChainFailedEvent = {
+      taskId: cloudTask.id,
+      queueName: cloudTask.queueName,
+      data: cloudTask.data,
+      chainId: cloudTask.chain.id,
+      index: cloudTask.chain.index,
+      total: cloudTask.chain.total,
+      error,
+      action: onFailure === 'skip' ? 'skipped' : 'halted',
+      timestamp: new Date(),
+    };
+    this.emit('chainFailed', chainFailedEvent);
   }
 
   /**
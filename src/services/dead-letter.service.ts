@@ -0,0 +1,85 @@
+import {
+  IStateStorageAdapter,
+  IDeadLetterEntry,
+  DeadLetterQueryOptions,
+} from '../interfaces/storage-adapter.interface';
+import { AddTaskOptions, AddTaskResult } from '../interfaces/task.interface';
+import { ProducerService } from './producer.service';
+
+/**
+ * Dead-letter queue service for inspecting, replaying and purging failed tasks
+ */
+export class DeadLetterService {
+  constructor(
+    private readonly storageAdapter: IStateStorageAdapter,
+    private readonly producerService: ProducerService,
+  ) {}
+
+  /**
+   * List dead-letter entries
+   */
+  async getDeadLetters(options?: DeadLetterQueryOptions): Promise<IDeadLetterEntry[]> {
+    return await this.storageAdapter.getDeadLetters(options);
+  }
+
+  /**
+   * Get a dead-letter entry by ID
+   */
+  async getDeadLetter(id: string): Promise<IDeadLetterEntry | null> {
+    return await this.storageAdapter.getDeadLetter(id);
+  }
+
+  /**
+   * Replay a dead-letter entry by adding its task back to the original queue.
+   * The entry is removed once the task has been re-added.
+   */
+  async replay(id: string, options: AddTaskOptions = {}): Promise<AddTaskResult> {
+    const entry = await this.storageAdapter.getDeadLetter(id);
+    if (!entry) {
+      return {
+        taskId: '',
+        success: false,
+        error: `Dead-letter entry ${id} not found`,
+      };
+    }
+
+    // The task is replayed on its own, outside of the chain it belonged to
+    const taskOptions: AddTaskOptions = { ...entry.task.options };
+    delete taskOptions.chain;
+    const result = await this.producerService.addTask(entry.originalQueue, entry.task.data, {
+      ...taskOptions,
+      maxAttempts: entry.task.maxAttempts,
+      ...options,
+    });
+
+    if (result.success) {
+      await this.storageAdapter.deleteDeadLetter(id);
+    }
+
+    return result;
+  }
+
+  /**
+   * Replay every dead-letter entry matching the options
+   */
+  async replayMany(
+    options?: DeadLetterQueryOptions,
+    taskOptions?: AddTaskOptions,
+  ): Promise<AddTaskResult[]> {
+    const entries = await this.storageAdapter.getDeadLetters(options);
+    const results: AddTaskResult[] = [];
+
+    for (const entry of entries) {
+      results.push(await this.replay(entry.id, taskOptions));
+    }
+
+    return results;
+  }
+
+  /**
+   * Delete dead-letter entries matching the options
+   */
+  async purge(options?: DeadLetterQueryOptions): Promise<number> {
+    return await this.storageAdapter.purgeDeadLetters(options);
+  }
+}
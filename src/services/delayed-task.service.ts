@@ -0,0 +1,130 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IStateStorageAdapter, ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { CloudTaskMQConfig, DelayedTaskOptions } from '../interfaces/config.interface';
+import { ProducerService } from './producer.service';
+
+/**
+ * Default interval between checks for parked tasks in milliseconds
+ */
+export const DEFAULT_DELAYED_PROMOTE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Delayed task service.
+ * Hands tasks that were parked in storage, because they were due beyond the transport's
+ * scheduling window, over to the transport once they come within reach.
+ */
+export class DelayedTaskService {
+  private timer?: NodeJS.Timeout;
+  private promoting = false;
+  private readonly options: DelayedTaskOptions;
+  private readonly instanceId = uuidv4();
+  private readonly queueNames: string[];
+
+  constructor(
+    config: CloudTaskMQConfig,
+    private readonly storageAdapter: IStateStorageAdapter,
+    private readonly producerService: ProducerService,
+  ) {
+    this.options = config.delayedTasks || {};
+    this.queueNames = config.queues.map(queue => queue.name);
+  }
+
+  /**
+   * Start checking for parked tasks periodically
+   */
+  start(): void {
+    if (this.timer || this.options.enabled === false) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.promoteParkedTasks().catch(error => {
+        console.error('Error promoting parked tasks:', error);
+      });
+    }, this.getPromoteIntervalMs());
+    this.timer.unref();
+  }
+
+  /**
+   * Stop checking for parked tasks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Dispatch every parked task that came within the transport's scheduling window
+   * @returns The tasks handed to the transport
+   */
+  async promoteParkedTasks(): Promise<ITask[]> {
+    if (this.promoting) {
+      return [];
+    }
+
+    this.promoting = true;
+    try {
+      const { maxScheduleDelayMs } = this.producerService.getTransport();
+      const scheduledBefore = maxScheduleDelayMs ? new Date(Date.now() + maxScheduleDelayMs) : undefined;
+      const promoted: ITask[] = [];
+
+      for (const queueName of this.queueNames) {
+        const dueTasks = await this.storageAdapter.getTasks({
+          queueName,
+          status: [TaskStatus.IDLE, TaskStatus.DELAYED],
+          marker: 'parkedAt',
+          scheduledBefore,
+        });
+
+        for (const task of dueTasks) {
+          if (await this.promoteTask(task.id)) {
+            promoted.push(task);
+          }
+        }
+      }
+
+      return promoted;
+    } finally {
+      this.promoting = false;
+    }
+  }
+
+  /**
+   * Hand a parked task over to the transport, unless another instance is doing so or already did
+   * @returns Whether the task was handed over
+   */
+  private async promoteTask(taskId: string): Promise<boolean> {
+    const leaseKey = `promote:${taskId}`;
+    try {
+      // Only one instance hands each task over at a time; the lease expires if the instance dies
+      const claimed = await this.storageAdapter.acquireConcurrencyLease(
+        leaseKey,
+        this.instanceId,
+        1,
+        this.getPromoteIntervalMs() * 2,
+      );
+      if (!claimed) return false;
+
+      try {
+        // Read again under the lease, another instance may have handed it over since the query
+        const task = await this.storageAdapter.getTask(taskId);
+        if (!task?.parkedAt || ![TaskStatus.IDLE, TaskStatus.DELAYED].includes(task.status)) return false;
+
+        await this.producerService.redispatchTask({ ...task, parkedAt: undefined });
+        await this.storageAdapter.updateTask(taskId, { parkedAt: undefined });
+        return true;
+      } finally {
+        await this.storageAdapter.releaseConcurrencyLease(leaseKey, this.instanceId);
+      }
+    } catch (error) {
+      console.error(`Failed to promote parked task ${taskId}:`, error);
+      return false;
+    }
+  }
+
+  private getPromoteIntervalMs(): number {
+    return this.options.promoteIntervalMs ?? DEFAULT_DELAYED_PROMOTE_INTERVAL_MS;
+  }
+}
@@ -0,0 +1,125 @@
+import { IStateStorageAdapter, ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { CloudTaskMQConfig } from '../interfaces/config.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+import { releaseWaitingTask } from '../utils/task-dispatch.utils';
+import { releaseUniquenessKey } from '../utils/uniqueness.utils';
+
+/**
+ * Flow service.
+ * Settles the children of flow parents through the storage adapter's dependency counters,
+ * and releases a parent once its children completed or fails it when a child failed.
+ */
+export class FlowService {
+  constructor(
+    private readonly config: CloudTaskMQConfig,
+    private readonly storageAdapter: IStateStorageAdapter,
+    private transport?: ITaskTransport,
+  ) {}
+
+  /**
+   * Set the transport used to dispatch released parents
+   */
+  setTransport(transport: ITaskTransport): void {
+    this.transport = transport;
+  }
+
+  /**
+   * Settle a child of a flow parent, then release or fail the parent according to
+   * the child's failure policy
+   * @param child Child task (only its ID and parent reference are used)
+   * @param outcome Whether the child completed or failed for good
+   * @param error Error message of a failed child
+   * @throws When the parent was due to be released but could not be
+   */
+  async settleChild(
+    child: Pick<ITask, 'id' | 'parent'>,
+    outcome: 'completed' | 'failed',
+    error?: string,
+  ): Promise<void> {
+    const parent = child.parent;
+    if (!parent) return;
+
+    let release = false;
+    try {
+      const remaining = await this.storageAdapter.removePendingChild(parent.id, child.id);
+      if (remaining === null) {
+        // Already settled, or the parent was released or failed by another child
+        return;
+      }
+
+      const policy = outcome === 'failed' ? parent.onFailure ?? 'fail-parent' : undefined;
+      if (policy === 'fail-parent') {
+        await this.storageAdapter.clearPendingChildren(parent.id);
+        await this.failParent(parent.id, `Child task ${child.id} failed${error ? `: ${error}` : ''}`);
+      } else if (policy === 'continue') {
+        await this.storageAdapter.clearPendingChildren(parent.id);
+        release = true;
+      } else {
+        release = remaining === 0;
+      }
+    } catch (settleError) {
+      console.error(`Failed to settle child ${child.id} of flow parent ${parent.id}:`, settleError);
+      return;
+    }
+
+    // No other child releases the parent, so a failed release is thrown
+    if (release) {
+      await this.releaseParent(parent.id);
+    }
+  }
+
+  /**
+   * Get the results of a parent's completed children, keyed by child task ID
+   */
+  async getChildrenResults(task: Pick<ITask, 'childIds'>): Promise<Record<string, any>> {
+    const results: Record<string, any> = {};
+
+    for (const childId of task.childIds || []) {
+      const child = await this.storageAdapter.getTask(childId);
+      if (child?.status === TaskStatus.COMPLETED) {
+        results[childId] = child.result;
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Make a waiting parent runnable and dispatch it
+   */
+  private async releaseParent(parentId: string): Promise<void> {
+    const parent = await this.storageAdapter.getTask(parentId);
+    if (!parent || parent.status !== TaskStatus.WAITING) return;
+
+    const queueConfig = this.config.queues.find(queue => queue.name === parent.queueName);
+    await releaseWaitingTask(this.storageAdapter, this.transport, queueConfig, parent, {}, this.config.outbox?.enabled === true);
+  }
+
+  /**
+   * Fail a waiting parent and propagate the failure up the flow
+   */
+  private async failParent(parentId: string, message: string): Promise<void> {
+    const parent = await this.storageAdapter.getTask(parentId);
+    if (!parent || parent.status !== TaskStatus.WAITING) return;
+
+    const now = new Date();
+    const failed = await this.storageAdapter.transitionTask(parentId, [TaskStatus.WAITING], TaskStatus.FAILED, {
+      error: { message, timestamp: now, reason: 'child-failed' },
+      errorHistory: [
+        ...(parent.errorHistory || []),
+        { message, timestamp: now, attempt: parent.attempts, reason: 'child-failed' },
+      ],
+      failedAt: now,
+      updatedAt: now,
+    });
+    if (!failed) return;
+
+    // Clean up if configured
+    if (parent.options?.removeOnFail) {
+      await this.storageAdapter.deleteTask(parentId);
+    }
+    await releaseUniquenessKey(this.storageAdapter, parent);
+
+    await this.settleChild(parent, 'failed', message);
+  }
+}
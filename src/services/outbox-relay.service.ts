@@ -0,0 +1,149 @@
+import { v4 as uuidv4 } from 'uuid';
+import { IStateStorageAdapter, ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { CloudTaskMQConfig, OutboxOptions } from '../interfaces/config.interface';
+import { isTaskAlreadyExistsError } from '../utils/cloud-task-name.utils';
+import { TASK_PRIORITY_SORT } from '../utils/task-sort.utils';
+import { ProducerService } from './producer.service';
+
+/**
+ * Default interval between outbox relay runs in milliseconds
+ */
+export const DEFAULT_OUTBOX_RELAY_INTERVAL_MS = 1000;
+
+/**
+ * Default maximum number of tasks relayed per queue in one run
+ */
+export const DEFAULT_OUTBOX_RELAY_BATCH_SIZE = 100;
+
+/**
+ * Key of the storage lease held by the instance relaying the outbox
+ */
+export const OUTBOX_RELAY_LEASE_KEY = 'outbox-relay';
+
+/**
+ * Outbox relay service.
+ * Hands tasks that producers stored as pending dispatch over to the transport. One instance
+ * relays at a time, elected through a storage lease, and tasks whose dispatch failed stay
+ * pending and are retried on the next run.
+ */
+export class OutboxRelayService {
+  private timer?: NodeJS.Timeout;
+  private relaying = false;
+  private readonly options: OutboxOptions;
+  private readonly instanceId = uuidv4();
+  private readonly queueNames: string[];
+
+  constructor(
+    config: CloudTaskMQConfig,
+    private readonly storageAdapter: IStateStorageAdapter,
+    private readonly producerService: ProducerService,
+  ) {
+    this.options = config.outbox || {};
+    this.queueNames = config.queues.map(queue => queue.name);
+  }
+
+  /**
+   * Start relaying pending tasks periodically
+   */
+  start(): void {
+    if (this.timer || this.options.enabled !== true) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.relayPendingTasks().catch(error => {
+        console.error('Error relaying outbox tasks:', error);
+      });
+    }, this.getRelayIntervalMs());
+    this.timer.unref();
+  }
+
+  /**
+   * Stop relaying and let another instance take over
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+      this.storageAdapter.releaseConcurrencyLease(OUTBOX_RELAY_LEASE_KEY, this.instanceId).catch(error => {
+        console.warn(`Failed to release the outbox relay lease: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    }
+  }
+
+  /**
+   * Dispatch every task pending in the outbox, if this instance is the relay
+   * @returns The tasks handed to the transport
+   */
+  async relayPendingTasks(): Promise<ITask[]> {
+    if (this.relaying) {
+      return [];
+    }
+
+    this.relaying = true;
+    try {
+      let renewedAt = Date.now();
+      if (!(await this.renewLease())) {
+        return [];
+      }
+
+      const relayed: ITask[] = [];
+
+      for (const queueName of this.queueNames) {
+        const tasks = await this.storageAdapter.getTasks({
+          queueName,
+          status: [TaskStatus.IDLE, TaskStatus.DELAYED],
+          marker: 'pendingDispatchAt',
+          sort: TASK_PRIORITY_SORT,
+          limit: this.options.batchSize ?? DEFAULT_OUTBOX_RELAY_BATCH_SIZE,
+        });
+
+        for (const task of tasks) {
+          // A long run renews the lease as it goes, and stops once another instance took it over
+          if (Date.now() - renewedAt >= this.getRelayIntervalMs()) {
+            renewedAt = Date.now();
+            if (!(await this.renewLease())) {
+              return relayed;
+            }
+          }
+
+          try {
+            // The marker is cleared in the same update that counts the dispatch, so a task
+            // still marked keeps the name it was dispatched under
+            await this.producerService.redispatchTask({ ...task, pendingDispatchAt: undefined }, { pendingDispatchAt: undefined });
+          } catch (error) {
+            // Otherwise an earlier run dispatched the task but didn't get to clear its marker
+            if (!isTaskAlreadyExistsError(error)) {
+              console.error(`Failed to relay task ${task.id}, retrying on the next run:`, error);
+              continue;
+            }
+            await this.storageAdapter.updateTask(task.id, { pendingDispatchAt: undefined });
+          }
+
+          relayed.push(task);
+        }
+      }
+
+      return relayed;
+    } finally {
+      this.relaying = false;
+    }
+  }
+
+  /**
+   * Acquire or renew the relay lease. It is taken over once its holder stops renewing it.
+   * @returns Whether this instance is the relay
+   */
+  private async renewLease(): Promise<boolean> {
+    return await this.storageAdapter.acquireConcurrencyLease(
+      OUTBOX_RELAY_LEASE_KEY,
+      this.instanceId,
+      1,
+      this.getRelayIntervalMs() * 3,
+    );
+  }
+
+  private getRelayIntervalMs(): number {
+    return this.options.relayIntervalMs ?? DEFAULT_OUTBOX_RELAY_INTERVAL_MS;
+  }
+}
@@ -1,33 +1,84 @@
-import { CloudTasksClient } from '@google-cloud/tasks';
 import { v4 as uuidv4 } from 'uuid';
-import { google } from '@google-cloud/tasks/build/protos/protos';
-import { IStateStorageAdapter, TaskStatus } from '../interfaces/storage-adapter.interface';
-import { CloudTaskMQConfig, QueueConfig } from '../interfaces/config.interface';
-import { AddTaskOptions, AddTaskResult, ITask } from '../interfaces/task.interface';
+import { BatchProgress, ChainFailureMode, IStateStorageAdapter, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { CloudTaskMQConfig, QueueConfig, QueuePauseOptions } from '../interfaces/config.interface';
+import {
+  AddBatchOptions,
+  AddBatchResult,
+  AddFlowResult,
+  AddTaskOptions,
+  AddTaskResult,
+  AddTasksOptions,
+  BatchTask,
+  FlowNode,
+  ITask,
+} from '../interfaces/task.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
 import { EventEmitter } from 'events';
 import { RateLimiterService } from './rate-limiter.service';
+import { FlowService } from './flow.service';
+import { BatchService } from './batch.service';
+import { CloudTasksTransport } from '../transports/cloud-tasks.transport';
+import { dispatchStoredTask, getTransportQueueConfigs } from '../utils/task-dispatch.utils';
+import { TASK_PRIORITY_SORT } from '../utils/task-sort.utils';
+import { DEFAULT_UNIQUENESS_TTL_SECONDS } from '../utils/uniqueness.utils';
+import { isTaskAlreadyExistsError } from '../utils/cloud-task-name.utils';
+import { mapWithConcurrency } from '../utils/bulk.utils';
+import { createRateLimitError, isRateLimitError } from '../utils/rate-limit.utils';
+
+/**
+ * Default number of tasks prepared or dispatched at the same time by addTasks
+ */
+export const DEFAULT_BULK_CONCURRENCY = 10;
+
+/**
+ * Number of tasks addTasks stores with one bulk write
+ */
+export const BULK_CHUNK_SIZE = 500;
+
+/**
+ * Flow and batch relations of a task being added
+ */
+interface TaskRelations {
+  taskId?: string;
+  parent?: ITask['parent'];
+  childIds?: string[];
+  batch?: ITask['batch'];
+  waiting?: boolean;
+}
+
+/**
+ * Task validated and built, ready to be stored and dispatched
+ */
+interface PreparedTask {
+  queueConfig: QueueConfig;
+  task: ITask;
+  replacedTaskId?: string;
+  /**
+   * Rate limit key the task was counted under, refunded if the task is not added after all
+   */
+  rateLimitKey?: string;
+}
 
 /**
  * Producer service for adding tasks to queues
  */
 export class ProducerService extends EventEmitter {
-  private client: CloudTasksClient;
   private queueConfigs: Map<string, QueueConfig> = new Map();
-  private projectId: string;
-  private location: string;
-  private defaultProcessorUrl?: string;
   private rateLimiterService: RateLimiterService;
+  private flowService: FlowService;
+  private batchService: BatchService;
+  private transport: ITaskTransport;
 
   constructor(
     private readonly config: CloudTaskMQConfig,
     private readonly storageAdapter: IStateStorageAdapter,
+    transport?: ITaskTransport,
   ) {
     super();
-    this.client = new CloudTasksClient(this.config.auth);
-    this.projectId = config.projectId;
-    this.location = config.location;
-    this.defaultProcessorUrl = config.defaultProcessorUrl;
+    this.transport = transport ?? new CloudTasksTransport(config);
     this.rateLimiterService = new RateLimiterService(this.storageAdapter);
+    this.flowService = new FlowService(config, this.storageAdapter, this.transport);
+    this.batchService = new BatchService(config, this.storageAdapter, this.transport);
 
     // Build queue configs map
     config.queues.forEach(queue => {
@@ -39,20 +90,199 @@ export class ProducerService extends EventEmitter {
    * Initialize the producer service
    */
   async initialize(): Promise<void> {
-    // Create queues if auto-create is enabled
-    if (this.config.autoCreateQueues) {
-      await this.createMissingQueues();
-    }
+    await this.transport.initialize();
   }
 
   /**
    * Add a task to a queue
+   * @throws A rate limit error if the queue's rateLimitBehavior is 'throw' and its rate limit is exceeded
    */
   async addTask<T = any>(
     queueName: string,
     data: T,
     options: AddTaskOptions = {},
   ): Promise<AddTaskResult> {
+    return await this.enqueueTask(queueName, data, options);
+  }
+
+  /**
+   * Add many tasks to a queue at once. Tasks are stored with bulk writes and dispatched in
+   * parallel. Every task gets its own result, in the order given, so some tasks may fail
+   * while the others are added.
+   */
+  async addTasks<T = any>(
+    queueName: string,
+    tasks: Array<BatchTask<T>>,
+    bulkOptions: AddTasksOptions = {},
+  ): Promise<AddTaskResult[]> {
+    const concurrency = bulkOptions.concurrency ?? DEFAULT_BULK_CONCURRENCY;
+    const results: AddTaskResult[] = [];
+
+    for (let start = 0; start < tasks.length; start += BULK_CHUNK_SIZE) {
+      const chunk = tasks.slice(start, start + BULK_CHUNK_SIZE);
+      const prepared = await mapWithConcurrency(chunk, concurrency, async (task): Promise<PreparedTask | AddTaskResult> => {
+        try {
+          return await this.prepareTask(queueName, task.data, { ...task.options, session: bulkOptions.session });
+        } catch (error) {
+          return { taskId: '', success: false, error: error instanceof Error ? error.message : String(error) };
+        }
+      });
+
+      const toStore = prepared.filter((item): item is PreparedTask => 'task' in item);
+      const storeErrors = await this.saveTasks(toStore.map(item => item.task), bulkOptions.session);
+
+      results.push(...await mapWithConcurrency(prepared, concurrency, async item => {
+        if (!('task' in item)) {
+          return item;
+        }
+        if (storeErrors.has(item.task.id)) {
+          return await this.abandonTask(item, storeErrors.get(item.task.id));
+        }
+        return await this.dispatchNewTask(item);
+      }));
+    }
+
+    return results;
+  }
+
+  /**
+   * Add a flow. Every task in the tree only runs once all of its children completed,
+   * and can read their results through childrenResults.
+   */
+  async addFlow<T = any>(flow: FlowNode<T>): Promise<AddFlowResult> {
+    return await this.addFlowNode(flow);
+  }
+
+  /**
+   * Add a flow node, then its children
+   */
+  private async addFlowNode(
+    node: FlowNode,
+    taskId?: string,
+    parent?: ITask['parent'],
+  ): Promise<AddFlowResult> {
+    const children = node.children || [];
+    const childIds = children.map(() => uuidv4());
+
+    const result = await this.enqueueTask(node.queueName, node.data, node.options, { taskId, parent, childIds });
+    if (!result.success || children.length === 0) {
+      return { ...result, queueName: node.queueName };
+    }
+
+    const childResults: AddFlowResult[] = [];
+    for (let i = 0; i < children.length; i++) {
+      const childParent = { id: result.taskId, queueName: node.queueName, onFailure: children[i].onFailure };
+      const childResult = await this.addFlowNode(children[i], childIds[i], childParent);
+      childResults.push(childResult);
+
+      // A child that couldn't be added counts as failed, one enqueued elsewhere as completed
+      if (!childResult.success) {
+        await this.flowService.settleChild({ id: childIds[i], parent: childParent }, 'failed', childResult.error);
+      } else if (childResult.deduplicated) {
+        await this.flowService.settleChild({ id: childIds[i], parent: childParent }, 'completed');
+      }
+    }
+
+    return { ...result, queueName: node.queueName, children: childResults };
+  }
+
+  /**
+   * Add a batch of tasks whose completion is tracked as a whole. Once every member
+   * completed or failed for good, a 'batchCompleted' event is emitted with the aggregated
+   * results and failures, and the optional callback task runs with them in data.batch.
+   */
+  async addBatch<T = any>(
+    queueName: string,
+    tasks: Array<BatchTask<T>>,
+    batchOptions: AddBatchOptions = {},
+  ): Promise<AddBatchResult> {
+    if (tasks.length === 0) {
+      throw new Error('A batch needs at least one task');
+    }
+
+    const batchId = batchOptions.id || uuidv4();
+    await this.storageAdapter.createBatch(batchId, tasks.length);
+
+    // The callback waits for the batch, so it is stored before any member can finish
+    let callback: AddTaskResult | undefined;
+    if (batchOptions.callback) {
+      callback = await this.enqueueTask(
+        batchOptions.callback.queueName,
+        batchOptions.callback.data ?? {},
+        batchOptions.callback.options,
+        { waiting: true },
+      );
+      if (!callback.success) {
+        return { batchId, results: [], callback };
+      }
+    }
+
+    const batch = { id: batchId, total: tasks.length, callbackTaskId: callback?.taskId };
+    const results: AddTaskResult[] = [];
+    for (const task of tasks) {
+      const taskId = uuidv4();
+      const result = await this.enqueueTask(queueName, task.data, task.options, { taskId, batch });
+      results.push(result);
+
+      // A member that couldn't be added counts as failed, one enqueued elsewhere as completed
+      if (!result.success || result.deduplicated) {
+        const outcome = result.success ? 'completed' : 'failed';
+        const completedEvent = await this.batchService.recordOutcome({ id: taskId, batch }, outcome);
+        if (completedEvent) {
+          this.emit('batchCompleted', completedEvent);
+        }
+      }
+    }
+
+    return { batchId, results, callback };
+  }
+
+  /**
+   * Get the completion counts of a batch
+   */
+  async getBatchProgress(batchId: string): Promise<BatchProgress | null> {
+    return await this.storageAdapter.getBatchProgress(batchId);
+  }
+
+  /**
+   * Validate, store and dispatch a task
+   */
+  private async enqueueTask<T = any>(
+    queueName: string,
+    data: T,
+    options: AddTaskOptions = {},
+    relations: TaskRelations = {},
+  ): Promise<AddTaskResult> {
+    const prepared = await this.prepareTask(queueName, data, options, relations);
+    if (!('task' in prepared)) {
+      return prepared;
+    }
+
+    try {
+      // Save task to storage
+      await this.storageAdapter.saveTask(prepared.task, { session: options.session });
+
+      // Track the children a flow parent waits on before any of them can settle
+      if (prepared.task.childIds) {
+        await this.storageAdapter.setPendingChildren(prepared.task.id, prepared.task.childIds);
+      }
+    } catch (error) {
+      return await this.abandonTask(prepared, error);
+    }
+
+    return await this.dispatchNewTask(prepared);
+  }
+
+  /**
+   * Validate a task, check the rate limit, acquire its uniqueness key and build the task to store
+   * @returns The task to store, or the result of a task that is not added
+   */
+  private async prepareTask<T = any>(
+    queueName: string,
+    data: T,
+    options: AddTaskOptions,
+    relations: TaskRelations = {},
+  ): Promise<PreparedTask | AddTaskResult> {
     const queueConfig = this.queueConfigs.get(queueName);
     if (!queueConfig) {
       return {
@@ -62,110 +292,242 @@ export class ProducerService extends EventEmitter {
       };
     }
 
-    // Check uniqueness key
-    if (options.uniquenessKey) {
-      const isActive = await this.storageAdapter.isUniquenessKeyActive(options.uniquenessKey);
-      if (isActive) {
-        return {
-          taskId: '',
-          success: false,
-          skipped: true,
-          error: `Task with uniqueness key "${options.uniquenessKey}" is already active`,
-        };
-      }
+    const runAt = options.runAt ? new Date(options.runAt) : undefined;
+    if (runAt && isNaN(runAt.getTime())) {
+      return {
+        taskId: '',
+        success: false,
+        error: `Invalid runAt "${options.runAt}"`,
+      };
     }
 
+    // A task saved in the caller's transaction can only be dispatched once it committed
+    const useOutbox = this.config.outbox?.enabled === true;
+    if (options.session && !useOutbox) {
+      return {
+        taskId: '',
+        success: false,
+        error: 'Saving tasks in a storage session requires the outbox to be enabled',
+      };
+    }
+
+    // Refuse new tasks for paused queues configured to reject them
+    if (queueConfig.pauseBehavior === 'reject' && (await this.storageAdapter.isQueuePaused(queueName))) {
+      return {
+        taskId: '',
+        success: false,
+        error: `Queue "${queueName}" is paused`,
+      };
+    }
+
+    // Generate task ID
+    const taskId = relations.taskId ?? uuidv4();
+
+    // Chain steps after the first wait for their predecessor, which dispatches them on completion,
+    // flow parents wait for their children and batch callbacks for the batch
+    const hasChildren = !!relations.childIds && relations.childIds.length > 0;
+    const isWaiting = hasChildren || !!relations.waiting
+      || (!!options.chain && (options.chain.index ?? 0) > 0 && options.chain.waitForPrevious !== false);
+    // An absolute runAt also holds for waiting tasks, a relative delay counts from their release
+    let scheduledFor = runAt
+      ?? (options.delay && !isWaiting ? new Date(Date.now() + options.delay * 1000) : undefined);
+
     // Check rate limiting for the queue
+    let rateLimitKey: string | undefined;
     if (queueConfig.rateLimiter) {
-      const rateLimitKey = RateLimiterService.createQueueKey(queueName);
-      const rateLimitResult = await this.rateLimiterService.checkRateLimit(
-        rateLimitKey,
-        queueConfig.rateLimiter
-      );
-
-      if (!rateLimitResult.allowed) {
-        return {
-          taskId: '',
-          success: false,
-          error: `Rate limit exceeded for queue "${queueName}". Limit: ${queueConfig.rateLimiter.maxRequests} per ${queueConfig.rateLimiter.windowMs}ms`,
-        };
+      const rateLimited = await this.applyRateLimit(queueConfig, scheduledFor, isWaiting);
+      if (rateLimited.result) {
+        return rateLimited.result;
       }
+      scheduledFor = rateLimited.scheduledFor;
+      rateLimitKey = rateLimited.rateLimitKey;
     }
+    const isDelayed = !!scheduledFor && scheduledFor.getTime() > Date.now();
 
-    // Generate task ID
-    const taskId = uuidv4();
+    // Acquire the uniqueness key, or deduplicate against the task holding it. The rate limit
+    // needs the task's final schedule first, so a task that is not added gives its slot back.
+    let replacedTaskId: string | undefined;
+    if (options.uniquenessKey) {
+      let uniqueness: { result?: AddTaskResult; replacedTaskId?: string };
+      try {
+        uniqueness = await this.acquireUniquenessKey(queueConfig, taskId, options, scheduledFor);
+      } catch (error) {
+        await this.refundRateLimit(rateLimitKey);
+        throw error;
+      }
+      if (uniqueness.result) {
+        await this.refundRateLimit(rateLimitKey);
+        return uniqueness.result;
+      }
+      replacedTaskId = uniqueness.replacedTaskId;
+    }
 
-    // Create task object
+    // Create task object. The storage session only applies to saving it, so it isn't stored.
+    const taskOptions: AddTaskOptions = { ...options };
+    delete taskOptions.session;
     const task: ITask = {
       id: taskId,
       queueName,
       data,
-      status: TaskStatus.IDLE,
+      status: isWaiting ? TaskStatus.WAITING : isDelayed ? TaskStatus.DELAYED : TaskStatus.IDLE,
       createdAt: new Date(),
       updatedAt: new Date(),
       attempts: 0,
       maxAttempts: options.maxAttempts || queueConfig.maxRetries || 3,
-      delay: options.delay,
-      scheduledFor: options.delay ? new Date(Date.now() + options.delay * 1000) : undefined,
+      delay: runAt ? undefined : options.delay,
+      scheduledFor,
       chain: options.chain ? {
         id: options.chain.id,
         index: options.chain.index ?? 0,
         total: options.chain.total ?? 1,
+        onFailure: options.chain.onFailure,
       } : undefined,
       uniquenessKey: options.uniquenessKey,
+      priority: options.priority ?? 0,
+      parent: relations.parent,
+      childIds: hasChildren ? relations.childIds : undefined,
+      batch: relations.batch,
+      pendingDispatchAt: useOutbox && !isWaiting ? new Date() : undefined,
       options: {
         removeOnComplete: options.removeOnComplete,
         removeOnFail: options.removeOnFail,
         priority: options.priority,
-        ...options,
+        ...taskOptions,
       },
     };
 
-    try {
-      // Save task to storage
-      await this.storageAdapter.saveTask(task);
+    return { queueConfig, task, replacedTaskId, rateLimitKey };
+  }
 
-      // Set uniqueness key if provided
-      if (options.uniquenessKey) {
-        await this.storageAdapter.setUniquenessKeyActive(options.uniquenessKey, taskId);
+  /**
+   * Apply the queue's rate limit to a new task according to its rateLimitBehavior
+   * @returns When the task is scheduled, pushed back to a free slot if needed, and the key it was counted
+   * under, or the result of a rejected task
+   * @throws A rate limit error when the behavior is 'throw' and the limit is exceeded
+   */
+  private async applyRateLimit(
+    queueConfig: QueueConfig,
+    scheduledFor: Date | undefined,
+    isWaiting: boolean,
+  ): Promise<{ scheduledFor?: Date; rateLimitKey?: string; result?: AddTaskResult }> {
+    const rateLimiter = queueConfig.rateLimiter!;
+    const rateLimitKey = RateLimiterService.createQueueKey(queueConfig.name);
+    const behavior = queueConfig.rateLimitBehavior ?? 'reject';
+
+    if (behavior === 'delay') {
+      // Waiting tasks run once they are released, so there is nothing to schedule
+      if (isWaiting) {
+        return { scheduledFor };
       }
 
-      // Create Cloud Task only if processor URL is available
       try {
-        await this.createCloudTask(queueConfig, task);
-      } catch (cloudTaskError) {
-        // Log warning but don't fail the task creation - allow local processing
-        console.warn(`Failed to create Cloud Task, but task saved locally: ${cloudTaskError instanceof Error ? cloudTaskError.message : String(cloudTaskError)}`);
+        const slot = await this.rateLimiterService.reserveSlot(rateLimitKey, rateLimiter, scheduledFor?.getTime());
+        return {
+          scheduledFor: slot > Date.now() ? new Date(slot) : scheduledFor,
+          rateLimitKey: RateLimiterService.createSlotKey(rateLimitKey, rateLimiter.windowMs, slot),
+        };
+      } catch (error) {
+        // Too far behind to delay, so the task is rejected
+        if (isRateLimitError(error)) {
+          return { result: { taskId: '', success: false, error: error.message } };
+        }
+        throw error;
       }
+    }
 
-      this.emit('taskAdded', { taskId, queueName, data });
+    const rateLimitResult = await this.rateLimiterService.checkRateLimit(rateLimitKey, rateLimiter);
+    if (rateLimitResult.allowed) {
+      return { scheduledFor, rateLimitKey };
+    }
 
-      return {
-        taskId,
-        success: true,
-      };
-    } catch (error) {
-      // Clean up on error
-      await this.storageAdapter.deleteTask(taskId);
-      if (options.uniquenessKey) {
-        await this.storageAdapter.removeUniquenessKey(options.uniquenessKey);
+    const message = `Rate limit exceeded for queue "${queueConfig.name}". Limit: ${rateLimiter.maxRequests} per ${rateLimiter.windowMs}ms`;
+    if (behavior === 'throw') {
+      throw createRateLimitError(message, rateLimitResult.resetTime);
+    }
+    return { result: { taskId: '', success: false, error: message } };
+  }
+
+  /**
+   * Store tasks with one bulk write. If it fails, the tasks are stored one by one instead
+   * to find out which of them can't be stored.
+   * @returns The errors of the tasks that could not be stored, by task ID
+   */
+  private async saveTasks(tasks: ITask[], session?: unknown): Promise<Map<string, unknown>> {
+    const errors = new Map<string, unknown>();
+    if (tasks.length === 0) {
+      return errors;
+    }
+
+    try {
+      await this.storageAdapter.saveTasks(tasks, { session });
+    } catch {
+      for (const task of tasks) {
+        try {
+          await this.storageAdapter.saveTask(task, { session });
+        } catch (error) {
+          errors.set(task.id, error);
+        }
       }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Hand a newly stored task over to the transport, unless it waits or the outbox relay dispatches it
+   */
+  private async dispatchNewTask(prepared: PreparedTask): Promise<AddTaskResult> {
+    const { queueConfig, task, replacedTaskId } = prepared;
+    try {
+      if (task.status !== TaskStatus.WAITING && !task.pendingDispatchAt) {
+        try {
+          await this.dispatchTask(queueConfig, task);
+        } catch (dispatchError) {
+          // The transport already has a task with this name, so another producer enqueued the same work.
+          // The local copy is discarded, as only the existing task runs.
+          if (isTaskAlreadyExistsError(dispatchError)) {
+            await this.discardTask(prepared);
+            return { taskId: '', success: true, deduplicated: true };
+          }
+
+          // Log warning but don't fail the task creation - allow local processing
+          console.warn(`Failed to dispatch task, but task saved locally: ${dispatchError instanceof Error ? dispatchError.message : String(dispatchError)}`);
+        }
+      }
+
+      this.emit('taskAdded', { taskId: task.id, queueName: task.queueName, data: task.data });
 
       return {
-        taskId, // Return the generated taskId even on error so task can still be processed locally
-        success: false,
-        error: error instanceof Error ? error.message : String(error),
+        taskId: task.id,
+        success: true,
+        replacedTaskId,
       };
+    } catch (error) {
+      return await this.abandonTask(prepared, error);
     }
   }
 
   /**
-   * Add multiple tasks as a chain
+   * Clean up a task that could not be added
+   */
+  private async abandonTask(prepared: PreparedTask, error: unknown): Promise<AddTaskResult> {
+    await this.discardTask(prepared);
+
+    return {
+      taskId: prepared.task.id, // Return the generated taskId even on error so task can still be processed locally
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+
+  /**
+   * Add multiple tasks as a chain. Only the first step is dispatched; each step
+   * dispatches the next one when it completes, passing on its result.
    */
   async addChain<T = any>(
     queueName: string,
     tasks: Array<{ data: T; options?: AddTaskOptions }>,
-    chainOptions: { id?: string; waitForPrevious?: boolean } = {},
+    chainOptions: { id?: string; waitForPrevious?: boolean; onFailure?: ChainFailureMode } = {},
   ): Promise<AddTaskResult[]> {
     const chainId = chainOptions.id || uuidv4();
     const results: AddTaskResult[] = [];
@@ -179,14 +541,15 @@ export class ProducerService extends EventEmitter {
           index: i,
           total: tasks.length,
           waitForPrevious: chainOptions.waitForPrevious,
+          onFailure: chainOptions.onFailure,
         },
       };
 
       const result = await this.addTask(queueName, taskData.data, taskOptions);
       results.push(result);
 
-      if (!result.success) {
-        // Stop chain creation on first failure
+      // Stop chain creation on first failure, or at a step enqueued elsewhere that can't release the next one
+      if (!result.success || result.deduplicated) {
         break;
       }
     }
@@ -194,6 +557,172 @@ export class ProducerService extends EventEmitter {
     return results;
   }
 
+  /**
+   * Retry a failed or cancelled task from scratch
+   */
+  async retryTask(taskId: string): Promise<ITask> {
+    const task = await this.getTaskForOperation(taskId);
+    if (task.status !== TaskStatus.FAILED && task.status !== TaskStatus.CANCELLED) {
+      throw new Error(`Task ${taskId} cannot be retried from status "${task.status}"`);
+    }
+
+    const retriedTask: ITask = {
+      ...task,
+      status: TaskStatus.IDLE,
+      attempts: 0,
+      error: undefined,
+      failedAt: undefined,
+      cancelledAt: undefined,
+      scheduledFor: undefined,
+      nextAttemptAt: undefined,
+      updatedAt: new Date(),
+    };
+    const retried = await this.storageAdapter.transitionTask(taskId, [TaskStatus.FAILED, TaskStatus.CANCELLED], TaskStatus.IDLE, {
+      attempts: 0,
+      error: undefined,
+      failedAt: undefined,
+      cancelledAt: undefined,
+      scheduledFor: undefined,
+      nextAttemptAt: undefined,
+    });
+    if (!retried) {
+      throw new Error(`Task ${taskId} was retried or removed concurrently`);
+    }
+
+    // A manual retry supersedes any dead-letter copy of the task
+    await this.storageAdapter.deleteDeadLetter(taskId);
+
+    await this.dispatchTask(this.getQueueConfigForTask(task), retriedTask);
+    return (await this.storageAdapter.getTask(taskId)) || retriedTask;
+  }
+
+  /**
+   * Cancel a task that hasn't started yet
+   */
+  async cancelTask(taskId: string): Promise<ITask> {
+    const task = await this.getTaskForOperation(taskId);
+    const cancellable = [TaskStatus.IDLE, TaskStatus.DELAYED, TaskStatus.WAITING];
+    if (!cancellable.includes(task.status)) {
+      throw new Error(`Task ${taskId} cannot be cancelled from status "${task.status}"`);
+    }
+
+    const queueConfig = this.getQueueConfigForTask(task);
+    if (this.transport.cancel) {
+      await this.transport.cancel(queueConfig, task);
+    }
+
+    // A task claimed by a consumer in the meantime keeps running
+    const cancelled = await this.storageAdapter.transitionTask(taskId, cancellable, TaskStatus.CANCELLED, {
+      cancelledAt: new Date(),
+    });
+    if (!cancelled) {
+      throw new Error(`Task ${taskId} started or changed status before it could be cancelled`);
+    }
+
+    if (task.uniquenessKey) {
+      await this.storageAdapter.removeUniquenessKey(task.uniquenessKey, taskId);
+    }
+
+    return (await this.storageAdapter.getTask(taskId))!;
+  }
+
+  /**
+   * Run a delayed task now
+   */
+  async promoteTask(taskId: string): Promise<ITask> {
+    const task = await this.getTaskForOperation(taskId);
+    const isWaiting = task.status === TaskStatus.IDLE || task.status === TaskStatus.DELAYED;
+    if (!isWaiting || !task.scheduledFor || new Date(task.scheduledFor).getTime() <= Date.now()) {
+      throw new Error(`Task ${taskId} is not delayed`);
+    }
+
+    const queueConfig = this.getQueueConfigForTask(task);
+    if (this.transport.cancel) {
+      await this.transport.cancel(queueConfig, task);
+    }
+
+    const promotedTask: ITask = {
+      ...task,
+      status: TaskStatus.IDLE,
+      delay: undefined,
+      scheduledFor: undefined,
+      nextAttemptAt: undefined,
+      parkedAt: undefined,
+      updatedAt: new Date(),
+    };
+    const promoted = await this.storageAdapter.transitionTask(taskId, [TaskStatus.IDLE, TaskStatus.DELAYED], TaskStatus.IDLE, {
+      delay: undefined,
+      scheduledFor: undefined,
+      nextAttemptAt: undefined,
+      parkedAt: undefined,
+    });
+    if (!promoted) {
+      throw new Error(`Task ${taskId} started or changed status before it could be promoted`);
+    }
+
+    await this.dispatchTask(queueConfig, promotedTask);
+    return (await this.storageAdapter.getTask(taskId)) || promotedTask;
+  }
+
+  /**
+   * Pause a queue. New tasks are held or rejected according to the queue's pauseBehavior.
+   */
+  async pauseQueue(queueName: string, options: QueuePauseOptions = {}): Promise<void> {
+    const queueConfig = this.getQueueConfigOrThrow(queueName);
+
+    await this.storageAdapter.setQueuePaused(queueName, true);
+    if (options.transport && this.transport.pauseQueue) {
+      for (const transportQueueConfig of getTransportQueueConfigs(queueConfig)) {
+        await this.transport.pauseQueue(transportQueueConfig);
+      }
+    }
+  }
+
+  /**
+   * Resume a paused queue and dispatch the tasks held while it was paused
+   */
+  async resumeQueue(queueName: string, options: QueuePauseOptions = {}): Promise<void> {
+    const queueConfig = this.getQueueConfigOrThrow(queueName);
+
+    await this.storageAdapter.setQueuePaused(queueName, false);
+    if (options.transport && this.transport.resumeQueue) {
+      for (const transportQueueConfig of getTransportQueueConfigs(queueConfig)) {
+        await this.transport.resumeQueue(transportQueueConfig);
+      }
+    }
+
+    const heldTasks = await this.storageAdapter.getTasks({
+      queueName,
+      status: [TaskStatus.IDLE, TaskStatus.DELAYED],
+      marker: 'heldAt',
+      sort: TASK_PRIORITY_SORT,
+    });
+
+    for (const task of heldTasks) {
+      await this.storageAdapter.updateTask(task.id, { heldAt: undefined });
+      try {
+        await this.dispatchTask(queueConfig, { ...task, heldAt: undefined });
+      } catch (dispatchError) {
+        console.warn(`Failed to dispatch held task ${task.id}: ${dispatchError instanceof Error ? dispatchError.message : String(dispatchError)}`);
+      }
+    }
+  }
+
+  /**
+   * Check if a queue is paused
+   */
+  async isQueuePaused(queueName: string): Promise<boolean> {
+    return await this.storageAdapter.isQueuePaused(queueName);
+  }
+
+  /**
+   * Hand a stored task back to the transport, e.g. after recovering it from a stall
+   * @param updateData Extra fields stored in the same update as the outcome of the dispatch
+   */
+  async redispatchTask(task: ITask, updateData?: Partial<ITask>): Promise<void> {
+    await this.dispatchTask(this.getQueueConfigForTask(task), task, updateData);
+  }
+
   /**
    * Get queue configuration
    */
@@ -209,99 +738,175 @@ export class ProducerService extends EventEmitter {
   }
 
   /**
-   * Create missing queues in Google Cloud Tasks
+   * Acquire the uniqueness key of a task being added. When another task holds it, the new task
+   * is skipped, replaces the holder, or pushes the holder back according to the uniqueness mode.
+   * @returns The result to return instead of adding the task, or the task it replaced
    */
-  private async createMissingQueues(): Promise<void> {
-    const parent = `projects/${this.projectId}/locations/${this.location}`;
+  private async acquireUniquenessKey(
+    queueConfig: QueueConfig,
+    taskId: string,
+    options: AddTaskOptions,
+    scheduledFor?: Date,
+  ): Promise<{ result?: AddTaskResult; replacedTaskId?: string }> {
+    const key = options.uniquenessKey!;
+    const ttl = options.uniquenessTtl ?? DEFAULT_UNIQUENESS_TTL_SECONDS;
+    if (!(ttl > 0)) {
+      return {
+        result: {
+          taskId: '',
+          success: false,
+          error: `Invalid uniquenessTtl ${options.uniquenessTtl}: must be a positive number of seconds`,
+        },
+      };
+    }
+
+    // Within a storage session the key joins the caller's transaction, like the task itself
+    const writeOptions = { session: options.session };
+    const holderId = await this.storageAdapter.acquireUniquenessKey(key, taskId, ttl, writeOptions);
+    if (!holderId) {
+      return {};
+    }
+
+    // Only tasks that haven't started yet can be replaced or pushed back
+    const holder = await this.storageAdapter.getTask(holderId);
+    const isPending = holder?.status === TaskStatus.IDLE || holder?.status === TaskStatus.DELAYED;
+    const mode = options.uniquenessMode ?? 'skip-while-active';
 
-    for (const [queueName, queueConfig] of this.queueConfigs) {
+    if (holder && isPending && mode === 'replace') {
       try {
-        // Check if queue exists
-        await this.client.getQueue({ name: queueConfig.path });
-      } catch (error: any) {
-        if (error.code === 5) { // NOT_FOUND
-          try {
-            // Create queue
-            const queueId = queueConfig.path.split('/').pop();
-            await this.client.createQueue({
-              parent,
-              queue: {
-                name: queueConfig.path,
-                rateLimits: queueConfig.rateLimiter ? {
-                  maxDispatchesPerSecond: queueConfig.rateLimiter.maxRequests / (queueConfig.rateLimiter.windowMs / 1000),
-                } : undefined,
-                retryConfig: {
-                  maxAttempts: queueConfig.maxRetries || 3,
-                  maxRetryDuration: {
-                    seconds: (queueConfig.retryDelay || 60) * (queueConfig.maxRetries || 3),
-                  },
-                },
-              },
-            });
-            console.log(`Created queue: ${queueName}`);
-          } catch (createError) {
-            console.error(`Failed to create queue ${queueName}:`, createError);
-          }
+        // Cancelling releases the key, unless the holder started in the meantime
+        await this.cancelTask(holderId);
+        if ((await this.storageAdapter.acquireUniquenessKey(key, taskId, ttl, writeOptions)) === null) {
+          return { replacedTaskId: holderId };
         }
+      } catch (error) {
+        console.warn(`Failed to replace task ${holderId}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } else if (holder && isPending && mode === 'debounce' && scheduledFor) {
+      // A holder that started in the meantime is left alone and the new task skipped
+      if (await this.debounceTask(queueConfig, holder, scheduledFor)) {
+        await this.storageAdapter.setUniquenessKeyActive(key, holderId, ttl);
+        return { result: { taskId: holderId, success: true, debounced: true } };
       }
     }
+
+    return {
+      result: {
+        taskId: '',
+        success: false,
+        skipped: true,
+        error: `Task with uniqueness key "${key}" is already active`,
+      },
+    };
   }
 
   /**
-   * Create a Cloud Task
+   * Remove a task that was not added after all, the uniqueness key it holds and its rate limit slot
    */
-  private async createCloudTask(queueConfig: QueueConfig, task: ITask): Promise<void> {
-    const processorUrl = queueConfig.processorUrl || this.defaultProcessorUrl;
-    if (!processorUrl) {
-      throw new Error(`No processor URL configured for queue "${queueConfig.name}"`);
+  private async discardTask({ task, rateLimitKey }: PreparedTask): Promise<void> {
+    await this.storageAdapter.deleteTask(task.id);
+    if (task.uniquenessKey) {
+      await this.storageAdapter.removeUniquenessKey(task.uniquenessKey, task.id);
     }
+    await this.refundRateLimit(rateLimitKey);
+  }
 
-    const payload = {
-      taskId: task.id,
-      queueName: task.queueName,
-      data: task.data,
-      attempts: task.attempts,
-      maxAttempts: task.maxAttempts,
-      chain: task.chain,
-      uniquenessKey: task.uniquenessKey,
-    };
+  /**
+   * Give back the rate limit slot of a task that was not added after all
+   */
+  private async refundRateLimit(rateLimitKey: string | undefined): Promise<void> {
+    if (!rateLimitKey) return;
 
-    const taskRequest: google.cloud.tasks.v2.ICreateTaskRequest = {
-      parent: queueConfig.path,
-      task: {
-        httpRequest: {
-          httpMethod: 'POST',
-          url: processorUrl,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: Buffer.from(JSON.stringify(payload)),
-        },
-      },
+    try {
+      await this.rateLimiterService.refundRateLimit(rateLimitKey);
+    } catch (error) {
+      console.warn(`Failed to refund rate limit "${rateLimitKey}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Push a pending task back to a later execution time and dispatch it again
+   * @returns Whether the task was still pending
+   */
+  private async debounceTask(queueConfig: QueueConfig, task: ITask, scheduledFor: Date): Promise<boolean> {
+    if (task.scheduledFor && new Date(task.scheduledFor).getTime() >= scheduledFor.getTime()) {
+      return true;
+    }
+
+    if (this.transport.cancel) {
+      await this.transport.cancel(queueConfig, task);
+    }
+
+    const debouncedTask: ITask = {
+      ...task,
+      status: TaskStatus.DELAYED,
+      scheduledFor,
+      cloudTaskName: undefined,
+      parkedAt: undefined,
+      updatedAt: new Date(),
     };
+    const debounced = await this.storageAdapter.transitionTask(task.id, [TaskStatus.IDLE, TaskStatus.DELAYED], TaskStatus.DELAYED, {
+      scheduledFor,
+      cloudTaskName: undefined,
+      parkedAt: undefined,
+      updatedAt: debouncedTask.updatedAt,
+    });
+    if (!debounced) {
+      return false;
+    }
 
-    // Add delay if specified
-    if (task.delay && task.delay > 0) {
-      taskRequest.task!.scheduleTime = {
-        seconds: Math.floor((Date.now() + task.delay * 1000) / 1000),
-      };
+    await this.dispatchTask(queueConfig, debouncedTask);
+    return true;
+  }
+
+  /**
+   * Dispatch a task through the transport and remember its transport name
+   */
+  private async dispatchTask(queueConfig: QueueConfig, task: ITask, updateData?: Partial<ITask>): Promise<void> {
+    await dispatchStoredTask(this.storageAdapter, this.transport, queueConfig, task, updateData);
+  }
+
+  /**
+   * Load a task for a manual operation
+   */
+  private async getTaskForOperation(taskId: string): Promise<ITask> {
+    const task = await this.storageAdapter.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
     }
+    return task;
+  }
 
-    // Add service account if configured
-    if (queueConfig.serviceAccountEmail) {
-      taskRequest.task!.httpRequest!.oidcToken = {
-        serviceAccountEmail: queueConfig.serviceAccountEmail,
-      };
+  /**
+   * Get the configuration of the queue a task belongs to
+   */
+  private getQueueConfigForTask(task: ITask): QueueConfig {
+    return this.getQueueConfigOrThrow(task.queueName);
+  }
+
+  /**
+   * Get queue configuration, failing for unknown queues
+   */
+  private getQueueConfigOrThrow(queueName: string): QueueConfig {
+    const queueConfig = this.queueConfigs.get(queueName);
+    if (!queueConfig) {
+      throw new Error(`Queue "${queueName}" not found in configuration`);
     }
+    return queueConfig;
+  }
 
-    await this.client.createTask(taskRequest);
+  /**
+   * Get the transport used to deliver tasks
+   */
+  getTransport(): ITaskTransport {
+    return this.transport;
   }
 
   /**
    * Close the producer service
    */
   async close(): Promise<void> {
-    // Cloud Tasks client doesn't need explicit closing
+    await this.transport.close();
     this.removeAllListeners();
   }
 }
@@ -1,5 +1,11 @@
 import { IStateStorageAdapter } from '../interfaces/storage-adapter.interface';
 import { RateLimiterOptions } from '../interfaces/config.interface';
+import { createRateLimitError, getRateLimitCapacity } from '../utils/rate-limit.utils';
+
+/**
+ * Most windows a slot reservation looks at before giving up
+ */
+export const MAX_SLOT_SEARCH_WINDOWS = 100;
 
 /**
  * Rate limiting result
@@ -35,13 +41,19 @@ export interface RateLimitResult {
  * Rate limiter service
  */
 export class RateLimiterService {
+  /**
+   * First window known to have free slots, per key, so reservations skip windows already full
+   */
+  private readonly openWindows = new Map<string, number>();
+
   constructor(private readonly storageAdapter: IStateStorageAdapter) {}
 
   /**
-   * Check and increment rate limit
+   * Check and increment rate limit, counting the request with the configured algorithm
    */
   async checkRateLimit(key: string, options: RateLimiterOptions): Promise<RateLimitResult> {
-    const { maxRequests, windowMs } = options;
+    const { maxRequests, windowMs, algorithm, burst } = options;
+    const limit = getRateLimitCapacity(options);
 
     // Handle zero max requests case
     if (maxRequests <= 0) {
@@ -55,23 +67,62 @@ export class RateLimiterService {
     }
 
     // Use atomic increment operation
-    const result = await this.storageAdapter.incrementRateLimit(key, windowMs, maxRequests);
+    const result = await this.storageAdapter.incrementRateLimit(key, windowMs, maxRequests, { algorithm, burst });
     const now = Date.now();
 
     return {
       allowed: result.allowed,
       count: result.count,
-      limit: maxRequests,
+      limit,
       resetTime: result.resetTime.getTime() - now,
-      remaining: Math.max(0, maxRequests - result.count),
+      remaining: Math.max(0, limit - result.count),
     };
   }
 
+  /**
+   * Reserve a slot in the first window with room, at or after a given time. Windows are aligned
+   * to the epoch so every instance counts the same windows, and each hands out maxRequests slots.
+   * Slots are counted in these fixed windows whatever the configured algorithm.
+   * @param notBefore Earliest time for the slot in milliseconds (defaults to now)
+   * @returns Time of the reserved slot in milliseconds: notBefore, or the start of a later window
+   * @throws A rate limit error if none of the next MAX_SLOT_SEARCH_WINDOWS windows has room
+   */
+  async reserveSlot(key: string, options: RateLimiterOptions, notBefore = Date.now()): Promise<number> {
+    const { maxRequests, windowMs } = options;
+    if (maxRequests <= 0) {
+      throw new Error(`Rate limit "${key}" allows no requests`);
+    }
+
+    const firstWindow = Math.max(Math.floor(notBefore / windowMs), this.openWindows.get(key) ?? 0);
+    let window = firstWindow;
+    while (window < firstWindow + MAX_SLOT_SEARCH_WINDOWS) {
+      // Each window's counter expires when the window ends
+      const windowEnd = (window + 1) * windowMs;
+      const result = await this.storageAdapter.incrementRateLimit(
+        RateLimiterService.createSlotKey(key, windowMs, window * windowMs),
+        windowEnd - Date.now(),
+        maxRequests,
+      );
+      if (result.allowed) {
+        return Math.max(notBefore, window * windowMs);
+      }
+
+      // A full window has no room until its counter resets, so go on from the window the reset falls in
+      window = Math.max(window + 1, Math.floor(result.resetTime.getTime() / windowMs));
+      this.openWindows.set(key, window);
+    }
+
+    throw createRateLimitError(
+      `Rate limit "${key}" has no free slot within ${MAX_SLOT_SEARCH_WINDOWS} windows`,
+      window * windowMs - Date.now(),
+    );
+  }
+
   /**
    * Get current rate limit status without incrementing
    */
   async getRateLimitStatus(key: string, options: RateLimiterOptions): Promise<RateLimitResult | null> {
-    const { maxRequests } = options;
+    const limit = getRateLimitCapacity(options);
     const currentLimit = await this.storageAdapter.getRateLimit(key);
     const now = Date.now();
 
@@ -80,14 +131,21 @@ export class RateLimiterService {
     }
 
     return {
-      allowed: currentLimit.count < maxRequests,
+      allowed: currentLimit.count < limit,
       count: currentLimit.count,
-      limit: maxRequests,
+      limit,
       resetTime: currentLimit.resetTime.getTime() - now,
-      remaining: Math.max(0, maxRequests - currentLimit.count),
+      remaining: Math.max(0, limit - currentLimit.count),
     };
   }
 
+  /**
+   * Give back the last request counted for a key, e.g. for a task that did not run after all
+   */
+  async refundRateLimit(key: string): Promise<void> {
+    await this.storageAdapter.refundRateLimit(key);
+  }
+
   /**
    * Reset rate limit for a key
    */
@@ -113,7 +171,7 @@ export class RateLimiterService {
    */
   async getRemaining(key: string, options: RateLimiterOptions): Promise<number> {
     const status = await this.getRateLimitStatus(key, options);
-    return status ? status.remaining : options.maxRequests;
+    return status ? status.remaining : getRateLimitCapacity(options);
   }
 
   /**
@@ -156,6 +214,14 @@ export class RateLimiterService {
       : RateLimiterService.createKey('user', userId);
   }
 
+  /**
+   * Create the key counting the slots reserved in the window a slot falls in
+   * @param slot Time of the slot in milliseconds, as returned by reserveSlot
+   */
+  static createSlotKey(key: string, windowMs: number, slot: number): string {
+    return `${key}:${Math.floor(slot / windowMs)}`;
+  }
+
   /**
    * Create a rate limit key for queue
    */
@@ -0,0 +1,267 @@
+import { IRepeatableTask, IStateStorageAdapter, RepeatSchedule } from '../interfaces/storage-adapter.interface';
+import { CloudTaskMQConfig, RepeatableTaskOptions } from '../interfaces/config.interface';
+import { AddTaskOptions, AddTaskResult, RepeatOptions } from '../interfaces/task.interface';
+import { getNextCronDate, isValidTimezone, parseCronExpression } from '../utils/cron.utils';
+import { ProducerService } from './producer.service';
+import { ProcessorRegistration } from './consumer.service';
+
+/**
+ * Default interval between checks for due repeatable occurrences in milliseconds
+ */
+export const DEFAULT_REPEATABLE_CHECK_INTERVAL_MS = 5 * 1000;
+
+/**
+ * Repeatable task service.
+ * Stores repeatable task definitions and adds a task for every occurrence as it comes due.
+ * Occurrences are claimed through the storage adapter, so only one instance adds each of them.
+ */
+export class RepeatableService {
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+  private readonly options: RepeatableTaskOptions;
+
+  constructor(
+    config: CloudTaskMQConfig,
+    private readonly storageAdapter: IStateStorageAdapter,
+    private readonly producerService: ProducerService,
+  ) {
+    this.options = config.repeatable || {};
+  }
+
+  /**
+   * Start checking for due occurrences periodically
+   */
+  start(): void {
+    if (this.timer || this.options.enabled === false) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processDueRepeatables().catch(error => {
+        console.error('Error adding repeatable tasks:', error);
+      });
+    }, this.getCheckIntervalMs());
+    this.timer.unref();
+  }
+
+  /**
+   * Stop checking for due occurrences
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Add or update a repeatable task. Registering an unchanged schedule again keeps its
+   * progress, so it is safe to do on every start of every instance.
+   * @throws Error if the queue is unknown or the schedule is invalid
+   */
+  async addRepeatable<T = any>(
+    queueName: string,
+    data: T,
+    repeat: RepeatOptions,
+    options: AddTaskOptions = {},
+  ): Promise<IRepeatableTask> {
+    if (!this.producerService.getQueueConfig(queueName)) {
+      throw new Error(`Queue "${queueName}" not found in configuration`);
+    }
+
+    const { key: customKey, ...schedule } = repeat;
+    this.validateSchedule(schedule);
+
+    const key = customKey
+      ?? [queueName, options.taskName, schedule.cron ?? `every ${schedule.every}s`, schedule.timezone]
+        .filter(Boolean)
+        .join(':');
+    const now = new Date();
+    const existing = await this.storageAdapter.getRepeatable(key);
+
+    const repeatable: IRepeatableTask = existing && this.isSameSchedule(existing.repeat, schedule)
+      ? { ...existing, data, options, updatedAt: now }
+      : {
+        key,
+        queueName,
+        data,
+        options,
+        repeat: schedule,
+        count: 0,
+        nextRunAt: this.getFirstRunAt(schedule, now),
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+
+    await this.storageAdapter.saveRepeatable(repeatable);
+    return repeatable;
+  }
+
+  /**
+   * Add the repeatable tasks declared with the repeat option of @Process
+   */
+  async registerProcessor(registration: ProcessorRegistration): Promise<IRepeatableTask[]> {
+    const repeatables: IRepeatableTask[] = [];
+
+    for (const handler of registration.processHandlers) {
+      if (!handler.repeat) continue;
+
+      const { data, ...repeat } = handler.repeat;
+      repeatables.push(await this.addRepeatable(registration.queueName, data ?? {}, repeat, { taskName: handler.name }));
+    }
+
+    return repeatables;
+  }
+
+  /**
+   * Get repeatable tasks, optionally of one queue
+   */
+  async getRepeatables(queueName?: string): Promise<IRepeatableTask[]> {
+    return await this.storageAdapter.getRepeatables(queueName);
+  }
+
+  /**
+   * Remove a repeatable task. Occurrences that were already added are left alone.
+   */
+  async removeRepeatable(key: string): Promise<boolean> {
+    return await this.storageAdapter.deleteRepeatable(key);
+  }
+
+  /**
+   * Add a task for every occurrence due before the next check
+   * @returns Results of the tasks added
+   */
+  async processDueRepeatables(): Promise<AddTaskResult[]> {
+    if (this.checking) {
+      return [];
+    }
+
+    this.checking = true;
+    try {
+      const now = Date.now();
+      const horizon = now + this.getCheckIntervalMs();
+      const repeatables = await this.storageAdapter.getRepeatables();
+      const results: AddTaskResult[] = [];
+
+      for (const repeatable of repeatables) {
+        if (!repeatable.nextRunAt || repeatable.nextRunAt.getTime() > horizon) continue;
+
+        try {
+          const result = await this.addOccurrence(repeatable, now);
+          if (result) {
+            results.push(result);
+          }
+        } catch (error) {
+          console.error(`Failed to add occurrence of repeatable task ${repeatable.key}:`, error);
+        }
+      }
+
+      return results;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Claim the next occurrence of a repeatable task and add its task
+   * @returns The result of adding the task, or null if another instance claimed the occurrence
+   */
+  private async addOccurrence(repeatable: IRepeatableTask, now: number): Promise<AddTaskResult | null> {
+    const runAt = repeatable.nextRunAt!;
+    const count = repeatable.count + 1;
+    const claimed = await this.storageAdapter.claimRepeatableRun(repeatable.key, runAt, {
+      count,
+      lastRunAt: runAt,
+      nextRunAt: this.getFollowingRunAt(repeatable.repeat, runAt, count, now),
+      updatedAt: new Date(),
+    });
+    if (!claimed) {
+      return null;
+    }
+
+    // Occurrences claimed ahead of time are delayed until they are due
+    const delay = Math.max(0, runAt.getTime() - now) / 1000;
+    return await this.producerService.addTask(repeatable.queueName, repeatable.data, {
+      ...repeatable.options,
+      delay: delay > 0 ? delay : undefined,
+      repeatKey: repeatable.key,
+    });
+  }
+
+  /**
+   * First occurrence of a new schedule
+   */
+  private getFirstRunAt(schedule: RepeatSchedule, now: Date): Date | undefined {
+    const start = schedule.startDate && schedule.startDate > now ? schedule.startDate : now;
+
+    let firstRunAt: Date | null;
+    if (schedule.cron) {
+      // An occurrence exactly at the start date counts
+      firstRunAt = getNextCronDate(schedule.cron, new Date(start.getTime() - 1), schedule.timezone);
+    } else {
+      firstRunAt = start === now ? new Date(now.getTime() + schedule.every! * 1000) : start;
+    }
+
+    return this.withinEndDate(schedule, firstRunAt);
+  }
+
+  /**
+   * Occurrence following runAt. Occurrences missed while no instance was checking are skipped.
+   */
+  private getFollowingRunAt(schedule: RepeatSchedule, runAt: Date, count: number, now: number): Date | undefined {
+    if (schedule.limit && count >= schedule.limit) {
+      return undefined;
+    }
+
+    const after = Math.max(runAt.getTime(), now);
+    let followingRunAt: Date | null;
+    if (schedule.cron) {
+      followingRunAt = getNextCronDate(schedule.cron, new Date(after), schedule.timezone);
+    } else {
+      const everyMs = schedule.every! * 1000;
+      const intervals = Math.floor((after - runAt.getTime()) / everyMs) + 1;
+      followingRunAt = new Date(runAt.getTime() + intervals * everyMs);
+    }
+
+    return this.withinEndDate(schedule, followingRunAt);
+  }
+
+  private withinEndDate(schedule: RepeatSchedule, runAt: Date | null): Date | undefined {
+    if (!runAt || (schedule.endDate && runAt > schedule.endDate)) {
+      return undefined;
+    }
+    return runAt;
+  }
+
+  private validateSchedule(schedule: RepeatSchedule): void {
+    if (!!schedule.cron === (schedule.every !== undefined)) {
+      throw new Error('A repeatable task needs either a cron expression or an interval');
+    }
+    if (schedule.every !== undefined && !(schedule.every > 0)) {
+      throw new Error(`Invalid repeat interval ${schedule.every}: must be a positive number of seconds`);
+    }
+    if (schedule.cron) {
+      parseCronExpression(schedule.cron);
+    }
+    if (schedule.timezone && !isValidTimezone(schedule.timezone)) {
+      throw new Error(`Invalid timezone "${schedule.timezone}"`);
+    }
+    if (schedule.limit !== undefined && !(schedule.limit > 0)) {
+      throw new Error(`Invalid repeat limit ${schedule.limit}: must be a positive number`);
+    }
+  }
+
+  private isSameSchedule(a: RepeatSchedule, b: RepeatSchedule): boolean {
+    const time = (date?: Date) => (date ? new Date(date).getTime() : undefined);
+    return a.cron === b.cron
+      && a.every === b.every
+      && a.timezone === b.timezone
+      && time(a.startDate) === time(b.startDate)
+      && time(a.endDate) === time(b.endDate)
+      && a.limit === b.limit;
+  }
+
+  private getCheckIntervalMs(): number {
+    return this.options.checkIntervalMs ?? DEFAULT_REPEATABLE_CHECK_INTERVAL_MS;
+  }
+}
@@ -0,0 +1,225 @@
+import { EventEmitter } from 'events';
+import { IStateStorageAdapter, ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { CloudTaskMQConfig, StalledTaskOptions } from '../interfaces/config.interface';
+import { TaskStalledEvent } from '../interfaces/task.interface';
+import { ConcurrencyService } from './concurrency.service';
+import { ProducerService } from './producer.service';
+import { FlowService } from './flow.service';
+import { BatchService } from './batch.service';
+import { releaseUniquenessKey } from '../utils/uniqueness.utils';
+
+/**
+ * Default lifetime of a task lock in milliseconds
+ */
+export const DEFAULT_LOCK_DURATION_MS = 30 * 1000;
+
+/**
+ * Default interval between stalled task checks in milliseconds
+ */
+export const DEFAULT_STALLED_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Default number of times a task may stall before it is failed
+ */
+export const DEFAULT_MAX_STALLED_COUNT = 1;
+
+/**
+ * Stalled task service.
+ * Finds active tasks whose lock expired because their consumer crashed or hung,
+ * and moves them back to idle for another run or to failed once they stalled too often.
+ */
+export class StalledTaskService extends EventEmitter {
+  private timer?: NodeJS.Timeout;
+  private checking = false;
+  private readonly options: StalledTaskOptions;
+  private readonly queueNames: string[];
+  private readonly flowService: FlowService;
+  private readonly batchService: BatchService;
+
+  constructor(
+    config: CloudTaskMQConfig,
+    private readonly storageAdapter: IStateStorageAdapter,
+    private readonly producerService: ProducerService,
+  ) {
+    super();
+    this.options = config.stalledTasks || {};
+    this.queueNames = config.queues.map(queue => queue.name);
+    this.flowService = new FlowService(config, storageAdapter, producerService.getTransport());
+    this.batchService = new BatchService(config, storageAdapter, producerService.getTransport());
+  }
+
+  /**
+   * Start checking for stalled tasks periodically
+   */
+  start(): void {
+    if (this.timer || this.options.enabled === false) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.checkStalledTasks().catch(error => {
+        console.error('Error checking stalled tasks:', error);
+      });
+    }, this.options.checkIntervalMs ?? DEFAULT_STALLED_CHECK_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  /**
+   * Stop checking for stalled tasks
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Recover every active task whose lock expired
+   * @returns The stalled tasks found
+   */
+  async checkStalledTasks(): Promise<ITask[]> {
+    if (this.checking) {
+      return [];
+    }
+
+    this.checking = true;
+    try {
+      const now = Date.now();
+      const stalledTasks: ITask[] = [];
+
+      // Queried per queue, so adapters can look up the active tasks of each queue in their status index
+      for (const queueName of this.queueNames) {
+        const activeTasks = await this.storageAdapter.getTasks({ queueName, status: TaskStatus.ACTIVE });
+
+        // Tasks without a lock were started before locks existed and are left alone
+        stalledTasks.push(...activeTasks.filter(
+          task => task.lockExpiresAt && new Date(task.lockExpiresAt).getTime() <= now,
+        ));
+      }
+
+      for (const task of stalledTasks) {
+        try {
+          await this.recoverTask(task);
+        } catch (error) {
+          console.error(`Failed to recover stalled task ${task.id}:`, error);
+        }
+      }
+
+      return stalledTasks;
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * Re-queue a stalled task, or fail it once it exceeded maxStalledCount
+   */
+  private async recoverTask(task: ITask): Promise<void> {
+    const stalledCount = (task.stalledCount ?? 0) + 1;
+    const maxStalledCount = this.options.maxStalledCount ?? DEFAULT_MAX_STALLED_COUNT;
+    const lockExpiredAt = new Date(task.lockExpiresAt!);
+    const isFailed = stalledCount > maxStalledCount;
+
+    if (isFailed) {
+      const now = new Date();
+      const message = `Task ${task.id} stalled more than ${maxStalledCount} time(s)`;
+      const failed = await this.transitionStalledTask(task, TaskStatus.FAILED, {
+        stalledCount,
+        lockExpiresAt: undefined,
+        lockToken: undefined,
+        concurrencyKeys: undefined,
+        error: { message, timestamp: now, reason: 'stalled' },
+        errorHistory: [
+          ...(task.errorHistory || []),
+          { message, timestamp: now, attempt: task.attempts, reason: 'stalled' },
+        ],
+        failedAt: now,
+        updatedAt: now,
+      });
+      if (!failed) return;
+
+      // Clean up if configured
+      if (task.options?.removeOnFail) {
+        await this.storageAdapter.deleteTask(task.id);
+      }
+      await releaseUniquenessKey(this.storageAdapter, task);
+
+      await this.flowService.settleChild(task, 'failed', message);
+
+      const completedEvent = await this.batchService.recordOutcome(task, 'failed');
+      if (completedEvent) {
+        this.emit('batchCompleted', completedEvent);
+      }
+    } else {
+      const requeuedTask: ITask = {
+        ...task,
+        status: TaskStatus.IDLE,
+        stalledCount,
+        lockExpiresAt: undefined,
+        lockToken: undefined,
+        concurrencyKeys: undefined,
+        updatedAt: new Date(),
+      };
+      const requeued = await this.transitionStalledTask(task, TaskStatus.IDLE, {
+        stalledCount,
+        lockExpiresAt: undefined,
+        lockToken: undefined,
+        concurrencyKeys: undefined,
+        updatedAt: requeuedTask.updatedAt,
+      });
+      if (!requeued) return;
+
+      try {
+        await this.producerService.redispatchTask(requeuedTask);
+      } catch (dispatchError) {
+        console.warn(`Failed to re-enqueue stalled task ${task.id}: ${dispatchError instanceof Error ? dispatchError.message : String(dispatchError)}`);
+      }
+    }
+
+    const stalledEvent: TaskStalledEvent = {
+      taskId: task.id,
+      queueName: task.queueName,
+      data: task.data,
+      stalledCount,
+      lockExpiredAt,
+      action: isFailed ? 'failed' : 'requeued',
+      timestamp: new Date(),
+    };
+    this.emit('taskStalled', stalledEvent);
+  }
+
+  /**
+   * Move a stalled task out of active and free the slots its run held.
+   * The run may have completed or failed since the check, in which case it is left alone.
+   * @returns Whether the task was still active
+   */
+  private async transitionStalledTask(task: ITask, toStatus: TaskStatus, updateData: Partial<ITask>): Promise<boolean> {
+    const updated = await this.storageAdapter.transitionTask(task.id, [TaskStatus.ACTIVE], toStatus, updateData);
+    if (!updated) {
+      return false;
+    }
+
+    await this.releaseConcurrencyLeases(task);
+    return true;
+  }
+
+  /**
+   * Release the distributed concurrency leases a stalled run may still hold, under the keys
+   * stored when it was claimed. Runs claimed before the keys were stored fall back to the
+   * queue key and the handler key of the task name.
+   */
+  private async releaseConcurrencyLeases(task: ITask): Promise<void> {
+    let keys = task.concurrencyKeys;
+    if (!keys) {
+      keys = [ConcurrencyService.createQueueKey(task.queueName)];
+      if (task.options?.taskName) {
+        keys.push(ConcurrencyService.createHandlerKey(task.queueName, task.options.taskName));
+      }
+    }
+
+    for (const key of keys) {
+      await this.storageAdapter.releaseConcurrencyLease(key, task.id);
+    }
+  }
+}
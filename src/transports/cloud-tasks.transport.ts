@@ -0,0 +1,236 @@
+import { CloudTasksClient } from '@google-cloud/tasks';
+import { google } from '@google-cloud/tasks/build/protos/protos';
+import { CloudTaskMQConfig, QueueConfig, RetryPolicy } from '../interfaces/config.interface';
+import { ITask } from '../interfaces/storage-adapter.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+import { buildTaskPayload } from '../utils/task-payload.utils';
+import { getTransportQueueConfigs } from '../utils/task-dispatch.utils';
+import { createTaskAlreadyExistsError, toCloudTaskId } from '../utils/cloud-task-name.utils';
+
+/**
+ * Furthest ahead Cloud Tasks accepts a schedule time (30 days), less an hour of margin
+ * for clock skew and request latency
+ */
+export const CLOUD_TASKS_MAX_SCHEDULE_DELAY_MS = (30 * 24 - 1) * 60 * 60 * 1000;
+
+/**
+ * Transport that delivers tasks through Google Cloud Tasks
+ */
+export class CloudTasksTransport implements ITaskTransport {
+  readonly maxScheduleDelayMs = CLOUD_TASKS_MAX_SCHEDULE_DELAY_MS;
+  private client: CloudTasksClient;
+  private projectId: string;
+  private location: string;
+  private defaultProcessorUrl?: string;
+
+  constructor(private readonly config: CloudTaskMQConfig) {
+    this.client = new CloudTasksClient(this.config.auth);
+    this.projectId = config.projectId;
+    this.location = config.location;
+    this.defaultProcessorUrl = config.defaultProcessorUrl;
+  }
+
+  /**
+   * Initialize the transport
+   */
+  async initialize(): Promise<void> {
+    // Create queues if auto-create is enabled
+    if (this.config.autoCreateQueues) {
+      await this.createMissingQueues();
+    }
+  }
+
+  /**
+   * Create a Cloud Task for a stored task
+   */
+  async dispatch(queueConfig: QueueConfig, task: ITask): Promise<string | void> {
+    const processorUrl = queueConfig.processorUrl || this.defaultProcessorUrl;
+    if (!processorUrl) {
+      throw new Error(`No processor URL configured for queue "${queueConfig.name}"`);
+    }
+
+    const payload = buildTaskPayload(task);
+
+    const taskRequest: google.cloud.tasks.v2.ICreateTaskRequest = {
+      parent: queueConfig.path,
+      task: {
+        name: this.getTaskName(queueConfig, task),
+        httpRequest: {
+          httpMethod: 'POST',
+          url: processorUrl,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: Buffer.from(JSON.stringify(payload)),
+        },
+      },
+    };
+
+    // Schedule the task if it isn't due yet
+    const scheduleAt = task.scheduledFor
+      ? new Date(task.scheduledFor).getTime()
+      : Date.now() + (task.delay || 0) * 1000;
+    if (scheduleAt > Date.now()) {
+      taskRequest.task!.scheduleTime = {
+        seconds: Math.floor(scheduleAt / 1000),
+      };
+    }
+
+    // Add service account if configured
+    if (queueConfig.serviceAccountEmail) {
+      taskRequest.task!.httpRequest!.oidcToken = {
+        serviceAccountEmail: queueConfig.serviceAccountEmail,
+      };
+    }
+
+    try {
+      const [cloudTask] = await this.client.createTask(taskRequest);
+      return cloudTask?.name || undefined;
+    } catch (error: any) {
+      if (error.code === 6 && taskRequest.task!.name) { // ALREADY_EXISTS
+        throw createTaskAlreadyExistsError(taskRequest.task!.name);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete the Cloud Task backing a stored task
+   */
+  async cancel(_queueConfig: QueueConfig, task: ITask): Promise<void> {
+    if (!task.cloudTaskName) {
+      return;
+    }
+
+    try {
+      await this.client.deleteTask({ name: task.cloudTaskName });
+    } catch (error: any) {
+      if (error.code !== 5) { // NOT_FOUND - already delivered or deleted
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Pause the Cloud Tasks queue
+   */
+  async pauseQueue(queueConfig: QueueConfig): Promise<void> {
+    await this.client.pauseQueue({ name: queueConfig.path });
+  }
+
+  /**
+   * Resume the Cloud Tasks queue
+   */
+  async resumeQueue(queueConfig: QueueConfig): Promise<void> {
+    await this.client.resumeQueue({ name: queueConfig.path });
+  }
+
+  /**
+   * Get the underlying Cloud Tasks client
+   */
+  getClient(): CloudTasksClient {
+    return this.client;
+  }
+
+  /**
+   * Close the transport
+   */
+  async close(): Promise<void> {
+    // Cloud Tasks client doesn't need explicit closing
+  }
+
+  /**
+   * Name of the Cloud Task for a task, or undefined to let Cloud Tasks generate one.
+   * Cloud Tasks keeps names of finished tasks reserved for a while, so redispatches of a task
+   * get a numbered name of their own.
+   */
+  private getTaskName(queueConfig: QueueConfig, task: ITask): string | undefined {
+    const naming = queueConfig.taskNaming ?? 'task-id';
+    if (naming === 'generated') {
+      return undefined;
+    }
+
+    let taskId = task.id;
+    if (task.dispatchCount) {
+      taskId = `${task.id}-${task.dispatchCount}`;
+    } else if (naming === 'uniqueness-key' && task.uniquenessKey && task.options?.uniquenessMode !== 'replace') {
+      // A replacing task shares its key with the task it cancelled, whose name is still reserved
+      taskId = task.uniquenessKey;
+    }
+
+    return `${queueConfig.path}/tasks/${toCloudTaskId(taskId)}`;
+  }
+
+  /**
+   * Create missing queues in Google Cloud Tasks
+   */
+  private async createMissingQueues(): Promise<void> {
+    const parent = `projects/${this.projectId}/locations/${this.location}`;
+
+    // Priority queues are created alongside the queue they belong to
+    for (const queueConfig of this.config.queues.flatMap(getTransportQueueConfigs)) {
+      const queueName = queueConfig.path.split('/').pop() || queueConfig.name;
+      try {
+        // Check if queue exists
+        await this.client.getQueue({ name: queueConfig.path });
+      } catch (error: any) {
+        if (error.code === 5) { // NOT_FOUND
+          try {
+            // Create queue
+            await this.client.createQueue({
+              parent,
+              queue: {
+                name: queueConfig.path,
+                rateLimits: queueConfig.rateLimiter ? {
+                  maxDispatchesPerSecond: queueConfig.rateLimiter.maxRequests / (queueConfig.rateLimiter.windowMs / 1000),
+                } : undefined,
+                retryConfig: {
+                  maxAttempts: queueConfig.maxRetries || 3,
+                  maxRetryDuration: {
+                    seconds: (queueConfig.retryDelay || 60) * (queueConfig.maxRetries || 3),
+                  },
+                  ...this.getBackoffConfig(queueConfig.retryPolicy),
+                },
+              },
+            });
+            console.log(`Created queue: ${queueName}`);
+          } catch (createError) {
+            console.error(`Failed to create queue ${queueName}:`, createError);
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * Map a retry policy onto Cloud Tasks' backoff settings
+   */
+  private getBackoffConfig(
+    retryPolicy?: RetryPolicy,
+  ): Partial<google.cloud.tasks.v2.IRetryConfig> {
+    switch (retryPolicy?.type) {
+      case 'fixed':
+        return {
+          minBackoff: { seconds: retryPolicy.delay },
+          maxBackoff: { seconds: retryPolicy.delay },
+          maxDoublings: 0,
+        };
+
+      case 'linear':
+        return {
+          minBackoff: { seconds: retryPolicy.delay },
+          maxBackoff: retryPolicy.maxDelay !== undefined ? { seconds: retryPolicy.maxDelay } : undefined,
+          maxDoublings: 0,
+        };
+
+      case 'exponential':
+        return {
+          minBackoff: { seconds: retryPolicy.delay },
+          maxBackoff: retryPolicy.maxDelay !== undefined ? { seconds: retryPolicy.maxDelay } : undefined,
+        };
+
+      default:
+        return {};
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import * as http from 'http';
+import * as https from 'https';
+import { CloudTaskMQConfig, QueueConfig } from '../interfaces/config.interface';
+import { ITask } from '../interfaces/storage-adapter.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+import { buildTaskPayload } from '../utils/task-payload.utils';
+
+/**
+ * HTTP transport options
+ */
+export interface HttpTransportOptions {
+  /**
+   * Time allowed for a single delivery before it is aborted, in milliseconds
+   */
+  dispatchDeadlineMs?: number;
+
+  /**
+   * Maximum delivery attempts (defaults to the task's maxAttempts)
+   */
+  maxAttempts?: number;
+
+  /**
+   * Minimum backoff between retries in milliseconds
+   */
+  minBackoffMs?: number;
+
+  /**
+   * Maximum backoff between retries in milliseconds
+   */
+  maxBackoffMs?: number;
+
+  /**
+   * Number of times the backoff doubles before growing linearly
+   */
+  maxDoublings?: number;
+
+  /**
+   * Additional headers sent with every delivery (e.g. Authorization)
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Transport that emulates Google Cloud Tasks by POSTing tasks over plain HTTP.
+ * Deliveries carry the same payload and x-cloudtasks-* headers Cloud Tasks sends,
+ * and non-2xx responses are retried with exponential backoff.
+ */
+export class HttpTransport implements ITaskTransport {
+  // Node fires longer timers right away
+  readonly maxScheduleDelayMs = 2 ** 31 - 1;
+  private timers: Map<NodeJS.Timeout, string> = new Map(); // timer -> taskId
+  private pending: Set<Promise<void>> = new Set();
+  private closed = false;
+
+  constructor(
+    private readonly config: CloudTaskMQConfig,
+    private readonly options: HttpTransportOptions = {},
+  ) {}
+
+  /**
+   * Initialize the transport
+   */
+  async initialize(): Promise<void> {
+    this.closed = false;
+  }
+
+  /**
+   * Schedule delivery of a task to its processor URL
+   */
+  async dispatch(queueConfig: QueueConfig, task: ITask): Promise<void> {
+    const processorUrl = queueConfig.processorUrl || this.config.defaultProcessorUrl;
+    if (!processorUrl) {
+      throw new Error(`No processor URL configured for queue "${queueConfig.name}"`);
+    }
+
+    const scheduledFor = task.scheduledFor ? new Date(task.scheduledFor).getTime() : Date.now();
+    this.schedule(
+      task.id,
+      () => this.deliver(queueConfig, task, processorUrl, scheduledFor, 0, 0),
+      scheduledFor - Date.now(),
+    );
+  }
+
+  /**
+   * Cancel scheduled deliveries of a task
+   */
+  async cancel(_queueConfig: QueueConfig, task: ITask): Promise<void> {
+    for (const [timer, taskId] of this.timers) {
+      if (taskId === task.id) {
+        clearTimeout(timer);
+        this.timers.delete(timer);
+      }
+    }
+  }
+
+  /**
+   * Wait until every scheduled delivery has settled
+   */
+  async drain(): Promise<void> {
+    while (this.pending.size > 0 || this.timers.size > 0) {
+      await Promise.all(Array.from(this.pending));
+      if (this.pending.size === 0 && this.timers.size > 0) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+    }
+  }
+
+  /**
+   * Cancel scheduled deliveries and wait for in-flight requests
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const timer of this.timers.keys()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+
+    await Promise.all(Array.from(this.pending));
+  }
+
+  /**
+   * Run a delivery after the given delay
+   */
+  private schedule(taskId: string, delivery: () => Promise<void>, delayMs: number): void {
+    if (this.closed) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      const promise: Promise<void> = delivery().finally(() => {
+        this.pending.delete(promise);
+      });
+      this.pending.add(promise);
+    }, Math.max(0, delayMs));
+
+    this.timers.set(timer, taskId);
+  }
+
+  /**
+   * Deliver a task once and schedule a retry on failure
+   */
+  private async deliver(
+    queueConfig: QueueConfig,
+    task: ITask,
+    processorUrl: string,
+    scheduledFor: number,
+    retryCount: number,
+    executionCount: number,
+  ): Promise<void> {
+    const body = JSON.stringify(buildTaskPayload(task));
+    const headers: Record<string, string> = {
+      ...this.options.headers,
+      'Content-Type': 'application/json',
+      'Content-Length': String(Buffer.byteLength(body)),
+      'User-Agent': 'Google-Cloud-Tasks',
+      'X-CloudTasks-QueueName': queueConfig.path.split('/').pop() || queueConfig.name,
+      'X-CloudTasks-TaskName': task.id,
+      'X-CloudTasks-TaskRetryCount': String(retryCount),
+      'X-CloudTasks-TaskExecutionCount': String(executionCount),
+      'X-CloudTasks-TaskETA': String(scheduledFor / 1000),
+    };
+
+    let statusCode: number | undefined;
+    try {
+      statusCode = await this.post(processorUrl, headers, body);
+    } catch (error) {
+      // Network errors and deadline timeouts don't count as executions
+    }
+
+    if (statusCode !== undefined && statusCode >= 200 && statusCode < 300) {
+      return;
+    }
+
+    const nextExecutionCount = statusCode !== undefined ? executionCount + 1 : executionCount;
+    const maxAttempts = this.options.maxAttempts ?? task.maxAttempts;
+    if (retryCount + 1 >= maxAttempts) {
+      console.warn(`HTTP delivery of task ${task.id} gave up after ${retryCount + 1} attempts`);
+      return;
+    }
+
+    this.schedule(
+      task.id,
+      () =>
+        this.deliver(queueConfig, task, processorUrl, scheduledFor, retryCount + 1, nextExecutionCount),
+      this.getBackoff(retryCount + 1),
+    );
+  }
+
+  /**
+   * Compute the backoff before the given retry, following Cloud Tasks' retry config semantics
+   */
+  private getBackoff(retry: number): number {
+    const minBackoff = this.options.minBackoffMs ?? 100;
+    const maxBackoff = this.options.maxBackoffMs ?? 3600000;
+    const maxDoublings = this.options.maxDoublings ?? 16;
+
+    const doublings = Math.min(retry - 1, maxDoublings);
+    const linearSteps = Math.max(0, retry - 1 - maxDoublings);
+    const doubled = minBackoff * Math.pow(2, doublings);
+
+    return Math.min(maxBackoff, doubled + linearSteps * doubled);
+  }
+
+  /**
+   * POST a body and resolve with the response status code
+   */
+  private post(url: string, headers: Record<string, string>, body: string): Promise<number> {
+    const target = new URL(url);
+    const client = target.protocol === 'https:' ? https : http;
+
+    return new Promise<number>((resolve, reject) => {
+      const req = client.request(target, { method: 'POST', headers }, res => {
+        res.resume();
+        res.on('end', () => {
+          clearTimeout(deadline);
+          resolve(res.statusCode || 0);
+        });
+      });
+
+      // The deadline covers the whole exchange, not just idle time on the socket
+      const deadline = setTimeout(() => {
+        const error = new Error('Dispatch deadline exceeded');
+        reject(error);
+        req.destroy(error);
+      }, this.options.dispatchDeadlineMs ?? 600000);
+      req.on('error', error => {
+        clearTimeout(deadline);
+        reject(error);
+      });
+      req.end(body);
+    });
+  }
+}
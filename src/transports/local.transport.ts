@@ -0,0 +1,175 @@
+import { CloudTaskMQConfig, QueueConfig } from '../interfaces/config.interface';
+import { IStateStorageAdapter, ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+import { ConsumerService } from '../services/consumer.service';
+import { buildTaskPayload } from '../utils/task-payload.utils';
+import { TASK_PRIORITY_SORT } from '../utils/task-sort.utils';
+
+/**
+ * Local transport options
+ */
+export interface LocalTransportOptions {
+  /**
+   * Interval between storage polls in milliseconds
+   */
+  pollInterval?: number;
+
+  /**
+   * Maximum number of waiting tasks fetched per queue on each poll
+   */
+  batchSize?: number;
+
+  /**
+   * Concurrency used for queues whose processors don't declare one
+   */
+  concurrency?: number;
+}
+
+/**
+ * In-process transport for development and testing.
+ * Polls the storage adapter for waiting tasks that are due and runs them through
+ * the consumer service without going through Google Cloud Tasks.
+ */
+export class LocalTransport implements ITaskTransport {
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private inFlight: Map<string, Set<string>> = new Map(); // queueName -> Set of taskIds
+  private pending: Set<Promise<void>> = new Set();
+  private retryAt: Map<string, number> = new Map(); // taskId -> earliest retry timestamp
+
+  constructor(
+    private readonly config: CloudTaskMQConfig,
+    private readonly storageAdapter: IStateStorageAdapter,
+    private readonly consumerService: ConsumerService,
+    private readonly options: LocalTransportOptions = {},
+  ) {}
+
+  /**
+   * Start polling the storage adapter
+   */
+  async initialize(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.poll().catch(error => {
+        console.error('Error polling tasks in local transport:', error);
+      });
+    }, this.options.pollInterval ?? 1000);
+    this.timer.unref();
+  }
+
+  /**
+   * Tasks are picked up from storage by the polling loop
+   */
+  async dispatch(_queueConfig: QueueConfig, _task: ITask): Promise<void> {
+    // Nothing to do - the task is already persisted and will be polled
+  }
+
+  /**
+   * Run a single poll over every queue with registered processors
+   * @returns Number of tasks dispatched
+   */
+  async poll(): Promise<number> {
+    if (this.polling) {
+      return 0;
+    }
+
+    this.polling = true;
+    try {
+      let dispatched = 0;
+      for (const queueName of this.consumerService.getProcessors().keys()) {
+        dispatched += await this.pollQueue(queueName);
+      }
+      return dispatched;
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Poll until no due tasks remain and all dispatched tasks have settled
+   */
+  async drain(): Promise<void> {
+    while ((await this.poll()) > 0 || this.pending.size > 0) {
+      await Promise.all(Array.from(this.pending));
+    }
+  }
+
+  /**
+   * Stop polling and wait for in-flight tasks
+   */
+  async close(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+
+    await Promise.all(Array.from(this.pending));
+    this.inFlight.clear();
+    this.retryAt.clear();
+  }
+
+  /**
+   * Dispatch due tasks for a queue within its concurrency limit, highest priority first
+   */
+  private async pollQueue(queueName: string): Promise<number> {
+    let active = this.inFlight.get(queueName);
+    if (!active) {
+      active = new Set();
+      this.inFlight.set(queueName, active);
+    }
+
+    const concurrency =
+      this.consumerService.getQueueConcurrency(queueName) ?? this.options.concurrency ?? 1;
+    const available = concurrency - active.size;
+    if (available <= 0 || (await this.storageAdapter.isQueuePaused(queueName))) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const candidates = await this.storageAdapter.getTasks({
+      queueName,
+      status: [TaskStatus.IDLE, TaskStatus.DELAYED],
+      dueBefore: new Date(now),
+      sort: TASK_PRIORITY_SORT,
+      limit: this.options.batchSize ?? 100,
+    });
+
+    const runnable = candidates
+      .filter(task => !active!.has(task.id))
+      .filter(task => (this.retryAt.get(task.id) ?? 0) <= now)
+      .slice(0, available);
+
+    for (const task of runnable) {
+      this.run(task, active);
+    }
+
+    return runnable.length;
+  }
+
+  /**
+   * Run a task through the consumer service in the background
+   */
+  private run(task: ITask, active: Set<string>): void {
+    active.add(task.id);
+
+    const promise: Promise<void> = this.consumerService
+      .processTask(buildTaskPayload(task))
+      .then(() => {
+        this.retryAt.delete(task.id);
+      })
+      .catch(() => {
+        // The consumer has already recorded the failure; wait retryDelay before picking it up again
+        const queueConfig = this.config.queues.find(queue => queue.name === task.queueName);
+        this.retryAt.set(task.id, Date.now() + (queueConfig?.retryDelay ?? 0) * 1000);
+      })
+      .finally(() => {
+        active.delete(task.id);
+        this.pending.delete(promise);
+      });
+
+    this.pending.add(promise);
+  }
+}
@@ -0,0 +1,41 @@
+import { createHash } from 'crypto';
+
+/**
+ * Longest task ID Cloud Tasks accepts
+ */
+export const CLOUD_TASK_ID_MAX_LENGTH = 500;
+
+/**
+ * Name given to errors raised when the transport already has a task of the same name
+ */
+export const TASK_ALREADY_EXISTS_ERROR_NAME = 'AlreadyExistsError';
+
+/**
+ * Turn a value into a valid Cloud Task ID (letters, digits, hyphens and underscores).
+ * Values that had to be changed get a hash suffix, so different values never share an ID.
+ */
+export function toCloudTaskId(value: string): string {
+  if (/^[A-Za-z0-9_-]+$/.test(value) && value.length <= CLOUD_TASK_ID_MAX_LENGTH) {
+    return value;
+  }
+
+  const hash = createHash('sha256').update(value).digest('hex').slice(0, 16);
+  const sanitized = value.replace(/[^A-Za-z0-9_-]/g, '_').slice(0, CLOUD_TASK_ID_MAX_LENGTH - hash.length - 1);
+  return `${sanitized}-${hash}`;
+}
+
+/**
+ * Create the error raised when the transport already has a task of the same name
+ */
+export function createTaskAlreadyExistsError(taskName: string): Error {
+  const error = new Error(`Task "${taskName}" already exists in the transport`);
+  error.name = TASK_ALREADY_EXISTS_ERROR_NAME;
+  return error;
+}
+
+/**
+ * Check whether a dispatch failed because the transport already has a task of the same name
+ */
+export function isTaskAlreadyExistsError(error: unknown): boolean {
+  return error instanceof Error && error.name === TASK_ALREADY_EXISTS_ERROR_NAME;
+}
@@ -0,0 +1,222 @@
+/**
+ * Parsed cron expression: the allowed values of each field
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+
+  /**
+   * Whether the day-of-month field was restricted (not `*`)
+   */
+  daysOfMonthRestricted: boolean;
+
+  /**
+   * Whether the day-of-week field was restricted (not `*`)
+   */
+  daysOfWeekRestricted: boolean;
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * Years searched ahead for the next occurrence before giving up (e.g. for 30 February)
+ */
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * Parse a standard five-field cron expression (minute hour day-of-month month day-of-week).
+ * Supports `*`, ranges, steps, lists, month and day names, and macros such as `@daily`.
+ * @throws Error if the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = CRON_MACROS[expression.trim().toLowerCase()] ?? expression.trim();
+  const fields = normalized.split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+  }
+
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields;
+  const daysOfWeek = parseCronField(dayOfWeek, 0, 7, expression, DAY_NAMES);
+  // 7 is an alias for Sunday
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes: parseCronField(minute, 0, 59, expression),
+    hours: parseCronField(hour, 0, 23, expression),
+    daysOfMonth: parseCronField(dayOfMonth, 1, 31, expression),
+    months: parseCronField(month, 1, 12, expression, MONTH_NAMES),
+    daysOfWeek,
+    daysOfMonthRestricted: dayOfMonth !== '*',
+    daysOfWeekRestricted: dayOfWeek !== '*',
+  };
+}
+
+/**
+ * Get the first occurrence of a cron expression strictly after a date
+ * @param expression Cron expression
+ * @param after Date to search from
+ * @param timezone IANA timezone the expression is evaluated in (defaults to UTC)
+ * @returns The next occurrence, or null if the expression never matches
+ */
+export function getNextCronDate(expression: string, after: Date, timezone = 'UTC'): Date | null {
+  const schedule = parseCronExpression(expression);
+
+  // Search in wall-clock time of the timezone, represented as UTC dates
+  let wall = new Date(after.getTime() + getTimezoneOffsetMs(after, timezone));
+  wall.setUTCSeconds(0, 0);
+  wall = new Date(wall.getTime() + 60 * 1000);
+  const lastYear = wall.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (wall.getUTCFullYear() <= lastYear) {
+    if (!schedule.months.has(wall.getUTCMonth() + 1)) {
+      wall = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 1));
+      continue;
+    }
+    if (!matchesCronDay(schedule, wall)) {
+      wall = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate() + 1));
+      continue;
+    }
+    if (!schedule.hours.has(wall.getUTCHours())) {
+      wall = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate(), wall.getUTCHours() + 1));
+      continue;
+    }
+    if (!schedule.minutes.has(wall.getUTCMinutes())) {
+      wall = new Date(wall.getTime() + 60 * 1000);
+      continue;
+    }
+
+    const occurrence = wallTimeToDate(wall, timezone);
+    // Wall times repeated when clocks go back can map to an instant before the start
+    if (occurrence.getTime() > after.getTime()) {
+      return occurrence;
+    }
+    wall = new Date(wall.getTime() + 60 * 1000);
+  }
+
+  return null;
+}
+
+/**
+ * Check whether a string is a valid IANA timezone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse one cron field into the set of values it allows
+ */
+function parseCronField(
+  field: string,
+  min: number,
+  max: number,
+  expression: string,
+  names?: string[],
+): Set<number> {
+  const values = new Set<number>();
+  const invalid = () => new Error(`Invalid cron expression "${expression}": bad field "${field}"`);
+
+  const parseValue = (value: string): number => {
+    const nameIndex = names?.indexOf(value.toUpperCase()) ?? -1;
+    // Month names start at 1, day names at 0
+    const parsed = nameIndex >= 0 ? nameIndex + min : Number(value);
+    if (!/^\w+$/.test(value) || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw invalid();
+    }
+    return parsed;
+  };
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw invalid();
+    }
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startText, endText] = range.split('-');
+      start = parseValue(startText);
+      // A single value with a step runs to the end of the field, e.g. 5/15
+      end = endText !== undefined ? parseValue(endText) : stepText !== undefined ? max : start;
+      if (start > end) {
+        throw invalid();
+      }
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Check the day fields. When both are restricted, either may match (standard cron behavior).
+ */
+function matchesCronDay(schedule: CronSchedule, wall: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(wall.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(wall.getUTCDay());
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in milliseconds
+ */
+function getTimezoneOffsetMs(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value);
+
+  const wall = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wall - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time of a timezone (represented as a UTC date) to the actual instant
+ */
+function wallTimeToDate(wall: Date, timezone: string): Date {
+  const guess = new Date(wall.getTime() - getTimezoneOffsetMs(wall, timezone));
+  const candidate = new Date(wall.getTime() - getTimezoneOffsetMs(guess, timezone));
+  if (candidate.getTime() + getTimezoneOffsetMs(candidate, timezone) === wall.getTime()) {
+    return candidate;
+  }
+
+  // The wall time was skipped when clocks went forward, so run just after the gap
+  return guess;
+}
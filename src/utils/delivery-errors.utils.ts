@@ -0,0 +1,65 @@
+/**
+ * Name given to errors raised when a delivered task is missing from storage
+ */
+export const TASK_NOT_FOUND_ERROR_NAME = 'TaskNotFoundError';
+
+/**
+ * Name given to errors raised when a task is delivered while its queue is paused
+ */
+export const QUEUE_PAUSED_ERROR_NAME = 'QueuePausedError';
+
+/**
+ * Name given to errors raised when a delivery would exceed a concurrency limit
+ */
+export const CONCURRENCY_LIMIT_ERROR_NAME = 'ConcurrencyLimitError';
+
+/**
+ * Name given to errors raised when a task is delivered while another run holds it
+ */
+export const TASK_ALREADY_PROCESSING_ERROR_NAME = 'TaskAlreadyProcessingError';
+
+/**
+ * Name given to errors raised when a delayed task is delivered before it is due
+ */
+export const TASK_NOT_DUE_ERROR_NAME = 'TaskNotDueError';
+
+function createNamedError(name: string, message: string): Error {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+}
+
+/**
+ * Create the error raised when a delivered task is missing from storage
+ */
+export function createTaskNotFoundError(taskId: string): Error {
+  return createNamedError(TASK_NOT_FOUND_ERROR_NAME, `Task ${taskId} not found in storage`);
+}
+
+/**
+ * Create the error raised when a task is delivered while its queue is paused
+ */
+export function createQueuePausedError(queueName: string): Error {
+  return createNamedError(QUEUE_PAUSED_ERROR_NAME, `Queue "${queueName}" is paused`);
+}
+
+/**
+ * Create the error raised when a delivery would exceed a concurrency limit
+ */
+export function createConcurrencyLimitError(queueName: string): Error {
+  return createNamedError(CONCURRENCY_LIMIT_ERROR_NAME, `Concurrency limit reached for queue "${queueName}"`);
+}
+
+/**
+ * Create the error raised when a task is delivered while another run holds it
+ */
+export function createTaskAlreadyProcessingError(taskId: string): Error {
+  return createNamedError(TASK_ALREADY_PROCESSING_ERROR_NAME, `Task ${taskId} is already being processed`);
+}
+
+/**
+ * Create the error raised when a delayed task is delivered before it is due
+ */
+export function createTaskNotDueError(taskId: string, scheduledFor: Date): Error {
+  return createNamedError(TASK_NOT_DUE_ERROR_NAME, `Task ${taskId} is not due before ${scheduledFor.toISOString()}`);
+}
@@ -1,4 +1,5 @@
 import { Request } from 'express';
+import { TaskDelivery } from '../interfaces/task.interface';
 
 /**
  * HTTP utility functions
@@ -48,6 +49,22 @@ export function isCloudTasksRequest(req: Request): boolean {
   return false;
 }
 
+/**
+ * Read the delivery details Cloud Tasks sends in its request headers
+ */
+export function getCloudTasksDelivery(req: Request): TaskDelivery {
+  const getCount = (header: string): number | undefined => {
+    const value = Number(req.headers[header]);
+    return Number.isInteger(value) && value >= 0 ? value : undefined;
+  };
+
+  return {
+    taskName: req.headers['x-cloudtasks-taskname'] as string | undefined,
+    retryCount: getCount('x-cloudtasks-taskretrycount'),
+    executionCount: getCount('x-cloudtasks-taskexecutioncount'),
+  };
+}
+
 /**
  * Validate Cloud Tasks request headers
  */
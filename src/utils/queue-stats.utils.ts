@@ -0,0 +1,104 @@
+import { ITask, QueueStats, TaskStatus } from '../interfaces/storage-adapter.interface';
+
+/**
+ * Default window used for durations and throughput (15 minutes)
+ */
+export const DEFAULT_QUEUE_STATS_WINDOW_MS = 15 * 60 * 1000;
+
+/**
+ * Raw figures collected by a storage adapter
+ */
+export interface QueueStatsInput {
+  queueName: string;
+  counts: Record<TaskStatus, number>;
+  paused: boolean;
+  oldestWaitingAt?: Date | null;
+  /**
+   * Durations of the tasks completed in the window, unless the adapter aggregated them itself
+   */
+  durations?: number[];
+  /**
+   * Average and p95 duration aggregated by the adapter, instead of derived from durations
+   */
+  averageDuration?: number | null;
+  p95Duration?: number | null;
+  completed: number;
+  failed: number;
+  windowMs: number;
+  now: number;
+}
+
+/**
+ * Create a status count map with every status set to zero
+ */
+export function createStatusCounts(): Record<TaskStatus, number> {
+  const counts = {} as Record<TaskStatus, number>;
+  for (const status of Object.values(TaskStatus)) {
+    counts[status] = 0;
+  }
+  return counts;
+}
+
+/**
+ * Get the processing duration of a finished task in milliseconds
+ */
+export function getTaskDuration(task: Pick<ITask, 'createdAt' | 'activeAt' | 'completedAt'>): number | null {
+  if (!task.completedAt) {
+    return null;
+  }
+  const startedAt = task.activeAt || task.createdAt;
+  return new Date(task.completedAt).getTime() - new Date(startedAt).getTime();
+}
+
+/**
+ * Calculate a percentile using the nearest-rank method
+ * @param values Values to rank
+ * @param percentile Percentile between 0 and 100
+ */
+export function calculatePercentile(values: number[], percentile: number): number | null {
+  if (values.length === 0) {
+    return null;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[getPercentileRank(sorted.length, percentile) - 1];
+}
+
+/**
+ * Get the 1-based rank of a percentile among a number of sorted values, using the nearest-rank method
+ * @param count Number of values, at least 1
+ * @param percentile Percentile between 0 and 100
+ */
+export function getPercentileRank(count: number, percentile: number): number {
+  const rank = Math.ceil((percentile / 100) * count);
+  return Math.min(count, Math.max(1, rank));
+}
+
+function calculateAverage(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+/**
+ * Build queue statistics from the figures collected by a storage adapter
+ */
+export function buildQueueStats(input: QueueStatsInput): QueueStats {
+  const minutes = input.windowMs / 60000;
+  const total = Object.values(input.counts).reduce((sum, count) => sum + count, 0);
+  const durations = input.durations ?? [];
+
+  return {
+    queueName: input.queueName,
+    counts: input.counts,
+    total,
+    paused: input.paused,
+    oldestWaitingAge: input.oldestWaitingAt
+      ? Math.max(0, input.now - new Date(input.oldestWaitingAt).getTime())
+      : null,
+    averageDuration: input.averageDuration !== undefined ? input.averageDuration : calculateAverage(durations),
+    p95Duration: input.p95Duration !== undefined ? input.p95Duration : calculatePercentile(durations, 95),
+    completedPerMinute: minutes > 0 ? input.completed / minutes : 0,
+    failedPerMinute: minutes > 0 ? input.failed / minutes : 0,
+    windowMs: input.windowMs,
+    timestamp: new Date(input.now),
+  };
+}
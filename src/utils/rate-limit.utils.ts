@@ -0,0 +1,209 @@
+import { RateLimitAlgorithm, RateLimiterOptions } from '../interfaces/config.interface';
+
+/**
+ * Name given to errors raised when a rate limit is exceeded
+ */
+export const RATE_LIMIT_ERROR_NAME = 'RateLimitError';
+
+/**
+ * Error raised when a rate limit is exceeded
+ */
+export interface RateLimitError extends Error {
+  /**
+   * Time until the rate limit frees up, in milliseconds
+   */
+  retryAfterMs: number;
+}
+
+/**
+ * Create the error raised when a rate limit is exceeded
+ */
+export function createRateLimitError(message: string, retryAfterMs: number): RateLimitError {
+  const error = new Error(message) as RateLimitError;
+  error.name = RATE_LIMIT_ERROR_NAME;
+  error.retryAfterMs = Math.max(0, retryAfterMs);
+  return error;
+}
+
+/**
+ * Check whether an error was raised because a rate limit was exceeded
+ */
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return error instanceof Error && error.name === RATE_LIMIT_ERROR_NAME;
+}
+
+/**
+ * Stored state of a rate limit key. Times are in milliseconds.
+ */
+export interface RateLimitState {
+  /**
+   * Algorithm the state was counted with
+   */
+  algorithm: RateLimitAlgorithm;
+
+  /**
+   * Requests currently counted against the limit
+   */
+  count: number;
+
+  /**
+   * When a request is allowed again after a denied one, or the counted requests are
+   * forgotten after an allowed one
+   */
+  resetTime: number;
+
+  /**
+   * When the state no longer affects new requests and can be dropped
+   */
+  expiresAt: number;
+
+  /**
+   * sliding-log: times of the requests within the last window
+   */
+  log?: number[];
+
+  /**
+   * sliding-window: start of the current window and the requests of the current and previous windows
+   */
+  windowStart?: number;
+  windowCount?: number;
+  previousCount?: number;
+
+  /**
+   * token-bucket: tokens left in the bucket when it was last refilled
+   */
+  tokens?: number;
+  refilledAt?: number;
+}
+
+/**
+ * Get the number of requests a rate limit allows at once
+ */
+export function getRateLimitCapacity(options: Pick<RateLimiterOptions, 'maxRequests' | 'algorithm' | 'burst'>): number {
+  return options.algorithm === 'token-bucket' ? options.burst ?? options.maxRequests : options.maxRequests;
+}
+
+/**
+ * Count a request against the state of a rate limit key. Storage adapters run this atomically
+ * per key; the Redis adapter runs the same algorithms in Lua.
+ * @param state Current state of the key, if any
+ * @returns Whether the request is allowed, and the new state of the key
+ */
+export function countRateLimitRequest(
+  state: RateLimitState | undefined,
+  now: number,
+  windowMs: number,
+  maxRequests: number,
+  options: Pick<RateLimiterOptions, 'algorithm' | 'burst'> = {},
+): { allowed: boolean; state: RateLimitState } {
+  const algorithm = options.algorithm ?? 'fixed-window';
+  // State counted with another algorithm can't be carried over
+  const current = state?.algorithm === algorithm ? state : undefined;
+
+  switch (algorithm) {
+    case 'sliding-log': {
+      const log = (current?.log ?? []).filter(time => time > now - windowMs);
+      if (log.length >= maxRequests) {
+        return {
+          allowed: false,
+          state: { algorithm, count: log.length, resetTime: log[0] + windowMs, expiresAt: log[log.length - 1] + windowMs, log },
+        };
+      }
+      log.push(now);
+      return { allowed: true, state: { algorithm, count: log.length, resetTime: now + windowMs, expiresAt: now + windowMs, log } };
+    }
+
+    case 'sliding-window': {
+      const windowStart = Math.floor(now / windowMs) * windowMs;
+      let windowCount = 0;
+      let previousCount = 0;
+      if (current?.windowStart === windowStart) {
+        windowCount = current.windowCount ?? 0;
+        previousCount = current.previousCount ?? 0;
+      } else if (current?.windowStart === windowStart - windowMs) {
+        previousCount = current.windowCount ?? 0;
+      }
+
+      // The previous window counts for the part of it still within windowMs of now
+      const estimate = previousCount * (1 - (now - windowStart) / windowMs) + windowCount;
+      const expiresAt = windowStart + 2 * windowMs;
+      if (estimate + 1 <= maxRequests) {
+        windowCount++;
+        return {
+          allowed: true,
+          state: { algorithm, count: Math.ceil(estimate + 1), resetTime: expiresAt, expiresAt, windowStart, windowCount, previousCount },
+        };
+      }
+
+      // Solve for the time the estimate leaves room for one more request
+      const spare = maxRequests - 1 - windowCount;
+      const resetTime = spare >= 0
+        ? windowStart + Math.ceil(windowMs * (1 - spare / previousCount))
+        : windowStart + windowMs + Math.ceil(windowMs * (1 - (maxRequests - 1) / windowCount));
+      return {
+        allowed: false,
+        state: { algorithm, count: Math.ceil(estimate), resetTime, expiresAt, windowStart, windowCount, previousCount },
+      };
+    }
+
+    case 'token-bucket': {
+      const capacity = getRateLimitCapacity({ maxRequests, ...options });
+      const refillRate = maxRequests / windowMs;
+      let tokens = current
+        ? Math.min(capacity, (current.tokens ?? capacity) + (now - (current.refilledAt ?? now)) * refillRate)
+        : capacity;
+      const allowed = tokens >= 1;
+      if (allowed) {
+        tokens--;
+      }
+
+      const expiresAt = now + Math.ceil((capacity - tokens) / refillRate);
+      return {
+        allowed,
+        state: {
+          algorithm,
+          count: Math.ceil(capacity - tokens),
+          resetTime: allowed ? expiresAt : now + Math.ceil((1 - tokens) / refillRate),
+          expiresAt,
+          tokens,
+          refilledAt: now,
+        },
+      };
+    }
+
+    default: {
+      const window = current && current.expiresAt > now
+        ? current
+        : { algorithm, count: 0, resetTime: now + windowMs, expiresAt: now + windowMs };
+      if (window.count >= maxRequests) {
+        return { allowed: false, state: window };
+      }
+      return { allowed: true, state: { ...window, count: window.count + 1 } };
+    }
+  }
+}
+
+/**
+ * Give back the last request counted against the state of a rate limit key, e.g. for a task that
+ * did not run after all. Storage adapters run this atomically per key; the Redis adapter runs the
+ * same steps in Lua. Reset and expiry times are left as they are.
+ */
+export function refundRateLimitRequest(state: RateLimitState): RateLimitState {
+  const count = Math.max(0, state.count - 1);
+
+  switch (state.algorithm) {
+    case 'sliding-log': {
+      const log = (state.log ?? []).slice(0, -1);
+      return { ...state, count: log.length, log };
+    }
+
+    case 'sliding-window':
+      return { ...state, count, windowCount: Math.max(0, (state.windowCount ?? 0) - 1) };
+
+    case 'token-bucket':
+      return { ...state, count, tokens: (state.tokens ?? 0) + 1 };
+
+    default:
+      return { ...state, count };
+  }
+}
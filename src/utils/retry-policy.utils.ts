@@ -0,0 +1,46 @@
+import { RetryPolicy } from '../interfaces/config.interface';
+
+/**
+ * Calculate the delay before a retry attempt
+ * @param policy Retry policy
+ * @param attempt Number of the failed attempt (1-based)
+ * @param error Error raised by the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function calculateRetryDelay(policy: RetryPolicy, attempt: number, error?: Error): number {
+  const retry = Math.max(1, attempt);
+  let seconds: number;
+
+  switch (policy.type) {
+    case 'fixed':
+      seconds = policy.delay;
+      break;
+
+    case 'linear':
+      seconds = capDelay(policy.delay * retry, policy.maxDelay);
+      break;
+
+    case 'exponential': {
+      const base = capDelay(policy.delay * Math.pow(policy.factor ?? 2, retry - 1), policy.maxDelay);
+      const jitter = Math.min(1, Math.max(0, policy.jitter ?? 0));
+      seconds = base - base * jitter * Math.random();
+      break;
+    }
+
+    case 'custom':
+      seconds = policy.calculate(retry, error);
+      break;
+
+    default:
+      throw new Error(`Unsupported retry policy: ${(policy as any).type}`);
+  }
+
+  return Math.max(0, Math.round(seconds * 1000));
+}
+
+/**
+ * Cap a delay at an optional maximum
+ */
+function capDelay(seconds: number, maxDelay?: number): number {
+  return maxDelay !== undefined ? Math.min(seconds, maxDelay) : seconds;
+}
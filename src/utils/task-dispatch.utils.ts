@@ -0,0 +1,129 @@
+import { PriorityQueueConfig, QueueConfig } from '../interfaces/config.interface';
+import { IStateStorageAdapter, ITask, TaskStatus } from '../interfaces/storage-adapter.interface';
+import { ITaskTransport } from '../interfaces/transport.interface';
+
+/**
+ * Dispatch a stored task through the transport and remember its transport name.
+ * Tasks of paused queues are held until the queue is resumed, tasks due beyond
+ * the transport's scheduling window are parked until they come within reach,
+ * and tasks with a priority go to the matching priority queue.
+ * @param updateData Extra fields stored in the same update as the outcome, e.g. clearing the outbox marker
+ */
+export async function dispatchStoredTask(
+  storageAdapter: IStateStorageAdapter,
+  transport: ITaskTransport,
+  queueConfig: QueueConfig,
+  task: ITask,
+  updateData?: Partial<ITask>,
+): Promise<void> {
+  if (await storageAdapter.isQueuePaused(task.queueName)) {
+    await storageAdapter.updateTask(task.id, { heldAt: new Date(), ...updateData });
+    return;
+  }
+
+  if (isBeyondScheduleWindow(transport, task)) {
+    await storageAdapter.updateTask(task.id, { parkedAt: new Date(), ...updateData });
+    return;
+  }
+
+  const cloudTaskName = await transport.dispatch(getPriorityQueueConfig(queueConfig, task.priority), task);
+  if (cloudTaskName) {
+    await storageAdapter.updateTask(task.id, { cloudTaskName, dispatchCount: (task.dispatchCount ?? 0) + 1, ...updateData });
+  } else if (updateData) {
+    await storageAdapter.updateTask(task.id, updateData);
+  }
+}
+
+/**
+ * Make a waiting task runnable (delayed if it has a delay) and dispatch it.
+ * Without a transport or queue config the task is only marked runnable.
+ * With the outbox the task is marked pending dispatch in the same update as its release,
+ * so a failed dispatch is retried by the outbox relay. Without it, dispatch failures are thrown.
+ * @param updateData Extra fields stored with the status change, e.g. a previous chain result
+ * @param useOutbox Whether the outbox relay dispatches tasks whose dispatch failed
+ */
+export async function releaseWaitingTask(
+  storageAdapter: IStateStorageAdapter,
+  transport: ITaskTransport | undefined,
+  queueConfig: QueueConfig | undefined,
+  task: ITask,
+  updateData: Partial<ITask> = {},
+  useOutbox = false,
+): Promise<void> {
+  // A relative delay counts from the release, an absolute runAt is kept as is
+  const scheduledFor = task.delay ? new Date(Date.now() + task.delay * 1000) : task.scheduledFor;
+  const status = scheduledFor && new Date(scheduledFor).getTime() > Date.now() ? TaskStatus.DELAYED : TaskStatus.IDLE;
+  const pendingDispatchAt = useOutbox && transport && queueConfig ? new Date() : undefined;
+  const releasedTask: ITask = {
+    ...task,
+    ...updateData,
+    status,
+    scheduledFor,
+    pendingDispatchAt,
+    updatedAt: new Date(),
+  };
+  const released = await storageAdapter.transitionTask(task.id, [TaskStatus.WAITING], status, {
+    ...updateData,
+    scheduledFor,
+    pendingDispatchAt,
+    updatedAt: releasedTask.updatedAt,
+  });
+
+  // Another caller released (or cancelled) the task first
+  if (!released || !transport || !queueConfig) return;
+
+  try {
+    await dispatchStoredTask(
+      storageAdapter,
+      transport,
+      queueConfig,
+      releasedTask,
+      useOutbox ? { pendingDispatchAt: undefined } : undefined,
+    );
+  } catch (dispatchError) {
+    if (!useOutbox) {
+      throw dispatchError;
+    }
+    // The task keeps its outbox marker, so the relay dispatches it
+    console.warn(`Failed to dispatch task ${task.id}, left to the outbox relay: ${dispatchError instanceof Error ? dispatchError.message : String(dispatchError)}`);
+  }
+}
+
+/**
+ * Check whether a task is due further ahead than the transport can schedule
+ */
+export function isBeyondScheduleWindow(transport: ITaskTransport, task: ITask, now = Date.now()): boolean {
+  if (!transport.maxScheduleDelayMs || !task.scheduledFor) {
+    return false;
+  }
+  return new Date(task.scheduledFor).getTime() - now > transport.maxScheduleDelayMs;
+}
+
+/**
+ * Get the config of the transport queue receiving tasks of a priority: the queue itself,
+ * or the priority queue with the highest minPriority not above the priority
+ */
+export function getPriorityQueueConfig(queueConfig: QueueConfig, priority = 0): QueueConfig {
+  const priorityQueue = (queueConfig.priorityQueues || [])
+    .filter(candidate => priority >= candidate.minPriority)
+    .sort((a, b) => b.minPriority - a.minPriority)[0];
+  return priorityQueue ? toPriorityQueueConfig(queueConfig, priorityQueue) : queueConfig;
+}
+
+/**
+ * Get the configs of every transport queue of a queue: its own followed by its priority queues
+ */
+export function getTransportQueueConfigs(queueConfig: QueueConfig): QueueConfig[] {
+  return [
+    queueConfig,
+    ...(queueConfig.priorityQueues || []).map(priorityQueue => toPriorityQueueConfig(queueConfig, priorityQueue)),
+  ];
+}
+
+function toPriorityQueueConfig(queueConfig: QueueConfig, priorityQueue: PriorityQueueConfig): QueueConfig {
+  return {
+    ...queueConfig,
+    path: priorityQueue.path,
+    rateLimiter: priorityQueue.rateLimiter ?? queueConfig.rateLimiter,
+  };
+}
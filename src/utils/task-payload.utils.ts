@@ -0,0 +1,17 @@
+import { ITask } from '../interfaces/storage-adapter.interface';
+import { TaskPayload } from '../interfaces/task.interface';
+
+/**
+ * Build the payload delivered to the consumer for a stored task
+ */
+export function buildTaskPayload(task: ITask): TaskPayload {
+  return {
+    taskId: task.id,
+    queueName: task.queueName,
+    data: task.data,
+    attempts: task.attempts,
+    maxAttempts: task.maxAttempts,
+    chain: task.chain,
+    uniquenessKey: task.uniquenessKey,
+  };
+}
@@ -0,0 +1,38 @@
+import { ITask, TaskQueryOptions, TaskSort } from '../interfaces/storage-adapter.interface';
+
+/**
+ * Sort used to pick the next tasks to run: highest priority first, then oldest first
+ */
+export const TASK_PRIORITY_SORT: TaskSort[] = [
+  { field: 'priority', order: 'desc' },
+  { field: 'createdAt', order: 'asc' },
+];
+
+/**
+ * Normalize the sort option of a task query to a list of sorts
+ */
+export function toTaskSorts(sort: TaskQueryOptions['sort']): TaskSort[] {
+  if (!sort) {
+    return [];
+  }
+  return Array.isArray(sort) ? sort : [sort];
+}
+
+/**
+ * Compare two tasks by a list of sorts, for adapters that sort in memory
+ */
+export function compareTasks(a: ITask, b: ITask, sorts: TaskSort[]): number {
+  for (const sort of sorts) {
+    const aValue = getSortValue(a, sort.field);
+    const bValue = getSortValue(b, sort.field);
+
+    if (aValue < bValue) return sort.order === 'asc' ? -1 : 1;
+    if (aValue > bValue) return sort.order === 'asc' ? 1 : -1;
+  }
+  return 0;
+}
+
+function getSortValue(task: ITask, field: string): any {
+  const value = (task as any)[field];
+  return field === 'priority' ? value ?? 0 : value;
+}
@@ -0,0 +1,22 @@
+import { TaskFailureReason } from '../interfaces/storage-adapter.interface';
+
+/**
+ * Name given to errors raised when a task exceeds its timeout
+ */
+export const TASK_TIMEOUT_ERROR_NAME = 'TimeoutError';
+
+/**
+ * Create the error raised when a task exceeds its timeout
+ */
+export function createTaskTimeoutError(taskId: string, timeoutMs: number): Error {
+  const error = new Error(`Task ${taskId} timed out after ${timeoutMs}ms`);
+  error.name = TASK_TIMEOUT_ERROR_NAME;
+  return error;
+}
+
+/**
+ * Get the failure reason recorded for an error raised by a task
+ */
+export function getFailureReason(error: unknown): TaskFailureReason {
+  return error instanceof Error && error.name === TASK_TIMEOUT_ERROR_NAME ? 'timeout' : 'error';
+}
@@ -0,0 +1,22 @@
+import { IStateStorageAdapter, ITask } from '../interfaces/storage-adapter.interface';
+
+/**
+ * Default lifetime of a uniqueness key in seconds
+ */
+export const DEFAULT_UNIQUENESS_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * Release the uniqueness key of a task that completed or failed for good.
+ * Keys deduplicating for their whole TTL ('skip-for-ttl') are left to expire.
+ */
+export async function releaseUniquenessKey(
+  storageAdapter: IStateStorageAdapter,
+  task: Pick<ITask, 'id' | 'uniquenessKey' | 'options'>,
+): Promise<void> {
+  if (!task.uniquenessKey || task.options?.uniquenessMode === 'skip-for-ttl') {
+    return;
+  }
+
+  // The key may have been handed over to a task that replaced this one
+  await storageAdapter.removeUniquenessKey(task.uniquenessKey, task.id);
+}